@@ -11,6 +11,7 @@ import {
   type AutoDebugConfig,
 } from "../utils/auto-debug";
 import {
+  getErrorCodeSummary,
   getRecentErrors,
   getSystemMetrics,
   checkTableHealth,
@@ -186,10 +187,31 @@ program
   .description("Analyze recent errors")
   .option("-h, --hours <number>", "Hours to analyze", "6")
   .option("-l, --limit <number>", "Limit results", "20")
+  .option("--by-code", "Group failed runs by error code across agents")
   .action(async (options) => {
     console.log(`🔍 Analyzing errors (Last ${options.hours} hours)\n`);
 
     try {
+      if (options.byCode) {
+        const groups = await getErrorCodeSummary(parseInt(options.hours));
+        if (groups.length === 0) {
+          console.log("✅ No failed runs found in the specified time period");
+          return;
+        }
+        groups.slice(0, parseInt(options.limit)).forEach((group, i) => {
+          const retry = group.retryable ? " | retryable" : "";
+          console.log(`${i + 1}. ${group.code} (${group.category})`);
+          console.log(`   Occurrences: ${group.occurrences}${retry}`);
+          console.log(`   Last seen: ${group.last_seen.toLocaleString()}`);
+          console.log(
+            `   Affected agents: ${group.affected_agents.join(", ") || "Unknown"}`,
+          );
+          console.log(`   Latest: ${group.sample_message.split("\n")[0]}`);
+          console.log("");
+        });
+        return;
+      }
+
       const errors = await getRecentErrors(parseInt(options.hours));
 
       if (errors.length === 0) {
@@ -0,0 +1,255 @@
+#!/usr/bin/env tsx
+// cli/rlang.ts
+// Command-line tooling for .r files (linting, static checks, compilation,
+// type generation, schedules and event traces)
+
+import { Command } from "commander";
+import { readdir, stat, writeFile } from "fs/promises";
+import { join } from "path";
+import { lintRLangFile, formatLintIssue } from "../runtime/linter";
+import { CompileResult, compileRFile, getCacheDir } from "../runtime/compiler";
+import { loadRFile } from "../runtime/loader";
+import { generateSignatureTypes } from "../runtime/signatures";
+
+const program = new Command();
+
+program
+  .name("rlang")
+  .description("ROL3 R-lang tooling")
+  .version("1.0.0");
+
+program
+  .command("lint")
+  .description("Validate .r files against the step schema")
+  .argument("[paths...]", "Files or directories to lint", ["r"])
+  .option("--no-warnings", "Only report errors")
+  .option("--json", "Print issues as JSON")
+  .action(async (paths: string[], options: any) => {
+    const files = (await Promise.all(paths.map(collectRFiles))).flat();
+
+    let errorCount = 0;
+    let warningCount = 0;
+    const results = [];
+
+    for (const file of files) {
+      const result = await lintRLangFile(file);
+      errorCount += result.errorCount;
+      warningCount += result.warningCount;
+      results.push(result);
+
+      if (!options.json) {
+        for (const issue of result.issues) {
+          if (issue.severity === "warning" && options.warnings === false) {
+            continue;
+          }
+          console.log(formatLintIssue(issue));
+        }
+      }
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(results, null, 2));
+    } else {
+      const icon = errorCount > 0 ? "❌" : warningCount > 0 ? "⚠️" : "✅";
+      console.log(
+        `\n${icon} ${files.length} files: ${errorCount} errors, ${warningCount} warnings`,
+      );
+    }
+
+    process.exitCode = errorCount > 0 ? 1 : 0;
+  });
+
+program
+  .command("compile")
+  .description(
+    "Precompile .r files and their imports into the module cache used by the loader",
+  )
+  .argument("[paths...]", "Files or directories to compile", ["r"])
+  .option("--force", "Recompile modules that are already cached")
+  .option("--json", "Print compiled modules as JSON")
+  .action(async (paths: string[], options: any) => {
+    const files = (await Promise.all(paths.map(collectRFiles))).flat();
+
+    const compiled = new Map<string, CompileResult>();
+    const failures: string[] = [];
+    for (const file of files) {
+      try {
+        for (const result of await compileRFile(file, options)) {
+          compiled.set(result.cachePath, result);
+        }
+      } catch (error) {
+        failures.push(
+          `${file}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    const results = Array.from(compiled.values());
+    if (options.json) {
+      console.log(JSON.stringify({ compiled: results, failures }, null, 2));
+    } else {
+      for (const result of results) {
+        const status = result.upToDate ? "up to date" : "compiled";
+        const lint = result.linted ? "" : " (has lint errors)";
+        console.log(
+          `${result.file}: ${status}, ${result.expressions} expressions${lint}`,
+        );
+      }
+      failures.forEach((failure) => console.log(`❌ ${failure}`));
+      const icon = failures.length > 0 ? "❌" : "✅";
+      console.log(
+        `\n${icon} ${results.length} modules in ${getCacheDir()}, ${failures.length} failed`,
+      );
+    }
+
+    process.exitCode = failures.length > 0 ? 1 : 0;
+  });
+
+program
+  .command("types")
+  .description(
+    "Generate TypeScript types from the signatures: sections of .r files",
+  )
+  .argument("[paths...]", "Files or directories to read", ["r"])
+  .option("-o, --out <file>", "Write the types to a file instead of stdout")
+  .action(async (paths: string[], options: any) => {
+    const files = (await Promise.all(paths.map(collectRFiles))).flat();
+
+    const modules = [];
+    const failures: string[] = [];
+    for (const file of files) {
+      try {
+        modules.push({ file, rFile: await loadRFile(file) });
+      } catch (error) {
+        failures.push(
+          `${file}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    const types = generateSignatureTypes(modules);
+    if (options.out) {
+      await writeFile(options.out, types, "utf-8");
+      console.log(`✅ Wrote ${options.out}`);
+    } else {
+      process.stdout.write(types);
+    }
+    // Files that fail to load have no usable signatures; report, don't fail
+    failures.forEach((failure) => console.error(`⚠️ Skipped ${failure}`));
+  });
+
+program
+  .command("schedules")
+  .description(
+    "List scheduled operations, or pause and resume an agent's schedules",
+  )
+  .argument("[action]", "list, pause or resume", "list")
+  .argument("[agent]", "Agent id (self.id) to pause or resume")
+  .option("--json", "Print schedules as JSON")
+  .action(async (action: string, agent: string | undefined, options: any) => {
+    if (!process.env.DATABASE_URL) {
+      console.error("❌ Schedules are kept in Postgres: set DATABASE_URL");
+      process.exitCode = 1;
+      return;
+    }
+    const { listSchedules, pauseSchedules, resumeSchedules } = await import(
+      "../runtime/scheduler"
+    );
+
+    if (action === "pause" || action === "resume") {
+      if (!agent) {
+        console.error(`❌ Which agent? rlang schedules ${action} <agent>`);
+        process.exitCode = 1;
+        return;
+      }
+      await (action === "pause" ? pauseSchedules : resumeSchedules)(agent);
+      return;
+    }
+    if (action !== "list") {
+      console.error(
+        `❌ Unknown action '${action}' (expected list, pause or resume)`,
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    const schedules = await listSchedules();
+    if (options.json) {
+      console.log(JSON.stringify(schedules, null, 2));
+      return;
+    }
+    for (const schedule of schedules) {
+      const state = schedule.paused
+        ? "paused"
+        : schedule.lockedUntil
+          ? "running"
+          : `next ${schedule.nextRunAt}`;
+      const last = schedule.lastRunAt
+        ? `, last ${schedule.lastRunAt} ${schedule.lastStatus ?? "running"}`
+        : "";
+      console.log(
+        `${schedule.agentId}:${schedule.operation} (${schedule.trigger}): ${state}${last}`,
+      );
+      if (schedule.lastError) console.log(`  ❌ ${schedule.lastError}`);
+    }
+    console.log(`\n⏰ ${schedules.length} scheduled operations`);
+  });
+program
+  .command("events")
+  .description("Show the events of a trace and the runs they led to")
+  .argument(
+    "<trace_id>",
+    "Trace id: the execution id of the run that started it",
+  )
+  .option("--json", "Print the trace as JSON")
+  .action(async (traceId: string, options: any) => {
+    if (!process.env.DATABASE_URL) {
+      console.error("❌ Events are kept in Postgres: set DATABASE_URL");
+      process.exitCode = 1;
+      return;
+    }
+    const { getEventTrace } = await import("../runtime/events");
+
+    const events = await getEventTrace(traceId);
+    if (options.json) {
+      console.log(JSON.stringify(events, null, 2));
+      return;
+    }
+    for (const event of events) {
+      console.log(
+        `📣 ${event.createdAt} ${event.topic} (${event.id}) from ${event.sourceAgent ?? "unknown"} ${event.sourceExecutionId ?? ""}`,
+      );
+      for (const delivery of event.deliveries) {
+        const icon =
+          delivery.status === "delivered"
+            ? "✅"
+            : delivery.status === "dead"
+              ? "💀"
+              : "⏳";
+        console.log(
+          `  ${icon} ${delivery.agentId}:${delivery.operation} ${delivery.handlerExecutionId ?? ""} (${delivery.attempts} attempts)`,
+        );
+        if (delivery.lastError) console.log(`     ${delivery.lastError}`);
+      }
+    }
+    console.log(`\n${events.length} events in trace ${traceId}`);
+  });
+
+async function collectRFiles(path: string): Promise<string[]> {
+  const info = await stat(path);
+  if (!info.isDirectory()) return [path];
+
+  const entries = await readdir(path, { withFileTypes: true });
+  const nested = await Promise.all(
+    entries.map((entry) => {
+      const entryPath = join(path, entry.name);
+      if (entry.isDirectory()) return collectRFiles(entryPath);
+      return Promise.resolve(entry.name.endsWith(".r") ? [entryPath] : []);
+    }),
+  );
+  return nested.flat();
+}
+
+program.parse();
+
+export default program;
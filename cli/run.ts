@@ -9,7 +9,7 @@ const operation = args[1] || 'genesis';
 
 console.log(`🧪 Running ${file} -> ${operation}`);
 
-runRLang({ file, operation })
+runRLang({ file, operation, context: { role: 'system' } })
   .then(result => {
     console.log('✅ Result:', result);
     process.exit(0);
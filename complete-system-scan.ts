@@ -290,6 +290,7 @@ async function testSystemIntegrations() {
             memory: {},
             agentId: "test",
             operation: "test",
+            role: "system",
             timestamp: new Date().toISOString(),
             trace: [],
           },
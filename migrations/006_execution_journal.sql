@@ -0,0 +1,33 @@
+-- migrations/006_execution_journal.sql
+-- Execution journal for durable, resumable runs (runtime/journal.ts)
+
+-- One row per durable run: where it got to and its memory at that point
+CREATE TABLE IF NOT EXISTS rlang_executions (
+    execution_id TEXT PRIMARY KEY,
+    file TEXT NOT NULL,
+    operation TEXT NOT NULL,
+    input JSONB DEFAULT '{}',
+    client_id TEXT,
+    agent_id TEXT,
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+    step_index INTEGER NOT NULL DEFAULT -1, -- Last completed top-level step, -1 before the first
+    memory JSONB DEFAULT '{}', -- context.memory after that step
+    output JSONB, -- Output of that step; the operation's result once completed
+    error JSONB, -- ErrorInfo of the failure (runtime/errors.ts)
+    resume_count INTEGER DEFAULT 0,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rlang_executions_status ON rlang_executions (status, updated_at);
+CREATE INDEX IF NOT EXISTS idx_rlang_executions_agent ON rlang_executions (agent_id);
+
+-- Append-only log of completed steps
+CREATE TABLE IF NOT EXISTS rlang_execution_steps (
+    execution_id TEXT NOT NULL REFERENCES rlang_executions (execution_id) ON DELETE CASCADE,
+    step_index INTEGER NOT NULL,
+    step TEXT NOT NULL,
+    output JSONB,
+    completed_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (execution_id, step_index)
+);
@@ -0,0 +1,14 @@
+-- migrations/007_suspended_executions.sql
+-- Durable runs waiting for a prompt.user answer (runtime/human-input.ts)
+
+ALTER TABLE rlang_executions DROP CONSTRAINT IF EXISTS rlang_executions_status_check;
+ALTER TABLE rlang_executions ADD CONSTRAINT rlang_executions_status_check
+    CHECK (status IN ('running', 'suspended', 'completed', 'failed'));
+
+ALTER TABLE rlang_executions
+    ADD COLUMN IF NOT EXISTS resume_path JSONB, -- Step pointers from the operation down to the prompt
+    ADD COLUMN IF NOT EXISTS prompt JSONB, -- The prompt waiting for an answer
+    ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ; -- When its default answer applies
+
+CREATE INDEX IF NOT EXISTS idx_rlang_executions_expires ON rlang_executions (expires_at)
+    WHERE status = 'suspended';
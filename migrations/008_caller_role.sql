@@ -0,0 +1,5 @@
+-- migrations/008_caller_role.sql
+-- Role of the caller a durable run was started by, so resumed runs get the
+-- same `aam` checks (runtime/policy.ts)
+
+ALTER TABLE rlang_executions ADD COLUMN IF NOT EXISTS caller_role TEXT;
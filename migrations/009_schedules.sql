@@ -0,0 +1,25 @@
+-- migrations/009_schedules.sql
+-- Scheduled runs from `schedule:` sections of .r files (runtime/scheduler.ts)
+
+-- One row per scheduled operation: when it last ran and runs next
+CREATE TABLE IF NOT EXISTS rlang_schedules (
+    agent_id TEXT NOT NULL,
+    operation TEXT NOT NULL,
+    file TEXT NOT NULL,
+    trigger TEXT NOT NULL, -- "cron:<expression>" or "every:<ms>"
+    next_run_at TIMESTAMPTZ NOT NULL,
+    last_run_at TIMESTAMPTZ,
+    last_status TEXT CHECK (last_status IN ('completed', 'failed')),
+    last_error TEXT,
+    locked_until TIMESTAMPTZ, -- Set while a run is in progress
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (agent_id, operation)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rlang_schedules_next ON rlang_schedules (next_run_at);
+
+-- Agents whose schedules are paused
+CREATE TABLE IF NOT EXISTS rlang_schedule_pauses (
+    agent_id TEXT PRIMARY KEY,
+    paused_at TIMESTAMPTZ DEFAULT NOW()
+);
@@ -0,0 +1,39 @@
+-- migrations/010_events.sql
+-- Outbox of the event bus: `emit:` steps and `on:` subscriptions (runtime/events.ts)
+
+CREATE TABLE IF NOT EXISTS rlang_events (
+    id TEXT PRIMARY KEY,
+    topic TEXT NOT NULL,
+    data JSONB,
+    trace_id TEXT NOT NULL, -- Shared by the events and runs one event led to
+    depth INTEGER NOT NULL DEFAULT 1, -- Events emitted while handling one are one deeper
+    source_agent TEXT,
+    source_execution_id TEXT, -- The run that emitted it
+    caller_role TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rlang_events_trace ON rlang_events (trace_id);
+
+-- One row per subscribed agent and event
+CREATE TABLE IF NOT EXISTS rlang_event_deliveries (
+    id TEXT PRIMARY KEY,
+    event_id TEXT NOT NULL REFERENCES rlang_events (id) ON DELETE CASCADE,
+    agent_id TEXT NOT NULL,
+    file TEXT NOT NULL,
+    operation TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'delivered', 'dead')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL,
+    next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+    locked_until TIMESTAMPTZ, -- Set while a handler runs
+    handler_execution_id TEXT, -- The run of the last attempt
+    last_error TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rlang_event_deliveries_due ON rlang_event_deliveries (next_attempt_at)
+    WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_rlang_event_deliveries_event ON rlang_event_deliveries (event_id);
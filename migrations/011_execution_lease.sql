@@ -0,0 +1,7 @@
+-- migrations/011_execution_lease.sql
+-- Lease on running durable runs, so only one process executes a run at a
+-- time (runtime/journal.ts)
+
+ALTER TABLE rlang_executions
+    ADD COLUMN IF NOT EXISTS lease_owner TEXT, -- Process running it
+    ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ; -- Renewed while it runs; others may resume it after
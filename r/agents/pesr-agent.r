@@ -9,7 +9,7 @@ self:
 
 aam:
   require_role: "system"
-  allow_actions: ["monitor", "detect", "analyze", "alert"]
+  allow_actions: ["monitor", "detect", "analyze", "alert", "self.modify"]
 
 dependencies:
   services: ["webhook_receiver", "api_poller", "file_watcher"]
@@ -610,6 +610,7 @@ incoming:
     path: "/signals/external"
     method: "POST"
     operation: "process_external_signal"
+    auth: { type: "api_key", secret_env: "PESR_SIGNAL_KEY", role: "system" }
 
 # Enhanced signal pattern definitions with RCD metadata
 signal_patterns:
@@ -49,6 +49,34 @@ rcd:
       track_metrics: ["feedback_integration", "improvement_rate", "pattern_recognition"]
       optimization_target: "continuous_improvement"
 
+signatures:
+  message_handler:
+    inputs:
+      required: [message]
+      properties:
+        message:
+          type: object
+          required: [text, user_id, channel_id]
+          properties:
+            text: string
+            user_id: string
+            channel_id: string
+            message_id: string
+            username: string
+        webhook_data: object
+        headers: object
+
+  button_response_handler:
+    inputs:
+      required: [button, userId, channel]
+      properties:
+        button: string
+        userId: string
+        username: string
+        channel: string
+        messageId: string
+        context: object
+
 operations:
   initialize:
     - tamr.log: { event: "rocketchat_intake_started", timestamp: "${timestamp}" }
@@ -792,6 +820,7 @@ incoming:
     path: "/webhooks/rocketchat"
     method: "POST"
     operation: "webhook_message_handler"
+    auth: { type: "none" } # Served by server/webhook-handler.ts
 
 concern:
   if: "${user_satisfaction_score < 0.7 || intent_accuracy < 0.8}"
@@ -8,7 +8,7 @@ self:
 
 aam:
   require_role: "system"
-  allow_actions: ["genesis", "diagnose", "heal", "spawn_agent"]
+  allow_actions: ["genesis", "diagnose", "heal", "spawn_agent", "self.modify"]
 
 operations:
   genesis:
@@ -0,0 +1,16 @@
+# r/shared/validation.r - Validation helpers shared by bootstrap files
+# Import with:
+#   imports:
+#     validation: shared/validation
+self:
+  id: "validation"
+  intent: "Collect validation errors into a memory list"
+  version: "1.0.0"
+
+operations:
+  # Append input.error to the caller's list (input.list, default "validation_errors")
+  add_error:
+    - append_to_array:
+        array: "${input.list || 'validation_errors'}"
+        item: "${input.error}"
+    - tamr.log: { event: "validation_error_added", list: "${input.list || 'validation_errors'}", error: "${input.error}" }
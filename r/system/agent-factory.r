@@ -9,6 +9,7 @@ self:
 
 aam:
   require_role: "system"
+  allow_roles: ["chat"] # rocketchat-intake creates agents for chat users
   allow_actions: ["create_agent", "analyze_patterns", "optimize_templates", "evolve_factory"]
 
 operations:
@@ -12,6 +12,14 @@ aam:
   require_role: "system"
   allow_actions: ["genesis", "bootstrap", "policy_modify", "system_restart"]
 
+imports:
+  validation: shared/validation
+
+# Run by runtime/scheduler.ts
+schedule:
+  memory_cleanup:
+    every_ms: 300000
+
 operations:
   system_genesis:
     - tamr.log: { event: "bootstrap_genesis_start", timestamp: "${timestamp}", version: "${self.version}" }
@@ -96,19 +104,10 @@ operations:
         if: "!${input.health_result.healthy}"
         then:
           - tamr.log: { event: "database_unhealthy", error: "${input.health_result.error}" }
-          - add_validation_error: { error: "Database unhealthy: ${input.health_result.error}" }
+          - validation.add_error: { list: "collected_validation_errors", error: "Database unhealthy: ${input.health_result.error}" }
         else:
           - tamr.log: { event: "database_healthy", timestamp: "${input.health_result.timestamp}" }
 
-  # FIXED: Missing internal operation - Validation error state management
-  add_validation_error:
-    - set_memory:
-        collected_validation_errors: "${collected_validation_errors || []}"
-    - append_to_array:
-        array: "collected_validation_errors"
-        item: "${input.error}"
-    - tamr.log: { event: "validation_error_added", error: "${input.error}", total_errors: "${collected_validation_errors.length}" }
-
   # FIXED: Missing internal operation - File system permissions check
   check_file_system_permissions:
     - initialize_permission_results: []
@@ -214,7 +213,7 @@ operations:
                 - condition:
                     if: "!${inner.operation.accessible}"
                     then:
-                      - add_validation_error: { error: "Cannot access ${outer.item.path} for ${inner.operation.operation}: ${inner.operation.error}" }
+                      - validation.add_error: { list: "collected_validation_errors", error: "Cannot access ${outer.item.path} for ${inner.operation.operation}: ${inner.operation.error}" }
 
   # FIXED: Missing internal operation - Check memory availability
   check_memory_availability:
@@ -239,7 +238,7 @@ operations:
     - condition:
         if: "${input.memory_check.available_mb < input.memory_check.minimum_required}"
         then:
-          - add_validation_error: { error: "Insufficient memory: ${input.memory_check.available_mb}MB < ${input.memory_check.minimum_required}MB" }
+          - validation.add_error: { list: "collected_validation_errors", error: "Insufficient memory: ${input.memory_check.available_mb}MB < ${input.memory_check.minimum_required}MB" }
         else:
           - tamr.log: { event: "memory_sufficient", available: "${input.memory_check.available_mb}MB" }
 
@@ -325,7 +324,7 @@ operations:
           - condition:
               if: "!${modules.item.available}"
               then:
-                - add_validation_error: { error: "Critical module missing: ${modules.item.name} - ${modules.item.error}" }
+                - validation.add_error: { list: "collected_validation_errors", error: "Critical module missing: ${modules.item.name} - ${modules.item.error}" }
 
     - loop:
         forEach: "${input.dependency_results.optional_modules}"
@@ -364,12 +363,6 @@ operations:
                 rlang_file: "r/system/bootstrap-policies.r",
                 operation: "graceful_shutdown"
               } }
-          - name: "memory_manager"
-            action: { bootstrap.setTimer: {
-                rlang_file: "r/system/bootstrap-policies.r",
-                operation: "memory_cleanup",
-                interval_ms: 300000
-              } }
 
     - validate_infrastructure_results:
         parallel_results: "${parallel_results}"
@@ -797,19 +790,6 @@ operations:
         collected_validation_errors: "${input.collected_validation_errors || []}"
         validation_start_time: "${input.validation_start_time || Date.now()}"
 
-  append_to_array:
-    - condition:
-        try:
-          - set_memory:
-              temp_array: "${${input.array} || []}"
-              new_item: "${input.item}"
-          - set_memory:
-              "${input.array}": "${temp_array.concat([new_item])}"
-        catch:
-          - tamr.log: { event: "append_to_array_error", array: "${input.array}", error: "${error.message}" }
-          - set_memory:
-              "${input.array}": ["${input.item}"]
-
   calculate_memory_metrics:
     - set_memory:
         total_mb: "${input.total_mb}"
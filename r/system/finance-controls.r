@@ -6,6 +6,7 @@ self:
   intent: "Backend financial controls, approval learning, and compliance enforcement"
   version: "1.0.0"
   template: "system_specialist"
+  durable: true # Human approvals wait for an answer, see runtime/human-input.ts
 
 aam:
   require_role: "system"  # Only system can modify this agent
@@ -33,14 +34,26 @@ operations:
           - auto_approve: { rule: "${applicable_rule}" }
           - track_auto_approval: { decision_context: "${input}" }
         else:
-          - request_human_approval: {
-              escalate_to: "${client_doa.approval_chain}",
-              context: "${input}"
-            }
+          # Suspends the run until the approver answers (or the timeout rejects)
+          - prompt.user:
+              to: "${client_doa.approval_chain[0]}"
+              message: "Approval needed: ${input.transaction_type} for ${input.client_id}"
+              buttons: ["Approve", "Reject"]
+              wait: true
+              timeout_ms: 86400000
+              default: "Reject"
+            as: human_decision
           - track_human_decision: {
-              awaiting_decision: true,
+              decision: "${human_decision.choice}",
+              decided_by: "${human_decision.user}",
+              timed_out: "${human_decision.timed_out}",
               context: "${input}"
             }
+          - process_human_decision: {
+              client_id: "${input.client_id}",
+              human_decision: "${human_decision.choice}",
+              original_context: "${input}"
+            }
 
   # Learn from human decisions (invisible to clients)
   process_human_decision:
@@ -6,6 +6,7 @@ self:
 
 aam:
   require_role: "system"
+  allow_roles: ["chat"] # rocketchat-intake runs it for chat users
   allow_actions: ["analyze_intent", "extract_requirements", "prompt_clarification"]
 
 operations:
@@ -1,21 +1,16 @@
-# r/templates/learning-mixin.r
+# r/system/learning-mixin.r
 # Universal Learning Behavior - Inherit this to make any agent learning-enabled
 
 # 🧠 LEARNING MIXIN - Add intelligence to any agent
-# Usage: Include this in your agent with: `include: "r/templates/learning-mixin.r"`
+# Usage: list it under `mixins:` in your agent
+#   mixins: [system/learning-mixin]
+# The hooks below then run around every operation of the agent, and the
+# operations become operations of the agent.
 
-learning_config:
-  enabled: true
-  immediate_learning: true     # Learn from each operation
-  batch_learning: true        # Participate in learning cycles
-  knowledge_sharing: true     # Share/receive patterns from other agents
-  self_optimization: true     # Allow auto-optimization
-  feedback_learning: true     # Learn from user corrections
-  performance_tracking: true  # Track operation performance
-
-learning_hooks:
+hooks:
   # Automatically called after each operation
   after_operation:
+    - learning_config: {}
     - condition:
         if: "${learning_config.immediate_learning}"
         then:
@@ -27,19 +22,20 @@ learning_hooks:
                 duration_ms: "${execution_time}",
                 memory_mb: "${memory_usage}",
                 success: "${operation_result.success}"
+                }
               }
-            }
           - run: ["r/system/learning-engine.r", "analyze_agent_execution", {
-              agent_id: "${self.id}",
+              agent_id: "${agentId}",
               operation: "${completed_operation}",
               context: "${operation_context}",
               result: "${operation_result}",
               performance_metrics: "${execution_metrics}",
               input_hash: "${input_hash}"
-            }]
+              }]
 
   # Called when operation fails
   on_failure:
+    - learning_config: {}
     - condition:
         if: "${learning_config.immediate_learning}"
         then:
@@ -47,19 +43,32 @@ learning_hooks:
               operation: "${failed_operation}",
               error: "${failure_error}",
               context: "${failure_context}"
-            }
+              }
           # Trigger emergency learning for critical failures
           - condition:
               if: "${failure_severity == 'critical'}"
               then:
                 - run: ["r/system/learning-engine.r", "emergency_learning", {
-                    agent_id: "${self.id}",
+                    agent_id: "${agentId}",
                     failure_context: "${failure_context}",
                     priority: "high"
-                  }]
+                    }]
+
+operations:
+  # Learning settings - call it to bind ${learning_config}
+  learning_config:
+    - return:
+        enabled: true
+        immediate_learning: true     # Learn from each operation
+        batch_learning: true        # Participate in learning cycles
+        knowledge_sharing: true     # Share/receive patterns from other agents
+        self_optimization: true     # Allow auto-optimization
+        feedback_learning: true     # Learn from user corrections
+        performance_tracking: true  # Track operation performance
 
-  # Called when user provides feedback
+  # Call when the user provides feedback
   on_user_feedback:
+    - learning_config: {}
     - condition:
         if: "${learning_config.feedback_learning}"
         then:
@@ -67,24 +76,24 @@ learning_hooks:
               feedback: "${user_feedback}",
               operation_context: "${original_context}",
               agent_response: "${agent_response}"
-            }
+              }
           - update_behavior_patterns: {
               feedback_type: "${feedback.type}",
               correction: "${feedback.correction}",
               context: "${operation_context}"
-            }
+              }
 
-learning_operations:
   # Initialize learning capabilities for this agent
   initialize_learning:
+    - learning_config: {}
     - tamr.log: {
         event: "learning_enabled",
-        agent_id: "${self.id}",
+        agent_id: "${agentId}",
         capabilities: "${learning_config}"
-      }
-    - register_with_learning_engine: { agent_id: "${self.id}" }
-    - load_applicable_patterns: { agent_id: "${self.id}" }
-    - respond: "🧠 Learning capabilities activated for ${self.id}"
+        }
+    - register_with_learning_engine: { agent_id: "${agentId}" }
+    - load_applicable_patterns: { agent_id: "${agentId}" }
+    - respond: "🧠 Learning capabilities activated for ${agentId}"
 
   # Capture detailed metrics for each operation
   capture_execution_metrics:
@@ -94,14 +103,14 @@ learning_operations:
         end_time: "${timestamp}",
         memory_before: "${input.context.memory_before}",
         memory_after: "${current_memory_usage}"
-      }
+        }
     - extract_context_features: {
         input_type: "${input.context.input_type}",
         user: "${input.context.user}",
         channel: "${input.context.channel}",
         time_of_day: "${timestamp.hour}",
         system_load: "${current_system_load}"
-      }
+        }
     - return: {
         input_hash: "${calculated_hash}",
         duration_ms: "${performance.duration}",
@@ -109,7 +118,7 @@ learning_operations:
         success: "${input.result.success}",
         error_type: "${input.result.error_type}",
         context_features: "${extracted_features}"
-      }
+        }
 
   # Immediate failure analysis
   analyze_failure_immediately:
@@ -117,16 +126,16 @@ learning_operations:
         error: "${input.error}",
         operation: "${input.operation}",
         context: "${input.context}"
-      }
+        }
     - extract_failure_patterns: {
         classification: "${failure_classification}",
         recent_context: "${input.context}",
         error_details: "${input.error}"
-      }
+        }
     - check_known_solutions: {
         failure_pattern: "${extracted_patterns}",
-        agent_id: "${self.id}"
-      }
+        agent_id: "${agentId}"
+        }
     - condition:
         if: "${known_solutions.found}"
         then:
@@ -134,7 +143,7 @@ learning_operations:
               event: "known_solution_available",
               failure_type: "${failure_classification}",
               solution: "${known_solutions.solution}"
-            }
+              }
           - suggest_immediate_fix: { solution: "${known_solutions.solution}" }
 
   # Process user feedback and corrections
@@ -142,7 +151,7 @@ learning_operations:
     - classify_feedback: {
         feedback: "${input.feedback}",
         types: ["correction", "improvement", "preference", "error_report"]
-      }
+        }
     - condition:
         switch: "${feedback_classification.type}"
         cases:
@@ -151,57 +160,58 @@ learning_operations:
                   original_response: "${input.agent_response}",
                   correct_response: "${input.feedback.correction}",
                   context: "${input.operation_context}"
-                }
+                  }
               - update_response_patterns: {
                   context_pattern: "${context_hash}",
                   correct_pattern: "${correction_pattern}"
-                }
+                  }
 
           - improvement:
               - analyze_improvement_suggestion: {
                   suggestion: "${input.feedback.improvement}",
                   current_behavior: "${agent_current_behavior}"
-                }
+                  }
               - queue_for_optimization: {
                   improvement: "${improvement_analysis}",
                   priority: "medium"
-                }
+                  }
 
           - preference:
               - store_user_preference: {
                   user: "${input.operation_context.user}",
                   preference: "${input.feedback.preference}",
                   context: "${preference_context}"
-                }
+                  }
 
           - error_report:
               - investigate_reported_error: {
                   error_report: "${input.feedback.error}",
                   operation_context: "${input.operation_context}"
-                }
+                  }
 
   # Load and apply patterns discovered by learning engine
   load_applicable_patterns:
     - run: ["r/system/learning-engine.r", "get_learning_insights", {
         agent_id: "${input.agent_id}"
-      }]
+        }]
     - filter_relevant_patterns: {
         insights: "${learning_insights}",
         agent_capabilities: "${self_capabilities}",
         confidence_threshold: 0.7
-      }
+        }
     - apply_learned_patterns: {
         patterns: "${relevant_patterns}",
         integration_mode: "gradual"
-      }
+        }
     - tamr.log: {
         event: "patterns_loaded",
         agent_id: "${input.agent_id}",
         patterns_count: "${relevant_patterns.length}"
-      }
+        }
 
   # Self-optimization workflow
   request_self_optimization:
+    - learning_config: {}
     - condition:
         if: "${learning_config.self_optimization}"
         then:
@@ -209,39 +219,40 @@ learning_operations:
           - identify_optimization_opportunities: {
               performance_data: "${performance_analysis}",
               target_improvements: ["speed", "accuracy", "resource_usage"]
-            }
+              }
           - condition:
               if: "${optimization_opportunities.length > 0}"
               then:
                 - request_optimization_from_learning_engine: {
-                    agent_id: "${self.id}",
+                    agent_id: "${agentId}",
                     opportunities: "${optimization_opportunities}",
                     current_performance: "${performance_analysis}"
-                  }
+                    }
         else:
           - tamr.log: {
               event: "self_optimization_disabled",
-              agent_id: "${self.id}"
-            }
+              agent_id: "${agentId}"
+              }
 
   # Share successful patterns with other agents
   share_knowledge:
+    - learning_config: {}
     - condition:
         if: "${learning_config.knowledge_sharing}"
         then:
           - extract_shareable_patterns: {
-              agent_id: "${self.id}",
+              agent_id: "${agentId}",
               success_threshold: 0.8,
               recency: "30d"
-            }
+              }
           - identify_similar_agents: {
               criteria: ["similar_operations", "shared_services", "comparable_context"]
-            }
+              }
           - register_patterns_for_sharing: {
               patterns: "${shareable_patterns}",
-              source_agent: "${self.id}",
+              source_agent: "${agentId}",
               target_agents: "${similar_agents}"
-            }
+              }
 
   # Receive and integrate knowledge from other agents
   receive_knowledge:
@@ -249,7 +260,7 @@ learning_operations:
         knowledge: "${input.knowledge}",
         source_agent: "${input.source_agent}",
         compatibility_check: true
-      }
+        }
     - condition:
         if: "${validation.compatible && validation.beneficial}"
         then:
@@ -257,11 +268,11 @@ learning_operations:
               knowledge: "${input.knowledge}",
               integration_strategy: "cautious",
               rollback_plan: true
-            }
+              }
           - test_knowledge_integration: {
               test_scenarios: "${knowledge_test_cases}",
               baseline_comparison: true
-            }
+              }
           - condition:
               if: "${integration_test.improvement > 0.05}"
               then:
@@ -270,53 +281,54 @@ learning_operations:
                     event: "knowledge_received",
                     from_agent: "${input.source_agent}",
                     improvement: "${integration_test.improvement}"
-                  }
+                    }
               else:
                 - rollback_knowledge_integration: { integration_id: "${integration.id}" }
 
   # Performance tracking and reporting
   track_performance:
+    - learning_config: {}
     - condition:
         if: "${learning_config.performance_tracking}"
         then:
           - calculate_performance_metrics: {
               window: "${input.window || '24h'}",
               metrics: ["success_rate", "avg_response_time", "error_rate", "user_satisfaction"]
-            }
+              }
           - compare_with_baseline: {
               current_metrics: "${performance_metrics}",
               baseline_period: "30d"
-            }
+              }
           - detect_performance_trends: {
               metrics_history: "${historical_metrics}",
               trend_analysis: "regression"
-            }
+              }
           - return: {
               current_performance: "${performance_metrics}",
               baseline_comparison: "${baseline_comparison}",
               trends: "${performance_trends}"
-            }
+              }
 
   # Learn from operation patterns over time
   analyze_operation_patterns:
     - tamr.query: {
-        agent_id: "${self.id}",
+        agent_id: "${agentId}",
         since: "${input.window || '-7d'}",
         limit: 500
-      }
+        }
     - group_by_operation: { logs: "${query_result}" }
     - analyze_success_patterns: {
         grouped_operations: "${operation_groups}",
         success_criteria: "completion_without_error"
-      }
+        }
     - identify_failure_correlations: {
         grouped_operations: "${operation_groups}",
         correlation_types: ["time_based", "input_based", "context_based"]
-      }
+        }
     - extract_behavioral_insights: {
         success_patterns: "${success_analysis}",
         failure_correlations: "${failure_correlations}"
-      }
+        }
     - return: "${behavioral_insights}"
 
   # Continuous improvement workflow
@@ -326,25 +338,24 @@ learning_operations:
         while: "${improvement_enabled}"
         do:
           - wait: { duration: "${improvement_interval}" }
-          - run: ["analyze_operation_patterns"]
-          - run: ["track_performance"]
+          - analyze_operation_patterns: {}
+          - track_performance: {}
           - condition:
               if: "${performance_declining || error_rate_increasing}"
               then:
-                - run: ["request_self_optimization"]
+                - request_self_optimization: {}
           - condition:
               if: "${performance_excellent && stable}"
               then:
-                - run: ["share_knowledge"]
+                - share_knowledge: {}
 
-# Helper functions for learning integration
-learning_helpers:
+  # Helper functions for learning integration
   calculate_input_hash:
     - infer.generateHash: {
         data: "${input.input}",
         algorithm: "sha256",
         normalize: true
-      }
+        }
     - return: "${generated_hash}"
 
   classify_failure:
@@ -359,8 +370,8 @@ learning_helpers:
           "logic_error",
           "timeout_error",
           "permission_error"
-        ]
-      }
+          ]
+        }
     - return: "${failure_classification}"
 
   extract_context_features:
@@ -368,18 +379,18 @@ learning_helpers:
         input_type: "${typeof(input.input_type)}",
         user_id: "${input.user}",
         channel_type: "${input.channel}",
-        hour_of_day: "${new Date(input.timestamp).getHours()}",
-        day_of_week: "${new Date(input.timestamp).getDay()}",
+        hour_of_day: "${number(format_date(input.timestamp, 'HH'))}",
+        day_of_week: "${floor(date_diff(input.timestamp, '1970-01-04', 'd')) % 7}",
         system_load: "${input.system_load || 'unknown'}",
         concurrent_operations: "${active_operations_count}"
-      }
+        }
 
   measure_performance:
     - return: {
         duration: "${input.end_time - input.start_time}",
         memory_delta: "${input.memory_after - input.memory_before}",
         timestamp: "${input.end_time}"
-      }
+        }
 
 # Learning state management
 learning_state:
@@ -391,28 +402,6 @@ learning_state:
   last_learning_cycle: null
   learning_effectiveness: 0.0
 
-# Integration with main agent operations
-operation_wrappers:
-  # Wrap any operation with learning hooks
-  with_learning:
-    - tamr.remember: { key: "operation_start_time", value: "${timestamp}" }
-    - tamr.remember: { key: "memory_before", value: "${current_memory_usage}" }
-
-    # Execute the wrapped operation
-    - "${input.operation}"
-
-    # Post-operation learning
-    - run: ["learning_hooks.after_operation", {
-        completed_operation: "${input.operation}",
-        operation_result: "${operation_result}",
-        operation_context: {
-          start_time: "${memory.operation_start_time}",
-          memory_before: "${memory.memory_before}",
-          input: "${input}",
-          agent_id: "${self.id}"
-        }
-      }]
-
 # Automatic learning integration for common patterns
 auto_learning_triggers:
   # Trigger learning analysis after N operations
@@ -425,10 +414,10 @@ auto_learning_triggers:
   performance_trigger:
     condition: "${current_success_rate < baseline_success_rate * 0.9}"
     action:
-      - run: ["request_self_optimization"]
+      - request_self_optimization: {}
 
   # Share knowledge after consistent good performance
   knowledge_sharing_trigger:
     condition: "${success_rate > 0.95 && stable_performance_days > 7}"
     action:
-      - run: ["share_knowledge"]
+      - share_knowledge: {}
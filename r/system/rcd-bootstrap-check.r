@@ -12,6 +12,9 @@ aam:
   require_role: "system"
   allow_actions: ["check_rcd", "bootstrap_metadata", "validate_tags"]
 
+imports:
+  validation: shared/validation
+
 # Self-tag this bootstrap file
 rcd:
   meta_tags:
@@ -127,7 +130,7 @@ operations:
                     capability: "${item}",
                     severity: "error"
                   }
-                - add_validation_error: { capability: "${item}" }
+                - validation.add_error: { error: "${item}" }
               else:
                 - tamr.log: {
                     event: "critical_capability_validated",
@@ -172,7 +175,7 @@ operations:
                     capability: "${item}",
                     severity: "error"
                   }
-                - add_validation_error: { capability: "${item}" }
+                - validation.add_error: { error: "${item}" }
               else:
                 - tamr.log: {
                     event: "critical_capability_validated",
@@ -185,24 +188,6 @@ operations:
         critical_files: "${input.files}"
     - tamr.log: { event: "critical_files_defined", count: "${input.files.length}" }
 
-  add_validation_error:
-    - set_memory:
-        validation_errors: "${validation_errors || []}"
-    - append_to_array:
-        array: "validation_errors"
-        item: "${input.capability}"
-
-  append_to_array:
-    - condition:
-        try:
-          - set_memory:
-              temp_array: "${${input.array} || []}"
-          - set_memory:
-              "${input.array}": "${temp_array.concat([input.item])}"
-        catch:
-          - set_memory:
-              "${input.array}": ["${input.item}"]
-
   file_exists:
     - set_memory:
         file_exists_result: true
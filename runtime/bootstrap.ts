@@ -12,7 +12,12 @@ export async function registerSignalHandler(args: any, context: RLangContext) {
   const { runRLang } = await import("../runtime/interpreter");
 
   process.on(signal, () => {
-    runRLang({ file: rlang_file, operation, input: { signal } });
+    runRLang({
+      file: rlang_file,
+      operation,
+      input: { signal },
+      context: { role: "system" },
+    });
   });
 
   return { signal_registered: signal };
@@ -74,13 +79,35 @@ export async function getSystemStats(args: any, context: RLangContext) {
 }
 
 /**
- * Raw timer creation - OS primitive
+ * Raw timer creation - OS primitive. A tick is skipped while the previous
+ * run is still going, and each run is limited to timeout_ms (default: one
+ * interval).
  */
 export async function setTimer(args: any, context: RLangContext) {
   const { runRLang } = await import("../runtime/interpreter");
 
-  const timer = setInterval(() => {
-    runRLang({ file: args.rlang_file, operation: args.operation });
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) {
+      console.warn(
+        `⏭️ Skipping ${args.rlang_file}:${args.operation}, previous run still in progress`,
+      );
+      return;
+    }
+    running = true;
+    try {
+      const result = await runRLang({
+        file: args.rlang_file,
+        operation: args.operation,
+        timeoutMs: Number(args.timeout_ms ?? args.interval_ms),
+        context: { role: "system" },
+      });
+      if (result.errorCode) {
+        console.warn(`⏱️ ${args.rlang_file}:${args.operation}: ${result.error}`);
+      }
+    } finally {
+      running = false;
+    }
   }, args.interval_ms);
 
   return { timer_id: timer[Symbol.toPrimitive]() };
@@ -0,0 +1,108 @@
+// runtime/call-stack.ts
+// Call-stack tracking: re-entrant cycles and runaway depth
+//
+// Every run (runRLang / `run:` steps), internal operation call and function
+// lookup delegated to the dynamic linker pushes a frame onto
+// context.callStack. Stacks are copied, never mutated, so parallel branches
+// each see their own path.
+//
+// Re-entering a run or a lookup that is already on the stack is a cycle:
+// it would never finish. Operations may recurse, bounded by the maximum
+// depth (RLANG_MAX_CALL_DEPTH, default 64). Either way the error carries the
+// path that led to it instead of the process hanging or overflowing.
+
+import { RLangContext } from "../schema/types";
+import { ExecutionError } from "./execution-control";
+
+export const DEFAULT_MAX_CALL_DEPTH = 64;
+
+export interface CallFrame {
+  kind: "run" | "operation" | "resolve";
+  name: string; // "r/agents/foo.r:default", "greet", "rocketchat.sendMessage"
+}
+
+export class CallStackError extends ExecutionError {
+  constructor(
+    code: "CALL_CYCLE" | "CALL_DEPTH_EXCEEDED",
+    message: string,
+    public readonly path: CallFrame[],
+  ) {
+    super(code, message);
+    this.name = "CallStackError";
+  }
+}
+
+export function getMaxCallDepth(): number {
+  const configured = Number(process.env.RLANG_MAX_CALL_DEPTH);
+  return Number.isInteger(configured) && configured > 0
+    ? configured
+    : DEFAULT_MAX_CALL_DEPTH;
+}
+
+/**
+ * The stack of `context` with `frame` pushed. Throws CallStackError if the
+ * frame re-enters a run or lookup already in progress, or if the stack
+ * would grow past the maximum depth.
+ */
+export function enterFrame(
+  context: Partial<RLangContext> | undefined,
+  frame: CallFrame,
+): CallFrame[] {
+  const stack = context?.callStack ?? [];
+
+  if (frame.kind !== "operation") {
+    const start = stack.findIndex(
+      (entry) => entry.kind === frame.kind && entry.name === frame.name,
+    );
+    if (start !== -1) {
+      const cycle = [...stack.slice(start), frame];
+      throw new CallStackError(
+        "CALL_CYCLE",
+        `Call cycle: ${formatCallPath(cycle)}`,
+        cycle,
+      );
+    }
+  }
+
+  const maxDepth = getMaxCallDepth();
+  if (stack.length >= maxDepth) {
+    const path = [...stack, frame];
+    const cycle = findRepeatingCycle(path);
+    throw new CallStackError(
+      "CALL_DEPTH_EXCEEDED",
+      `Call depth exceeded ${maxDepth}` +
+        (cycle
+          ? `, repeating: ${formatCallPath(cycle)}`
+          : `: ${formatCallPath(path.slice(-10))}`),
+      path,
+    );
+  }
+
+  return [...stack, frame];
+}
+
+/**
+ * Whether a function lookup is already being delegated further up the
+ * stack, i.e. the caller is the dynamic linker resolving its own steps.
+ */
+export function isResolving(context: Partial<RLangContext> | undefined): boolean {
+  return (context?.callStack ?? []).some((frame) => frame.kind === "resolve");
+}
+
+export function formatCallPath(path: CallFrame[]): string {
+  return path.map((frame) => `${frame.kind} ${frame.name}`).join(" → ");
+}
+
+// The path from the closest earlier occurrence of the top frame, e.g.
+// [x, a, b, a, b, a] -> [a, b, a]; null if the top frame has not recurred
+function findRepeatingCycle(path: CallFrame[]): CallFrame[] | null {
+  const key = (frame: CallFrame) => `${frame.kind} ${frame.name}`;
+  const top = key(path[path.length - 1]);
+  for (let length = 1; length <= path.length / 2; length++) {
+    const start = path.length - 1 - length;
+    if (key(path[start]) === top) {
+      return path.slice(start);
+    }
+  }
+  return null;
+}
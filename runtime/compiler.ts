@@ -0,0 +1,227 @@
+// runtime/compiler.ts
+// Ahead-of-time compilation of .r files into cached, validated modules
+//
+// `rlang compile` parses a file and everything it imports or inherits from,
+// validates it and pre-parses its expressions. Each file is written to
+// .rlang-cache/<sha256>.json, keyed by the hash of its path and content, so
+// a compiled module is only ever used for exactly the source it came from.
+// The loader picks compiled modules up automatically and skips YAML parsing,
+// validation and (when the module passed the linter) strict-mode linting.
+
+import { createHash } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { join, resolve } from "path";
+import { RLangFile } from "../schema/types";
+import {
+  ExpressionNode,
+  findTemplates,
+  parseExpression,
+  primeExpressionCache,
+} from "./expression";
+import { parseImports, resolveImportPath } from "./imports";
+import { getInheritanceSources } from "./inheritance";
+import {
+  SourcePositions,
+  attachSourcePositions,
+  parseWithPositions,
+  registerSource,
+} from "./source-map";
+
+// Bump when the layout of CompiledModule or of parsed files changes
+const COMPILED_FORMAT = 1;
+
+export interface CompiledModule {
+  format: number;
+  file: string;
+  hash: string;
+  compiledAt: string;
+  linted: boolean; // No lint errors at compile time
+  data: RLangFile; // Parsed file, before imports and inheritance are linked
+  positions: SourcePositions;
+  expressions: Record<string, ExpressionNode>;
+}
+
+export interface CompileResult {
+  file: string;
+  hash: string;
+  cachePath: string;
+  linted: boolean;
+  expressions: number;
+  upToDate: boolean;
+}
+
+// Step fields whose whole string is evaluated as an expression
+const CONDITION_KEYS = new Set(["if", "condition", "while", "break", "continue"]);
+
+export function getCacheDir(): string {
+  return process.env.RLANG_CACHE_DIR || ".rlang-cache";
+}
+
+export function hashSource(filePath: string, source: string): string {
+  return createHash("sha256")
+    .update(`${COMPILED_FORMAT}\0${resolve(filePath)}\0${source}`)
+    .digest("hex");
+}
+
+/**
+ * Compile `filePath` and every file it imports or inherits from. Files
+ * whose compiled module is already cached are left alone unless `force`.
+ */
+export async function compileRFile(
+  filePath: string,
+  options: { force?: boolean } = {},
+): Promise<CompileResult[]> {
+  const results: CompileResult[] = [];
+  const seen = new Set<string>();
+
+  const visit = async (path: string) => {
+    if (seen.has(path)) return;
+    seen.add(path);
+
+    const source = await readFile(path, "utf-8");
+    const hash = hashSource(path, source);
+    const cachePath = join(getCacheDir(), `${hash}.json`);
+
+    let compiled = options.force ? null : await readCachedModule(cachePath);
+    const upToDate = compiled !== null;
+    if (!compiled) {
+      compiled = await buildModule(path, source, hash);
+      await writeAtomically(cachePath, JSON.stringify(compiled));
+    }
+
+    results.push({
+      file: path,
+      hash,
+      cachePath,
+      linted: compiled.linted,
+      expressions: Object.keys(compiled.expressions).length,
+      upToDate,
+    });
+
+    for (const dependency of getDependencies(compiled.data)) {
+      const resolved = await resolveImportPath(dependency, path);
+      if (!resolved) {
+        throw new Error(`${path}: '${dependency}' not found`);
+      }
+      await visit(resolved);
+    }
+  };
+
+  await visit(filePath);
+  return results;
+}
+
+/**
+ * The compiled module for `source`, ready to link, or null if it has not
+ * been compiled. Registers its source positions and pre-parsed expressions.
+ */
+export async function loadCompiledModule(
+  filePath: string,
+  source: string,
+): Promise<CompiledModule | null> {
+  const cachePath = join(getCacheDir(), `${hashSource(filePath, source)}.json`);
+  const compiled = await readCachedModule(cachePath);
+  if (!compiled) return null;
+
+  registerSource(filePath, source);
+  attachSourcePositions(compiled.data, compiled.positions);
+  primeExpressionCache(compiled.expressions);
+  return compiled;
+}
+
+async function readCachedModule(
+  cachePath: string,
+): Promise<CompiledModule | null> {
+  try {
+    const compiled = JSON.parse(await readFile(cachePath, "utf-8"));
+    return compiled?.format === COMPILED_FORMAT ? compiled : null;
+  } catch {
+    return null; // Not compiled (or unreadable - recompiling fixes it)
+  }
+}
+
+async function buildModule(
+  filePath: string,
+  source: string,
+  hash: string,
+): Promise<CompiledModule> {
+  const { validateRLangFile } = await import("./loader");
+  const { lintRLangFile } = await import("./linter");
+
+  let data: any;
+  let positions: SourcePositions = {};
+  if (filePath.endsWith(".json")) {
+    data = JSON.parse(source);
+  } else {
+    const parsed = parseWithPositions(source, filePath);
+    if (parsed.errors.length > 0) {
+      const [first] = parsed.errors;
+      throw new Error(
+        `Invalid RLang format in ${filePath}:${first.line}:${first.column}: ${first.message}`,
+      );
+    }
+    data = parsed.data;
+    positions = parsed.positions;
+  }
+
+  validateRLangFile(data, filePath);
+  // Shape errors in these sections would otherwise only show up when linking
+  parseImports(data);
+  getInheritanceSources(data);
+
+  const lint = await lintRLangFile(filePath);
+  return {
+    format: COMPILED_FORMAT,
+    file: filePath,
+    hash,
+    compiledAt: new Date().toISOString(),
+    linted: lint.errorCount === 0,
+    data,
+    positions,
+    expressions: collectExpressions(data),
+  };
+}
+
+function getDependencies(data: RLangFile): string[] {
+  return [
+    ...parseImports(data).map((spec) => spec.file),
+    ...getInheritanceSources(data),
+  ];
+}
+
+// Every ${...} expression and condition string that parses; the rest are
+// left to fail (or be kept as text) at runtime as before
+function collectExpressions(data: any): Record<string, ExpressionNode> {
+  const expressions = new Map<string, ExpressionNode>();
+  const add = (source: string) => {
+    if (expressions.has(source)) return;
+    try {
+      expressions.set(source, parseExpression(source));
+    } catch {
+      // Not an expression
+    }
+  };
+
+  const visit = (value: any, key?: string) => {
+    if (typeof value === "string") {
+      if (key && CONDITION_KEYS.has(key)) add(value);
+      if (value.includes("${")) {
+        findTemplates(value).forEach((template) => add(template.expression));
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach((item) => visit(item));
+    } else if (value && typeof value === "object") {
+      Object.entries(value).forEach(([childKey, child]) => visit(child, childKey));
+    }
+  };
+  visit(data);
+  return Object.fromEntries(expressions);
+}
+
+// Write to a temporary file first so readers never see a partial module
+async function writeAtomically(path: string, content: string): Promise<void> {
+  await mkdir(getCacheDir(), { recursive: true });
+  const temporary = `${path}.${process.pid}.tmp`;
+  await writeFile(temporary, content, "utf-8");
+  await rename(temporary, path);
+}
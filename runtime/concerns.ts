@@ -0,0 +1,373 @@
+// runtime/concerns.ts
+// Concern scheduler: fires the `concern` blocks of loaded .r files
+//
+//   concern:
+//     if: "${error_rate > 0.1 || response_time > 5000}"
+//     priority: 1 # Lower fires first
+//     cooldown_ms: 600000 # Default 5 minutes
+//     action:
+//       - run: ["r/main-system.r", "heal_system"]
+//
+// Every interval (RLANG_CONCERN_INTERVAL_MS, default 1 minute), and shortly
+// after a run fails or a file with a concern is reloaded, each file in the
+// loader cache has its `concern.if` evaluated against the current system
+// state. Concerns that hold run their `action` steps, as "system", one at a
+// time in priority order. A concern fires once per agent (self.id) however
+// many paths its file was loaded under, and not again until its cooldown
+// has passed. Evaluations never overlap: events during one are folded into
+// a single evaluation after it.
+//
+// The system state is the memory the condition and action see. It has the
+// run statistics of this process (below) plus whatever the providers added
+// with registerConcernState return. Names nothing provides are undefined,
+// so conditions on them are false.
+
+import { getLoadedFiles, onReload } from "./loader";
+import { createContext } from "./context";
+import { evaluateCondition } from "./condition-evaluator";
+import { getUnresolvedMode } from "./resolver";
+import { executeSteps } from "./step-executor";
+import { enterFrame } from "./call-stack";
+import { startExecution, whileRunning } from "./execution-control";
+import { RLangContext, RLangFile } from "../schema/types";
+
+export const DEFAULT_CONCERN_INTERVAL_MS = 60 * 1000;
+export const DEFAULT_CONCERN_COOLDOWN_MS = 5 * 60 * 1000;
+
+// Actions that take longer are stopped with EXECUTION_TIMEOUT
+const CONCERN_TIMEOUT_MS = 2 * 60 * 1000;
+// Failures and reloads come in bursts; evaluate once they settle
+const EVENT_DELAY_MS = 1000;
+// Run statistics cover this much recent history
+const STATS_WINDOW_MS = 5 * 60 * 1000;
+const MAX_RECENT_FIRINGS = 50;
+
+export type ConcernTrigger = "interval" | "run_failed" | "reload" | "manual";
+
+export interface ConcernState {
+  agentId: string;
+  file: string;
+  priority: number;
+  running: boolean;
+  fireCount: number;
+  lastCheckedAt?: string;
+  lastFiredAt?: string;
+  coolingDownUntil?: string;
+  lastError?: string; // Of the last firing, if it failed
+}
+
+export interface ConcernFiring {
+  agentId: string;
+  file: string;
+  priority: number;
+  trigger: ConcernTrigger;
+  firedAt: string;
+  durationMs: number;
+  success: boolean;
+  error?: string;
+}
+
+type StateProvider = () => Record<string, any> | Promise<Record<string, any>>;
+
+const providers = new Map<string, StateProvider>();
+const concerns = new Map<string, ConcernState>();
+const recentFirings: ConcernFiring[] = [];
+const runs: Array<{
+  finishedAt: number;
+  durationMs: number;
+  success: boolean;
+}> = [];
+
+let scheduler: {
+  intervalMs: number;
+  timer: NodeJS.Timeout;
+  unsubscribe: () => void;
+} | null = null;
+let pendingEvent: { trigger: ConcernTrigger; timer: NodeJS.Timeout } | null =
+  null;
+let evaluating: Promise<void> | null = null;
+let evaluateAgain: ConcernTrigger | null = null;
+let lastEvaluation: { at: string; trigger: ConcernTrigger } | null = null;
+
+/**
+ * Add to the system state concerns are evaluated against. Providers run
+ * before every evaluation; one that throws is skipped.
+ */
+export function registerConcernState(
+  name: string,
+  provider: StateProvider,
+): void {
+  providers.set(name, provider);
+}
+
+/**
+ * Start evaluating concerns every `intervalMs` and after failed runs and
+ * reloads. Returns a function that stops the scheduler.
+ */
+export function startConcernScheduler(
+  options: { intervalMs?: number } = {},
+): () => void {
+  stopConcernScheduler();
+
+  const intervalMs = options.intervalMs ?? getConcernInterval();
+  const timer = setInterval(() => {
+    evaluateConcerns("interval").catch((error) =>
+      console.warn("⚠️ Concern evaluation failed:", error),
+    );
+  }, intervalMs);
+  timer.unref();
+
+  const unsubscribe = onReload(({ current }) => {
+    if (current.concern) requestEvaluation("reload");
+  });
+  scheduler = { intervalMs, timer, unsubscribe };
+  return stopConcernScheduler;
+}
+
+export function stopConcernScheduler(): void {
+  if (!scheduler) return;
+  clearInterval(scheduler.timer);
+  scheduler.unsubscribe();
+  scheduler = null;
+  if (pendingEvent) clearTimeout(pendingEvent.timer);
+  pendingEvent = null;
+}
+
+/**
+ * Record a finished run for the run statistics. Failures trigger an
+ * evaluation while the scheduler is running.
+ */
+export function noteRunFinished(durationMs: number, success: boolean): void {
+  const now = Date.now();
+  runs.push({ finishedAt: now, durationMs, success });
+  while (runs.length > 0 && runs[0].finishedAt < now - STATS_WINDOW_MS) {
+    runs.shift();
+  }
+  if (!success && scheduler) requestEvaluation("run_failed");
+}
+
+/**
+ * Evaluate the concerns of all loaded files now and fire those that hold.
+ */
+export async function evaluateConcerns(
+  trigger: ConcernTrigger = "manual",
+): Promise<void> {
+  if (evaluating) {
+    evaluateAgain = trigger;
+    return evaluating;
+  }
+
+  evaluating = runEvaluation(trigger);
+  try {
+    await evaluating;
+  } finally {
+    evaluating = null;
+  }
+
+  if (evaluateAgain) {
+    const next = evaluateAgain;
+    evaluateAgain = null;
+    await evaluateConcerns(next);
+  }
+}
+
+/**
+ * What the scheduler is doing and which concerns fired, for the health
+ * endpoints.
+ */
+export function getConcernStatus() {
+  return {
+    scheduler: scheduler ? "running" : "stopped",
+    intervalMs: scheduler?.intervalMs,
+    lastEvaluation,
+    concerns: Array.from(concerns.values()).sort(byPriority),
+    recentFirings: [...recentFirings],
+  };
+}
+
+/**
+ * Statistics of the runs that finished in the last 5 minutes, part of the
+ * system state.
+ */
+export function getRunStats() {
+  const recent = runs.filter(
+    (run) => run.finishedAt >= Date.now() - STATS_WINDOW_MS,
+  );
+  const failed = recent.filter((run) => !run.success).length;
+  const totalMs = recent.reduce((sum, run) => sum + run.durationMs, 0);
+  return {
+    runs_total: recent.length,
+    runs_failed: failed,
+    error_rate: recent.length > 0 ? failed / recent.length : 0,
+    response_time: recent.length > 0 ? totalMs / recent.length : 0,
+  };
+}
+
+function requestEvaluation(trigger: ConcernTrigger): void {
+  if (pendingEvent) return;
+  const timer = setTimeout(() => {
+    pendingEvent = null;
+    evaluateConcerns(trigger).catch((error) =>
+      console.warn("⚠️ Concern evaluation failed:", error),
+    );
+  }, EVENT_DELAY_MS);
+  timer.unref();
+  pendingEvent = { trigger, timer };
+}
+
+async function runEvaluation(trigger: ConcernTrigger): Promise<void> {
+  const now = new Date().toISOString();
+  lastEvaluation = { at: now, trigger };
+  const state = await getSystemState();
+
+  // One concern per agent, in priority order
+  const candidates = new Map<string, { file: string; rData: RLangFile }>();
+  for (const { file, content } of getLoadedFiles()) {
+    if (!content.concern) continue;
+    const agentId = content.self?.id ?? file;
+    if (!candidates.has(agentId)) {
+      candidates.set(agentId, { file, rData: content });
+    }
+  }
+  const ordered = Array.from(candidates.entries()).sort(
+    ([, a], [, b]) => a.rData.concern!.priority - b.rData.concern!.priority,
+  );
+
+  for (const [agentId, { file, rData }] of ordered) {
+    const concern = rData.concern!;
+    const status = getStatus(agentId, file, concern.priority);
+    status.lastCheckedAt = now;
+    if (
+      status.coolingDownUntil &&
+      new Date(status.coolingDownUntil).getTime() > Date.now()
+    ) {
+      continue;
+    }
+
+    const context = createContext({
+      agentId,
+      operation: "concern",
+      role: "system",
+      memory: { ...state },
+    });
+    context.unresolved = getUnresolvedMode(rData);
+
+    let holds: boolean;
+    try {
+      holds = evaluateCondition(concern.if, context);
+    } catch (error) {
+      console.warn(
+        `⚠️ Concern of ${agentId} could not be evaluated:`,
+        error instanceof Error ? error.message : error,
+      );
+      continue;
+    }
+    if (holds) await fire(status, rData, context, trigger);
+  }
+}
+
+async function fire(
+  status: ConcernState,
+  rData: RLangFile,
+  context: RLangContext,
+  trigger: ConcernTrigger,
+): Promise<void> {
+  const concern = rData.concern!;
+  const startedAt = Date.now();
+  status.running = true;
+  status.fireCount++;
+  status.lastFiredAt = new Date(startedAt).toISOString();
+  console.log(`🚨 Concern of ${status.agentId} fired (${trigger})`);
+
+  let error: unknown;
+  const execution = startExecution({ timeoutMs: CONCERN_TIMEOUT_MS });
+  try {
+    context.control = execution.control;
+    context.callStack = enterFrame(undefined, {
+      kind: "run",
+      name: `${status.file}:concern`,
+    });
+    await whileRunning(
+      execution.control,
+      executeSteps(concern.action, context, rData),
+    );
+  } catch (caught) {
+    error = caught;
+  } finally {
+    execution.dispose();
+  }
+
+  const cooldownMs = concern.cooldown_ms ?? DEFAULT_CONCERN_COOLDOWN_MS;
+  status.running = false;
+  status.coolingDownUntil = new Date(Date.now() + cooldownMs).toISOString();
+  status.lastError = error
+    ? error instanceof Error
+      ? error.message
+      : String(error)
+    : undefined;
+  if (error) {
+    console.warn(
+      `⚠️ Concern action of ${status.agentId} failed:`,
+      status.lastError,
+    );
+  }
+
+  recentFirings.unshift({
+    agentId: status.agentId,
+    file: status.file,
+    priority: status.priority,
+    trigger,
+    firedAt: status.lastFiredAt,
+    durationMs: Date.now() - startedAt,
+    success: !error,
+    ...(status.lastError !== undefined && { error: status.lastError }),
+  });
+  recentFirings.splice(MAX_RECENT_FIRINGS);
+}
+
+async function getSystemState(): Promise<Record<string, any>> {
+  const state: Record<string, any> = { ...getRunStats() };
+  for (const [name, provider] of providers) {
+    try {
+      Object.assign(state, await provider());
+    } catch (error) {
+      console.warn(
+        `⚠️ Concern state provider '${name}' failed:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+  return state;
+}
+
+function getStatus(
+  agentId: string,
+  file: string,
+  priority: number,
+): ConcernState {
+  let status = concerns.get(agentId);
+  if (!status) {
+    status = { agentId, file, priority, running: false, fireCount: 0 };
+    concerns.set(agentId, status);
+  }
+  // A reload may have moved or re-prioritized it
+  status.file = file;
+  status.priority = priority;
+  return status;
+}
+
+function getConcernInterval(): number {
+  const configured = process.env.RLANG_CONCERN_INTERVAL_MS;
+  if (configured === undefined) return DEFAULT_CONCERN_INTERVAL_MS;
+  const intervalMs = Number(configured);
+  if (!Number.isFinite(intervalMs) || intervalMs <= 0) {
+    throw new Error(
+      `Invalid RLANG_CONCERN_INTERVAL_MS '${configured}' (expected milliseconds)`,
+    );
+  }
+  return intervalMs;
+}
+
+function byPriority(a: ConcernState, b: ConcernState): number {
+  return a.priority - b.priority || a.agentId.localeCompare(b.agentId);
+}
@@ -10,6 +10,7 @@ export interface CreateContextOptions {
   operation?: string;
   input?: any;
   user?: string;
+  role?: string; // See runtime/policy.ts
   channel?: string;
   memory?: Record<string, any>;
   trace?: TraceEntry[];
@@ -240,6 +241,7 @@ export function createSystemContext(
   return createContext({
     agentId: "rol3-main-system",
     user: "system",
+    role: "system",
     clientId: clientId || "system",
     operation,
     input: {
@@ -295,6 +297,7 @@ export function createRocketChatContext(
     agentId,
     operation,
     user: rocketChatData.userId,
+    role: "chat", // A user, plus the agents whose aam.allow_roles grant "chat"
     channel: rocketChatData.channel,
     input: {
       type: rocketChatData.button ? "button_response" : "message",
@@ -579,7 +582,7 @@ export function deserializeContext(serialized: string): RLangContext {
 }
 
 // Generate unique execution ID
-function generateExecutionId(): string {
+export function generateExecutionId(): string {
   const timestamp = Date.now().toString(36);
   const randomPart = Math.random().toString(36).substring(2, 8);
   return `exec_${timestamp}_${randomPart}`;
@@ -0,0 +1,141 @@
+// runtime/cron.ts
+// Cron expressions for `schedule:` sections (runtime/scheduler.ts)
+//
+//   "*/15 * * * *"   every 15 minutes
+//   "0 2 * * 1-5"    02:00 on weekdays
+//   "@daily"         same as "0 0 * * *"
+//
+// Five fields: minute, hour, day of month, month and day of week (0-7, 0
+// and 7 are Sunday). Each is `*`, a number, a range `a-b`, a step `*/n` or
+// `a-b/n`, or a comma-separated list of those. As in classic cron, a day
+// matches if either day field matches when both are restricted. Times are
+// UTC.
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean; // Day of month is `*`
+  anyWeekday: boolean; // Day of week is `*`
+}
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+};
+
+const FIELDS: Array<{ name: string; min: number; max: number }> = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+// Give up looking for a match this far ahead ("0 0 30 2 *" never matches)
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a cron expression. Throws with the offending field if it is
+ * invalid.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = (MACROS[expression.trim()] ?? expression).trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Invalid cron expression '${expression}': expected 5 fields, got ${fields.length}`,
+    );
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) =>
+    parseField(field, FIELDS[i], expression),
+  );
+  // 7 is Sunday too
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] === "*",
+    anyWeekday: fields[4] === "*",
+  };
+}
+
+/**
+ * The first time after `after` that matches `schedule`, to the minute.
+ */
+export function getNextCronTime(schedule: CronSchedule, after: Date): Date {
+  const time = new Date(after.getTime());
+  time.setUTCSeconds(0, 0);
+  time.setUTCMinutes(time.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + MAX_SEARCH_MS;
+  while (time.getTime() <= limit) {
+    if (!schedule.months.has(time.getUTCMonth() + 1)) {
+      time.setUTCMonth(time.getUTCMonth() + 1, 1);
+      time.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, time)) {
+      time.setUTCDate(time.getUTCDate() + 1);
+      time.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1);
+    } else {
+      return time;
+    }
+  }
+  throw new Error("Cron expression never matches");
+}
+
+function matchesDay(schedule: CronSchedule, time: Date): boolean {
+  const day = schedule.days.has(time.getUTCDate());
+  const weekday = schedule.weekdays.has(time.getUTCDay());
+  if (schedule.anyDay) return weekday;
+  if (schedule.anyWeekday) return day;
+  return day || weekday;
+}
+
+function parseField(
+  field: string,
+  range: { name: string; min: number; max: number },
+  expression: string,
+): Set<number> {
+  const values = new Set<number>();
+  const invalid = () =>
+    new Error(
+      `Invalid cron expression '${expression}': bad ${range.name} '${field}'`,
+    );
+
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) throw invalid();
+
+    const step = match[4] !== undefined ? Number(match[4]) : 1;
+    let start = range.min;
+    let end = range.max;
+    if (match[1] !== "*") {
+      start = Number(match[2]);
+      // "5/15" means from 5 to the end in steps of 15
+      end =
+        match[3] !== undefined
+          ? Number(match[3])
+          : match[4] !== undefined
+            ? range.max
+            : start;
+    }
+    if (step < 1 || start < range.min || end > range.max || start > end) {
+      throw invalid();
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return values;
+}
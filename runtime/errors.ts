@@ -0,0 +1,174 @@
+// runtime/errors.ts
+// Structured errors: a code, category, step path, cause chain and whether
+// retrying can help
+//
+// Failures carry an ErrorInfo in RLangResult.errorInfo, in failed trace
+// entries and in agent_logs, so callers and the debug tooling can group and
+// react to them by code instead of matching message text.
+
+import { LoopAbortError } from "./loop-control";
+import { SignatureError } from "./signatures";
+import { formatLocation, getErrorLocation } from "./source-map";
+
+export const ERROR_CATEGORIES = {
+  // Loading .r files (runtime/loader.ts)
+  FILE_NOT_FOUND: "load",
+  FILE_READ_ERROR: "load",
+  PARSE_ERROR: "load",
+  INVALID_FILE: "load",
+  IMPORT_CYCLE: "load",
+  LINT_FAILED: "load",
+  LOAD_FAILED: "load",
+  // Operation signatures (runtime/signatures.ts)
+  INVALID_INPUT: "validation",
+  INVALID_OUTPUT: "validation",
+  // Finding what a step refers to
+  OPERATION_NOT_FOUND: "resolution",
+  FUNCTION_NOT_FOUND: "resolution",
+  // Module functions (utils/*)
+  MODULE_ERROR: "module",
+  NETWORK_ERROR: "module",
+  // Steps themselves
+  STEP_FAILED: "execution",
+  LOOP_ABORTED: "execution",
+  PARALLEL_FAILED: "execution", // Parallel branches or concurrent loop items
+  // Runs stopped from outside the failing step (runtime/execution-control.ts)
+  EXECUTION_ABORTED: "control",
+  EXECUTION_TIMEOUT: "control",
+  BUDGET_MAX_STEPS: "control",
+  BUDGET_MAX_DEPTH: "control",
+  BUDGET_MAX_LLM_CALLS: "control",
+  CALL_CYCLE: "control",
+  CALL_DEPTH_EXCEEDED: "control",
+  EXECUTION_SUSPENDED: "control", // Waiting for a prompt.user answer
+  // Durable executions (runtime/journal.ts)
+  EXECUTION_NOT_FOUND: "journal",
+  EXECUTION_LOCKED: "journal", // Another process is running it
+  JOURNAL_ERROR: "journal",
+  PROMPT_NOT_FOUND: "journal",
+  RESUME_FAILED: "journal",
+  // Access policy (runtime/policy.ts)
+  ACCESS_DENIED: "policy",
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_CATEGORIES;
+export type ErrorCategory = (typeof ERROR_CATEGORIES)[ErrorCode];
+
+export interface ErrorInfo {
+  code: ErrorCode;
+  category: ErrorCategory;
+  message: string;
+  stepPath?: string[]; // Operation and step keys from the outermost step down
+  location?: string; // "r/agents/foo.r:123:7"
+  retryable: boolean;
+  cause?: ErrorInfo;
+}
+
+export class RLangError extends Error {
+  readonly category: ErrorCategory;
+  readonly retryable: boolean;
+
+  constructor(
+    public readonly code: ErrorCode,
+    message: string,
+    options: { cause?: unknown; retryable?: boolean } = {},
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "RLangError";
+    this.category = ERROR_CATEGORIES[code];
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+// System error codes of failures that may well succeed on a second try
+const TRANSIENT_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+  "ENOTFOUND",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+// Causes deeper than this are dropped from ErrorInfo
+const MAX_CAUSE_DEPTH = 5;
+
+export function isRLangError(error: unknown): error is RLangError {
+  return error instanceof RLangError;
+}
+
+/**
+ * Prepend a step (or operation) name to the step path of `error`, as it
+ * propagates out of nested step lists.
+ */
+export function addStepFrame(error: unknown, name: string): void {
+  if (!error || typeof error !== "object") return;
+  Object.defineProperty(error, "rlangStepPath", {
+    value: [name, ...getStepPath(error)],
+    enumerable: false,
+    configurable: true,
+  });
+}
+
+export function getStepPath(error: unknown): string[] {
+  return (error as any)?.rlangStepPath ?? [];
+}
+
+/**
+ * Describe any thrown value as an ErrorInfo. Errors that are not
+ * RLangErrors are classified by their type: signature, loop and system
+ * (network) errors get their own codes, everything else is STEP_FAILED.
+ * System errors count anywhere in the cause chain.
+ */
+export function toErrorInfo(error: unknown, depth = 0): ErrorInfo {
+  const err = error instanceof Error ? error : new Error(String(error));
+  const code = classify(err);
+  const stepPath = getStepPath(err);
+  const location = getErrorLocation(err);
+  const info: ErrorInfo = {
+    code,
+    category: ERROR_CATEGORIES[code],
+    message: err.message,
+    ...(stepPath.length > 0 && { stepPath }),
+    ...(location && { location: formatLocation(location) }),
+    retryable: isRetryable(err, code),
+  };
+
+  if (err.cause !== undefined && depth < MAX_CAUSE_DEPTH) {
+    info.cause = toErrorInfo(err.cause, depth + 1);
+  }
+  return info;
+}
+
+function classify(error: Error): ErrorCode {
+  if (isRLangError(error)) return error.code;
+  if (error instanceof SignatureError) {
+    return error.phase === "output" ? "INVALID_OUTPUT" : "INVALID_INPUT";
+  }
+  if (error instanceof LoopAbortError) return "LOOP_ABORTED";
+  // Module functions wrap the system error in their own: look through them
+  if (hasCause(error, (cause) => TRANSIENT_CODES.has(cause?.code))) {
+    return "NETWORK_ERROR";
+  }
+  return "STEP_FAILED";
+}
+
+function isRetryable(error: Error, code: ErrorCode): boolean {
+  if (isRLangError(error)) return error.retryable;
+  if (code === "NETWORK_ERROR") return true;
+  return hasCause(error, (cause) => {
+    const status = Number(cause?.status ?? cause?.statusCode);
+    return status === 429 || status >= 500;
+  });
+}
+
+// Whether `error` or one of its causes matches
+function hasCause(error: unknown, matches: (cause: any) => boolean): boolean {
+  let cause: any = error;
+  for (let depth = 0; cause && depth <= MAX_CAUSE_DEPTH; depth++) {
+    if (matches(cause)) return true;
+    cause = cause.cause;
+  }
+  return false;
+}
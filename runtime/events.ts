@@ -0,0 +1,637 @@
+// runtime/events.ts
+// Event bus: agents publish with `emit:` steps and subscribe with `on:`
+//
+//   - emit: { topic: "ticket.created", data: { id: "${ticket.id}" } }
+//
+//   on:
+//     "ticket.*": handle_ticket # `*` is one topic segment
+//     "signal.#": # `#` is any number of segments, none included
+//       operation: process_signal
+//       max_attempts: 10 # Default 5
+//
+// Emitting writes the event and one delivery per subscribed agent (self.id,
+// among the .r files under r/, whether or not they have run yet) to an
+// outbox: Postgres
+// (migrations/010_events.sql) when DATABASE_URL is set, otherwise memory,
+// which a restart loses. The dispatcher delivers right after the emit and
+// polls for anything left over, running up to MAX_CONCURRENT_DELIVERIES
+// handlers at a time and claiming the next due delivery as soon as one
+// finishes, so a slow handler holds up only its own slot. A delivery runs the subscriber's operation
+// with the event data as input and the event itself in memory as `event`
+// (id, topic, trace_id, emitted_by, attempt), with the role of the run that
+// emitted it (runtime/policy.ts).
+//
+// Delivery is at least once: a failed delivery is retried with backoff until
+// it runs out of attempts, and one held by a process that died is retried
+// when its lock expires. Handlers should be idempotent, e.g. on `event.id`.
+//
+// Every event carries a trace id: that of the run that emitted it if it was
+// itself handling an event, else its execution id. Handler runs carry it on
+// in metadata.trace_id, and deliveries record the handler's execution, so
+// getEventTrace shows which runs an event led to. An event emitted while
+// handling one is one deeper; past MAX_EVENT_DEPTH the emit fails with
+// CALL_DEPTH_EXCEEDED, so handlers that set each other off don't run forever.
+
+import { randomUUID } from "crypto";
+import { findRFiles, loadRFile } from "./loader";
+import { generateExecutionId } from "./context";
+import { isValidTopic, matchesTopic } from "./topics";
+import { ExecutionError } from "./execution-control";
+import { RLangContext } from "../schema/types";
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+export const MAX_EVENT_DEPTH = 16;
+
+const POLL_MS = 5 * 1000;
+const HANDLER_TIMEOUT_MS = 5 * 60 * 1000;
+// A delivery held longer than this is taken to be abandoned
+const LOCK_MS = HANDLER_TIMEOUT_MS + 60 * 1000;
+// Wait before the 2nd, 3rd, ... attempt; the last applies after that
+const RETRY_DELAYS_MS = [5000, 30000, 2 * 60000, 10 * 60000, 30 * 60000];
+const MAX_CONCURRENT_DELIVERIES = 10;
+const DEFAULT_SUBSCRIBER_DIR = "r";
+
+export interface BusEvent {
+  id: string;
+  topic: string;
+  data: any;
+  traceId: string;
+  depth: number; // 1, or one more than the event being handled when emitted
+  sourceAgent?: string;
+  sourceExecutionId?: string;
+  role?: string;
+  createdAt: string;
+}
+
+export interface EventDelivery {
+  id: string;
+  eventId: string;
+  agentId: string;
+  file: string;
+  operation: string;
+  status: "pending" | "delivered" | "dead";
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lockedUntil?: string;
+  handlerExecutionId?: string;
+  lastError?: string;
+}
+
+export interface Subscription {
+  agentId: string;
+  file: string;
+  pattern: string;
+  operation: string;
+  maxAttempts: number;
+}
+
+// Where events and deliveries live: Postgres, or memory without a database
+interface EventStore {
+  persistent: boolean;
+  append(event: BusEvent, deliveries: EventDelivery[]): Promise<void>;
+  // Lock up to `limit` due pending deliveries and count the attempt
+  claim(
+    limit: number,
+    lockedUntil: Date,
+  ): Promise<Array<{ delivery: EventDelivery; event: BusEvent }>>;
+  finish(
+    delivery: EventDelivery,
+    update: {
+      status: EventDelivery["status"];
+      handlerExecutionId: string;
+      error?: string;
+      nextAttemptAt?: Date;
+    },
+  ): Promise<void>;
+  trace(
+    traceId: string,
+  ): Promise<Array<BusEvent & { deliveries: EventDelivery[] }>>;
+}
+
+let store: EventStore | null = null;
+let dispatcher: { timer: NodeJS.Timeout; pollMs: number } | null = null;
+let dispatching: Promise<void> | null = null;
+let dispatchAgain = false;
+let wakeDispatch: (() => void) | null = null;
+let subscriberDir = DEFAULT_SUBSCRIBER_DIR;
+const stats = { emitted: 0, delivered: 0, retried: 0, dead: 0 };
+const invalidWarned = new Set<string>();
+const unloadableWarned = new Set<string>();
+
+/**
+ * Publish an event from the run of `context`. Returns the event and how many
+ * agents it will be delivered to.
+ */
+export async function emitEvent(
+  topic: string,
+  data: any,
+  context?: RLangContext,
+): Promise<{ event: BusEvent; deliveries: number }> {
+  if (!isValidTopic(topic, false)) {
+    throw new Error(
+      `Invalid event topic '${topic}' (expected dot-separated names like "ticket.created")`,
+    );
+  }
+
+  const metadata = context?.metadata ?? {};
+  const depth = (metadata.event_depth ?? 0) + 1;
+  if (depth > MAX_EVENT_DEPTH) {
+    throw new ExecutionError(
+      "CALL_DEPTH_EXCEEDED",
+      `Event chain deeper than ${MAX_EVENT_DEPTH}: ${topic} emitted while handling trace ${metadata.trace_id}`,
+    );
+  }
+  const sourceExecutionId =
+    context?.journal?.executionId ?? metadata.execution_id;
+  const event: BusEvent = {
+    id: `evt_${randomUUID()}`,
+    topic,
+    data: data ?? {},
+    traceId: metadata.trace_id ?? sourceExecutionId ?? generateExecutionId(),
+    depth,
+    sourceAgent: context?.agentId,
+    sourceExecutionId,
+    role: context?.role,
+    createdAt: new Date().toISOString(),
+  };
+  const deliveries = (await getSubscriptions())
+    .filter((subscription) => matchesTopic(subscription.pattern, topic))
+    .map((subscription) => ({
+      id: `dlv_${randomUUID()}`,
+      eventId: event.id,
+      agentId: subscription.agentId,
+      file: subscription.file,
+      operation: subscription.operation,
+      status: "pending" as const,
+      attempts: 0,
+      maxAttempts: subscription.maxAttempts,
+      nextAttemptAt: event.createdAt,
+    }));
+
+  await getStore().append(event, deliveries);
+  stats.emitted++;
+  console.log(
+    `📣 ${topic} from ${event.sourceAgent ?? "unknown"} -> ${deliveries.length} subscribers`,
+  );
+  if (deliveries.length > 0 && dispatcher) requestDispatch();
+  return { event, deliveries: deliveries.length };
+}
+
+/**
+ * Start delivering events: right after each emit and every `pollMs` for
+ * retries and deliveries left by other processes. Subscribers are the .r
+ * files under `dir` (default r/). Returns a function that stops the
+ * dispatcher; handlers in progress finish.
+ */
+export function startEventDispatcher(
+  options: { pollMs?: number; dir?: string } = {},
+): () => void {
+  stopEventDispatcher();
+  const pollMs = options.pollMs ?? POLL_MS;
+  subscriberDir = options.dir ?? DEFAULT_SUBSCRIBER_DIR;
+  const timer = setInterval(requestDispatch, pollMs);
+  timer.unref();
+  dispatcher = { timer, pollMs };
+  requestDispatch();
+  return stopEventDispatcher;
+}
+
+export function stopEventDispatcher(): void {
+  if (dispatcher) clearInterval(dispatcher.timer);
+  dispatcher = null;
+}
+
+/**
+ * Deliver the deliveries that are due now. Passes never overlap: a call
+ * during one makes it look for due deliveries again.
+ */
+export async function dispatchEvents(): Promise<void> {
+  if (dispatching) {
+    dispatchAgain = true;
+    wakeDispatch?.();
+    return dispatching;
+  }
+
+  dispatching = runDispatch();
+  try {
+    await dispatching;
+  } finally {
+    dispatching = null;
+  }
+
+  if (dispatchAgain) {
+    dispatchAgain = false;
+    await dispatchEvents();
+  }
+}
+
+/**
+ * The events of a trace, oldest first, with their deliveries.
+ */
+export async function getEventTrace(
+  traceId: string,
+): Promise<Array<BusEvent & { deliveries: EventDelivery[] }>> {
+  return getStore().trace(traceId);
+}
+
+/**
+ * What the dispatcher has done in this process, for the health endpoints.
+ */
+export async function getEventBusStatus() {
+  return {
+    dispatcher: dispatcher ? "running" : "stopped",
+    persistent: getStore().persistent,
+    subscriptions: (await getSubscriptions()).map(
+      (subscription) =>
+        `${subscription.pattern} -> ${subscription.agentId}:${subscription.operation}`,
+    ),
+    ...stats,
+  };
+}
+
+/**
+ * The `on:` subscriptions of the .r files under the subscriber directory,
+ * one per agent and pattern. Files are loaded (and cached) by the loader;
+ * those that do not load subscribe to nothing.
+ */
+export async function getSubscriptions(): Promise<Subscription[]> {
+  const subscriptions = new Map<string, Subscription>();
+  for (const { file, content } of await loadSubscriberFiles()) {
+    if (!content.on || typeof content.on !== "object") continue;
+    const agentId = content.self?.id ?? file;
+
+    for (const [pattern, handler] of Object.entries(content.on)) {
+      const operation =
+        typeof handler === "string" ? handler : handler?.operation;
+      const key = `${agentId}:${pattern}`;
+      if (!operation || subscriptions.has(key)) continue;
+      if (!isValidTopic(pattern, true)) {
+        if (!invalidWarned.has(`${file}:${pattern}`)) {
+          invalidWarned.add(`${file}:${pattern}`);
+          console.warn(`⚠️ ${file}: invalid event topic pattern '${pattern}'`);
+        }
+        continue;
+      }
+      subscriptions.set(key, {
+        agentId,
+        file,
+        pattern,
+        operation,
+        maxAttempts:
+          (typeof handler === "object" && handler.max_attempts) ||
+          DEFAULT_MAX_ATTEMPTS,
+      });
+    }
+  }
+  return Array.from(subscriptions.values());
+}
+
+async function loadSubscriberFiles() {
+  const files = (await findRFiles(subscriberDir)).sort();
+  const results = await Promise.allSettled(
+    files.map((file) => loadRFile(file)),
+  );
+  return files.flatMap((file, index) => {
+    const result = results[index];
+    if (result.status === "fulfilled") {
+      unloadableWarned.delete(file);
+      return [{ file, content: result.value }];
+    }
+    if (!unloadableWarned.has(file)) {
+      unloadableWarned.add(file);
+      console.warn(
+        `⚠️ ${file}: not loaded for event subscriptions: ${result.reason instanceof Error ? result.reason.message : result.reason}`,
+      );
+    }
+    return [];
+  });
+}
+
+function requestDispatch(): void {
+  dispatchEvents().catch((error) =>
+    console.warn(
+      "⚠️ Event dispatch failed:",
+      error instanceof Error ? error.message : error,
+    ),
+  );
+}
+
+// A pool of handler slots: claim due deliveries for the free slots, then
+// claim again whenever a handler finishes or another dispatch is asked for
+async function runDispatch(): Promise<void> {
+  const events = getStore();
+  const running = new Set<Promise<void>>();
+  for (;;) {
+    dispatchAgain = false;
+    const free = MAX_CONCURRENT_DELIVERIES - running.size;
+    if (free > 0) {
+      const claimed = await events.claim(free, new Date(Date.now() + LOCK_MS));
+      for (const { delivery, event } of claimed) {
+        const handler: Promise<void> = deliver(delivery, event).finally(() =>
+          running.delete(handler),
+        );
+        running.add(handler);
+      }
+    }
+
+    if (dispatchAgain) continue;
+    if (running.size === 0) return;
+    await new Promise<void>((resolve) => {
+      wakeDispatch = resolve;
+      running.forEach((handler) => handler.then(resolve, resolve));
+    });
+    wakeDispatch = null;
+  }
+}
+
+async function deliver(delivery: EventDelivery, event: BusEvent) {
+  const { runRLang } = await import("./interpreter");
+  const executionId = generateExecutionId();
+
+  let error: string | undefined;
+  try {
+    const result = await runRLang({
+      file: delivery.file,
+      operation: delivery.operation,
+      input: event.data,
+      timeoutMs: HANDLER_TIMEOUT_MS,
+      context: {
+        role: event.role,
+        memory: {
+          execution_id: executionId,
+          event: {
+            id: event.id,
+            topic: event.topic,
+            trace_id: event.traceId,
+            emitted_by: event.sourceAgent,
+            attempt: delivery.attempts,
+          },
+        },
+        metadata: {
+          execution_id: executionId,
+          trace_id: event.traceId,
+          event_id: event.id,
+          event_depth: event.depth,
+        },
+      },
+    });
+    if (!result.success) error = result.error;
+  } catch (caught) {
+    error = caught instanceof Error ? caught.message : String(caught);
+  }
+
+  try {
+    if (!error) {
+      stats.delivered++;
+      await getStore().finish(delivery, {
+        status: "delivered",
+        handlerExecutionId: executionId,
+      });
+    } else if (delivery.attempts >= delivery.maxAttempts) {
+      stats.dead++;
+      console.warn(
+        `💀 ${event.topic} (${event.id}) to ${delivery.agentId}:${delivery.operation} failed ${delivery.attempts} times, giving up: ${error}`,
+      );
+      await getStore().finish(delivery, {
+        status: "dead",
+        handlerExecutionId: executionId,
+        error,
+      });
+    } else {
+      stats.retried++;
+      const delayMs =
+        RETRY_DELAYS_MS[
+          Math.min(delivery.attempts - 1, RETRY_DELAYS_MS.length - 1)
+        ];
+      console.warn(
+        `⚠️ ${event.topic} (${event.id}) to ${delivery.agentId}:${delivery.operation} failed, retrying in ${delayMs}ms: ${error}`,
+      );
+      await getStore().finish(delivery, {
+        status: "pending",
+        handlerExecutionId: executionId,
+        error,
+        nextAttemptAt: new Date(Date.now() + delayMs),
+      });
+    }
+  } catch (storeError) {
+    // The lock expires and the delivery is retried
+    console.warn(
+      `⚠️ Could not record delivery ${delivery.id}:`,
+      storeError instanceof Error ? storeError.message : storeError,
+    );
+  }
+}
+
+function getStore(): EventStore {
+  if (!store) {
+    store = process.env.DATABASE_URL
+      ? createPostgresStore()
+      : createMemoryStore();
+  }
+  return store;
+}
+
+function createPostgresStore(): EventStore {
+  return {
+    persistent: true,
+    async append(event, deliveries) {
+      // One statement, so the event is never stored without its deliveries
+      await eventQuery(
+        `WITH event AS (
+           INSERT INTO rlang_events
+             (id, topic, data, trace_id, depth, source_agent, source_execution_id, caller_role, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+           RETURNING id
+         )
+         INSERT INTO rlang_event_deliveries
+           (id, event_id, agent_id, file, operation, max_attempts, next_attempt_at)
+         SELECT d.id, event.id, d.agent_id, d.file, d.operation, d.max_attempts, $9
+         FROM event, jsonb_to_recordset($10::jsonb)
+           AS d(id TEXT, agent_id TEXT, file TEXT, operation TEXT, max_attempts INTEGER)`,
+        [
+          event.id,
+          event.topic,
+          JSON.stringify(event.data),
+          event.traceId,
+          event.depth,
+          event.sourceAgent ?? null,
+          event.sourceExecutionId ?? null,
+          event.role ?? null,
+          event.createdAt,
+          JSON.stringify(
+            deliveries.map((delivery) => ({
+              id: delivery.id,
+              agent_id: delivery.agentId,
+              file: delivery.file,
+              operation: delivery.operation,
+              max_attempts: delivery.maxAttempts,
+            })),
+          ),
+        ],
+      );
+    },
+    async claim(limit, lockedUntil) {
+      const rows = await eventQuery(
+        `WITH claimed AS (
+           UPDATE rlang_event_deliveries
+           SET locked_until = $2, attempts = attempts + 1, updated_at = NOW()
+           WHERE id IN (
+             SELECT id FROM rlang_event_deliveries
+             WHERE status = 'pending' AND next_attempt_at <= NOW()
+               AND (locked_until IS NULL OR locked_until < NOW())
+             ORDER BY next_attempt_at
+             LIMIT $1
+             FOR UPDATE SKIP LOCKED
+           )
+           RETURNING *
+         )
+         SELECT claimed.*, e.topic, e.data, e.trace_id, e.depth, e.source_agent,
+           e.source_execution_id, e.caller_role, e.created_at AS emitted_at
+         FROM claimed JOIN rlang_events e ON e.id = claimed.event_id`,
+        [limit, lockedUntil.toISOString()],
+      );
+      return rows.map((row) => ({
+        delivery: toDelivery(row),
+        event: toEvent({
+          ...row,
+          id: row.event_id,
+          created_at: row.emitted_at,
+        }),
+      }));
+    },
+    async finish(delivery, update) {
+      await eventQuery(
+        `UPDATE rlang_event_deliveries
+         SET status = $2, handler_execution_id = $3, last_error = $4,
+           next_attempt_at = COALESCE($5, next_attempt_at),
+           locked_until = NULL, updated_at = NOW()
+         WHERE id = $1`,
+        [
+          delivery.id,
+          update.status,
+          update.handlerExecutionId,
+          update.error ?? null,
+          update.nextAttemptAt?.toISOString() ?? null,
+        ],
+      );
+    },
+    async trace(traceId) {
+      const events = await eventQuery(
+        `SELECT * FROM rlang_events WHERE trace_id = $1 ORDER BY created_at`,
+        [traceId],
+      );
+      const deliveries = await eventQuery(
+        `SELECT * FROM rlang_event_deliveries
+         WHERE event_id = ANY($1) ORDER BY created_at`,
+        [events.map((row) => row.id)],
+      );
+      return events.map((row) => ({
+        ...toEvent(row),
+        deliveries: deliveries
+          .filter((delivery) => delivery.event_id === row.id)
+          .map(toDelivery),
+      }));
+    },
+  };
+}
+
+function createMemoryStore(): EventStore {
+  const events = new Map<string, BusEvent>();
+  const deliveries = new Map<string, EventDelivery>();
+  return {
+    persistent: false,
+    async append(event, added) {
+      events.set(event.id, event);
+      for (const delivery of added) deliveries.set(delivery.id, delivery);
+    },
+    async claim(limit, lockedUntil) {
+      const now = Date.now();
+      const due = Array.from(deliveries.values())
+        .filter(
+          (delivery) =>
+            delivery.status === "pending" &&
+            new Date(delivery.nextAttemptAt).getTime() <= now &&
+            !(
+              delivery.lockedUntil &&
+              new Date(delivery.lockedUntil).getTime() >= now
+            ),
+        )
+        .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt))
+        .slice(0, limit);
+      return due.map((delivery) => {
+        delivery.lockedUntil = lockedUntil.toISOString();
+        delivery.attempts++;
+        return {
+          delivery: { ...delivery },
+          event: events.get(delivery.eventId)!,
+        };
+      });
+    },
+    async finish(delivery, update) {
+      const stored = deliveries.get(delivery.id);
+      if (!stored) return;
+      stored.status = update.status;
+      stored.handlerExecutionId = update.handlerExecutionId;
+      stored.lastError = update.error;
+      stored.lockedUntil = undefined;
+      if (update.nextAttemptAt) {
+        stored.nextAttemptAt = update.nextAttemptAt.toISOString();
+      }
+    },
+    async trace(traceId) {
+      return Array.from(events.values())
+        .filter((event) => event.traceId === traceId)
+        .map((event) => ({
+          ...event,
+          deliveries: Array.from(deliveries.values())
+            .filter((delivery) => delivery.eventId === event.id)
+            .map((delivery) => ({ ...delivery })),
+        }));
+    },
+  };
+}
+
+async function eventQuery(sql: string, params?: any[]): Promise<any[]> {
+  const { db } = await import("../utils/db");
+  const { data, error } = await db.query(sql, params);
+  if (error) {
+    throw new Error(
+      `Event store: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  return data ?? [];
+}
+
+function toEvent(row: any): BusEvent {
+  return {
+    id: row.id,
+    topic: row.topic,
+    data: row.data,
+    traceId: row.trace_id,
+    depth: row.depth,
+    sourceAgent: row.source_agent ?? undefined,
+    sourceExecutionId: row.source_execution_id ?? undefined,
+    role: row.caller_role ?? undefined,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+function toDelivery(row: any): EventDelivery {
+  return {
+    id: row.id,
+    eventId: row.event_id,
+    agentId: row.agent_id,
+    file: row.file,
+    operation: row.operation,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    nextAttemptAt: new Date(row.next_attempt_at).toISOString(),
+    lockedUntil: row.locked_until
+      ? new Date(row.locked_until).toISOString()
+      : undefined,
+    handlerExecutionId: row.handler_execution_id ?? undefined,
+    lastError: row.last_error ?? undefined,
+  };
+}
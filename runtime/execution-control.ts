@@ -0,0 +1,241 @@
+// runtime/execution-control.ts
+// Timeouts, cancellation and resource budgets for runRLang
+//
+//   await runRLang({
+//     file: "r/agents/foo.r",
+//     timeoutMs: 30000,
+//     signal: controller.signal,
+//     budget: { maxSteps: 500, maxDepth: 5, maxLlmCalls: 3 },
+//   });
+//
+// One ExecutionControl is created per top-level run and shared (via
+// context.control) by everything it starts: nested operations, `run:`
+// steps and module functions. Budgets therefore count across the whole
+// run, and aborting it stops every part of it at the next step.
+
+import { ERROR_CATEGORIES, ErrorCode, RLangError } from "./errors";
+
+export interface ExecutionBudget {
+  maxSteps?: number; // Steps executed, including nested operations and runs
+  maxDepth?: number; // Nesting of `run:` steps below the top-level run
+  maxLlmCalls?: number; // Calls into LLM-backed modules
+}
+
+export type ExecutionErrorCode =
+  | "EXECUTION_ABORTED"
+  | "EXECUTION_TIMEOUT"
+  | "BUDGET_MAX_STEPS"
+  | "BUDGET_MAX_DEPTH"
+  | "BUDGET_MAX_LLM_CALLS"
+  | "CALL_CYCLE" // See runtime/call-stack.ts
+  | "CALL_DEPTH_EXCEEDED"
+  | "EXECUTION_SUSPENDED"; // See runtime/human-input.ts
+
+/**
+ * A run stopped by cancellation, its timeout, one of its budgets, a call
+ * cycle (see runtime/call-stack.ts) or a waiting prompt. Like
+ * loop signals, these pass through error handlers and retries: the whole
+ * run ends.
+ */
+export class ExecutionError extends RLangError {
+  declare readonly code: ExecutionErrorCode;
+  readonly errorType = "execution_stopped";
+
+  constructor(code: ExecutionErrorCode, message: string) {
+    super(code, message, { retryable: code === "EXECUTION_TIMEOUT" });
+    this.name = "ExecutionError";
+  }
+}
+
+export interface ExecutionControl {
+  signal: AbortSignal;
+  budget: ExecutionBudget;
+  depth: number;
+  usage: { steps: number; llmCalls: number }; // Shared by nested runs
+}
+
+export interface ExecutionControlOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  budget?: ExecutionBudget;
+}
+
+// Modules whose functions call out to an LLM
+const LLM_MODULES = new Set(["llm", "infer", "claude-api", "openai-api"]);
+
+export function isExecutionError(error: unknown): error is ExecutionError {
+  return error instanceof ExecutionError;
+}
+
+export function isExecutionErrorCode(
+  code: ErrorCode | undefined,
+): code is ExecutionErrorCode {
+  return code !== undefined && ERROR_CATEGORIES[code] === "control";
+}
+
+/**
+ * Start controlling a run. Nested runs pass the control of the run that
+ * started them as `parent`: they share its usage counters and stop with it,
+ * and may only tighten its timeout and budgets. Call `dispose` when the run
+ * is over to clear its timer.
+ */
+export function startExecution(
+  options: ExecutionControlOptions,
+  parent?: ExecutionControl,
+): { control: ExecutionControl; dispose: () => void } {
+  const controller = new AbortController();
+  const cleanup: Array<() => void> = [];
+
+  const follow = (signal: AbortSignal | undefined) => {
+    if (!signal) return;
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      return;
+    }
+    const onAbort = () => controller.abort(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    cleanup.push(() => signal.removeEventListener("abort", onAbort));
+  };
+  follow(parent?.signal);
+  follow(options.signal);
+
+  if (options.timeoutMs !== undefined) {
+    const timeoutMs = Number(options.timeoutMs);
+    if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+      throw new Error("timeoutMs must be a positive number");
+    }
+    const timer = setTimeout(
+      () =>
+        controller.abort(
+          new ExecutionError(
+            "EXECUTION_TIMEOUT",
+            `Execution timed out after ${timeoutMs}ms`,
+          ),
+        ),
+      timeoutMs,
+    );
+    cleanup.push(() => clearTimeout(timer));
+  }
+
+  const budget = { ...parent?.budget };
+  for (const [key, limit] of Object.entries(options.budget ?? {})) {
+    if (limit === undefined) continue;
+    if (!Number.isInteger(limit) || limit < 0) {
+      throw new Error(`budget.${key} must be a non-negative integer`);
+    }
+    const current = budget[key as keyof ExecutionBudget];
+    budget[key as keyof ExecutionBudget] =
+      current === undefined ? limit : Math.min(current, limit);
+  }
+
+  const control: ExecutionControl = {
+    signal: controller.signal,
+    budget,
+    depth: parent ? parent.depth + 1 : 0,
+    usage: parent?.usage ?? { steps: 0, llmCalls: 0 },
+  };
+
+  if (budget.maxDepth !== undefined && control.depth > budget.maxDepth) {
+    cleanup.forEach((fn) => fn());
+    throw new ExecutionError(
+      "BUDGET_MAX_DEPTH",
+      `Run nesting exceeded budget.maxDepth (${budget.maxDepth})`,
+    );
+  }
+
+  return { control, dispose: () => cleanup.forEach((fn) => fn()) };
+}
+
+/**
+ * Throw if the run has been aborted or timed out.
+ */
+export function throwIfStopped(control: ExecutionControl | undefined): void {
+  if (!control?.signal.aborted) return;
+  throw toExecutionError(control.signal.reason);
+}
+
+/**
+ * Called before each step: checks for cancellation and counts the step
+ * against budget.maxSteps.
+ */
+export function beginStep(control: ExecutionControl | undefined): void {
+  if (!control) return;
+  throwIfStopped(control);
+
+  const { maxSteps } = control.budget;
+  if (maxSteps !== undefined && control.usage.steps >= maxSteps) {
+    throw new ExecutionError(
+      "BUDGET_MAX_STEPS",
+      `Run exceeded budget.maxSteps (${maxSteps})`,
+    );
+  }
+  control.usage.steps++;
+}
+
+/**
+ * Called before a module function runs: counts calls into LLM-backed
+ * modules against budget.maxLlmCalls.
+ */
+export function beginModuleCall(
+  control: ExecutionControl | undefined,
+  module: string,
+): void {
+  if (!control || !LLM_MODULES.has(module)) return;
+
+  const { maxLlmCalls } = control.budget;
+  if (maxLlmCalls !== undefined && control.usage.llmCalls >= maxLlmCalls) {
+    throw new ExecutionError(
+      "BUDGET_MAX_LLM_CALLS",
+      `Run exceeded budget.maxLlmCalls (${maxLlmCalls})`,
+    );
+  }
+  control.usage.llmCalls++;
+}
+
+/**
+ * Settle with `value`, or reject as soon as the run is stopped. `value` may
+ * be a plain result, e.g. from a synchronous module function. The work
+ * behind it is not interrupted unless it honours `control.signal` itself;
+ * its result is ignored. Callers should throwIfStopped before starting that
+ * work.
+ */
+export function whileRunning<T>(
+  control: ExecutionControl | undefined,
+  value: T | Promise<T>,
+): Promise<T> {
+  const promise = Promise.resolve(value);
+  if (!control) return promise;
+  if (control.signal.aborted) {
+    // Nobody awaits it any more: don't let its rejection go unhandled
+    promise.catch(() => {});
+    throwIfStopped(control);
+  }
+
+  const { signal } = control;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(toExecutionError(signal.reason));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    );
+  });
+}
+
+function toExecutionError(reason: unknown): ExecutionError {
+  if (reason instanceof ExecutionError) return reason;
+  const detail =
+    reason instanceof Error ? reason.message : reason ? String(reason) : "";
+  return new ExecutionError(
+    "EXECUTION_ABORTED",
+    detail && detail !== "This operation was aborted"
+      ? `Execution aborted: ${detail}`
+      : "Execution aborted",
+  );
+}
@@ -0,0 +1,273 @@
+// runtime/expression-functions.ts
+// Whitelisted functions callable from R-lang expressions, e.g. ${len(items) > 0},
+// and the filters available to pipes, e.g. ${name | default('n/a') | upper}
+
+export type ExpressionFunction = (...args: any[]) => any;
+
+export const EXPRESSION_FUNCTIONS: Record<string, ExpressionFunction> = {
+  // Strings and collections
+  len: (value) =>
+    value === null || value === undefined
+      ? 0
+      : typeof value === "string" || Array.isArray(value)
+        ? value.length
+        : typeof value === "object"
+          ? Object.keys(value).length
+          : 0,
+  lower: (value) => String(value ?? "").toLowerCase(),
+  upper: (value) => String(value ?? "").toUpperCase(),
+  trim: (value) => String(value ?? "").trim(),
+  contains: (haystack, needle) =>
+    Array.isArray(haystack)
+      ? haystack.includes(needle)
+      : typeof haystack === "string"
+        ? haystack.includes(String(needle))
+        : false,
+  starts_with: (value, prefix) =>
+    typeof value === "string" && value.startsWith(String(prefix)),
+  ends_with: (value, suffix) =>
+    typeof value === "string" && value.endsWith(String(suffix)),
+  join: (values, separator = ",") =>
+    Array.isArray(values) ? values.join(separator) : String(values ?? ""),
+  split: (value, separator = ",") => String(value ?? "").split(separator),
+  keys: (value) =>
+    value && typeof value === "object" ? Object.keys(value) : [],
+  values: (value) =>
+    value && typeof value === "object" ? Object.values(value) : [],
+
+  // Presence checks
+  defined: (value) => value !== undefined && value !== null,
+  empty: (value) =>
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0) ||
+    (typeof value === "object" && Object.keys(value).length === 0),
+  coalesce: (...values) =>
+    values.find((value) => value !== undefined && value !== null),
+
+  // Conversions
+  number: (value) => Number(value),
+  string: (value) =>
+    value && typeof value === "object" ? JSON.stringify(value) : String(value),
+  boolean: (value) => Boolean(value),
+  json: (value, indent) => JSON.stringify(value, null, indent),
+
+  // Arithmetic
+  round: (value, digits = 0) => roundTo(toNumber(value), digits, Math.round),
+  floor: (value, digits = 0) => roundTo(toNumber(value), digits, Math.floor),
+  ceil: (value, digits = 0) => roundTo(toNumber(value), digits, Math.ceil),
+  abs: (value) => Math.abs(toNumber(value)),
+  min: (...values) => Math.min(...numbers(values)),
+  max: (...values) => Math.max(...numbers(values)),
+  sum: (...values) => numbers(values).reduce((total, n) => total + n, 0),
+  avg: (...values) => {
+    const list = numbers(values);
+    return list.length ? list.reduce((total, n) => total + n, 0) / list.length : 0;
+  },
+  // Share of `whole` as a percentage; 0 when `whole` is 0
+  percent: (part, whole, digits = 2) => {
+    const total = toNumber(whole);
+    return total === 0
+      ? 0
+      : roundTo((toNumber(part) / total) * 100, digits, Math.round);
+  },
+  clamp: (value, low, high) =>
+    Math.min(Math.max(toNumber(value), toNumber(low)), toNumber(high)),
+
+  // Dates are ISO-8601 strings in UTC; durations are milliseconds
+  now: () => new Date().toISOString(),
+  timestamp: (value) => (value === undefined ? Date.now() : toDate(value).getTime()),
+  date: (value) => toDate(value).toISOString(),
+  format_date: (value, pattern = "YYYY-MM-DD") => formatDate(toDate(value), pattern),
+  date_add: (value, amount, unit = "d") => {
+    const date = toDate(value);
+    const months = calendarMonths(unit);
+    if (months) {
+      return addMonths(date, toNumber(amount) * months).toISOString();
+    }
+    return new Date(date.getTime() + toNumber(amount) * unitMs(unit)).toISOString();
+  },
+  // Difference a - b in `unit`: fractional for fixed units, whole calendar
+  // months/years for "month"/"year"
+  date_diff: (a, b, unit = "d") => {
+    const [end, start] = [toDate(a), toDate(b)];
+    const months = calendarMonths(unit);
+    if (!months) return (end.getTime() - start.getTime()) / unitMs(unit);
+
+    let diff =
+      (end.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+      (end.getUTCMonth() - start.getUTCMonth());
+    // Not a full month yet if the day-of-month/time has not been reached
+    const anchor = addMonths(start, diff);
+    if (diff > 0 && anchor > end) diff--;
+    if (diff < 0 && anchor < end) diff++;
+    return Math.trunc(diff / months);
+  },
+  duration: (value) => parseDuration(value),
+
+  // Compatibility with templates written as JavaScript
+  "Math.round": (value) => Math.round(toNumber(value)),
+  "Math.floor": (value) => Math.floor(toNumber(value)),
+  "Math.ceil": (value) => Math.ceil(toNumber(value)),
+  "Math.abs": (value) => Math.abs(toNumber(value)),
+  "Math.min": (...values) => Math.min(...numbers(values)),
+  "Math.max": (...values) => Math.max(...numbers(values)),
+  "Date.now": () => Date.now(),
+};
+
+// Filters receive the piped value as their first argument. Any expression
+// function can also be used as a filter (`| upper`, `| len`).
+export const EXPRESSION_FILTERS: Record<string, ExpressionFunction> = {
+  default: (value, fallback = "") =>
+    value === undefined || value === null || value === "" ? fallback : value,
+  length: (value) => EXPRESSION_FUNCTIONS.len(value),
+  first: (value) =>
+    Array.isArray(value) || typeof value === "string" ? value[0] : undefined,
+  last: (value) =>
+    Array.isArray(value) || typeof value === "string"
+      ? value[value.length - 1]
+      : undefined,
+};
+
+export function getExpressionFilter(
+  name: string,
+): ExpressionFunction | undefined {
+  return Object.prototype.hasOwnProperty.call(EXPRESSION_FILTERS, name)
+    ? EXPRESSION_FILTERS[name]
+    : getExpressionFunction(name);
+}
+
+export function getExpressionFunction(
+  name: string,
+): ExpressionFunction | undefined {
+  return Object.prototype.hasOwnProperty.call(EXPRESSION_FUNCTIONS, name)
+    ? EXPRESSION_FUNCTIONS[name]
+    : undefined;
+}
+
+function toNumber(value: any): number {
+  const number = typeof value === "number" ? value : Number(value);
+  if (Number.isNaN(number)) {
+    throw new Error(`Expected a number but got ${JSON.stringify(value)}`);
+  }
+  return number;
+}
+
+// Accepts numbers or a single array: min(a, b) and min(values) both work
+function numbers(values: any[]): number[] {
+  const list = values.length === 1 && Array.isArray(values[0]) ? values[0] : values;
+  return list.map(toNumber);
+}
+
+// Decimal rounding without binary drift: round(1.005, 2) is 1.01
+function roundTo(
+  value: number,
+  digits: number,
+  mode: (n: number) => number,
+): number {
+  const places = Math.floor(toNumber(digits));
+  if (places === 0) return mode(value);
+  if (String(value).includes("e")) {
+    return mode(value * 10 ** places) / 10 ** places;
+  }
+  const shifted = mode(Number(`${value}e${places}`));
+  return Number(`${shifted}e${-places}`);
+}
+
+function toDate(value: any): Date {
+  const date =
+    value instanceof Date
+      ? value
+      : new Date(typeof value === "string" && /^\d+$/.test(value) ? Number(value) : value);
+  if (value === null || value === undefined || Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${JSON.stringify(value)}`);
+  }
+  return date;
+}
+
+const UNIT_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  millisecond: "ms",
+  second: "s",
+  sec: "s",
+  minute: "m",
+  min: "m",
+  hour: "h",
+  day: "d",
+  week: "w",
+};
+
+// Month-based units have no fixed length; returns months per unit or 0
+function calendarMonths(unit: string): number {
+  const name = String(unit).toLowerCase().replace(/s$/, "");
+  if (name === "month" || name === "mo") return 1;
+  if (name === "year" || name === "y" || name === "yr") return 12;
+  return 0;
+}
+
+// Jan 31 + 1 month is Feb 28/29, not Mar 3
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date.getTime());
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + Math.trunc(months));
+  const lastDay = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+}
+
+function unitMs(unit: string): number {
+  const name = String(unit).toLowerCase();
+  const singular = name.length > 2 ? name.replace(/s$/, "") : name;
+  const key = UNIT_MS[name] !== undefined ? name : UNIT_ALIASES[singular];
+  if (key === undefined) {
+    throw new Error(
+      `Unknown time unit '${unit}' (use ms, s, m, h, d, w, month or year)`,
+    );
+  }
+  return UNIT_MS[key];
+}
+
+// "1h30m", "90s", "2 days" -> milliseconds; numbers are already milliseconds
+function parseDuration(value: any): number {
+  if (typeof value === "number") return value;
+
+  const text = String(value).trim();
+  const pattern = /(\d+(?:\.\d+)?)\s*([a-zA-Z]+)/g;
+  let total = 0;
+  let consumed = "";
+  for (const [match, amount, unit] of text.matchAll(pattern)) {
+    total += Number(amount) * unitMs(unit);
+    consumed += match;
+  }
+  if (!consumed || consumed.replace(/\s/g, "") !== text.replace(/\s/g, "")) {
+    throw new Error(`Invalid duration: ${JSON.stringify(value)}`);
+  }
+  return total;
+}
+
+// Tokens: YYYY MM DD HH mm ss SSS (UTC)
+function formatDate(date: Date, pattern: string): string {
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getUTCFullYear()),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+    SSS: pad(date.getUTCMilliseconds(), 3),
+  };
+  return String(pattern).replace(/YYYY|MM|DD|HH|mm|SSS|ss/g, (token) => tokens[token]);
+}
@@ -0,0 +1,866 @@
+// runtime/expression.ts
+// Tokenizer, parser and evaluator for the R-lang expression language used by
+// conditions and ${...} interpolation
+//
+// Supported syntax, loosest binding first:
+//   a | f | g(x)     pipes: filters applied left to right (`| default('-')`)
+//   a ? b : c        ternary
+//   a ?? b           null-coalescing
+//   a || b, a && b   logical
+//   == != === !==    equality
+//   < > <= >= in     relational (`in` checks arrays, substrings and object keys)
+//   + - * / %        arithmetic
+//   !a  -a           unary
+//   a.b a[0] f(x)    member access and calls
+// Literals are numbers, 'single' or "double" quoted strings, [arrays],
+// {objects}, true, false, null and undefined. `${...}` inside an expression groups like
+// parentheses, so conditions such as `!${ready} && ${count} > 0` parse as-is.
+//
+// Evaluation never touches JavaScript globals: identifiers resolve through a
+// caller-supplied lookup, calls are limited to EXPRESSION_FUNCTIONS and a
+// whitelist of string/array methods, and lambdas (`i => i.done`) are only
+// useful as arguments to those methods.
+
+import {
+  getExpressionFilter,
+  getExpressionFunction,
+} from "./expression-functions";
+import { hasBinding } from "./scope";
+
+export type ExpressionNode =
+  | { type: "literal"; value: any }
+  | { type: "identifier"; name: string }
+  | {
+      type: "member";
+      object: ExpressionNode;
+      property: ExpressionNode;
+      computed: boolean;
+    }
+  | { type: "call"; callee: ExpressionNode; args: ExpressionNode[] }
+  | { type: "array"; elements: ExpressionNode[] }
+  | { type: "object"; entries: Array<{ key: string; value: ExpressionNode }> }
+  | { type: "unary"; operator: string; argument: ExpressionNode }
+  | {
+      type: "binary" | "logical";
+      operator: string;
+      left: ExpressionNode;
+      right: ExpressionNode;
+    }
+  | {
+      type: "conditional";
+      test: ExpressionNode;
+      consequent: ExpressionNode;
+      alternate: ExpressionNode;
+    }
+  | { type: "lambda"; params: string[]; body: ExpressionNode }
+  | {
+      type: "filter";
+      name: string;
+      input: ExpressionNode;
+      args: ExpressionNode[];
+    };
+
+// Resolves a variable or dotted path (e.g. "llm.complete", "input.items")
+export type PathLookup = (path: string) => any;
+
+export class ExpressionError extends Error {
+  constructor(
+    message: string,
+    public readonly expression: string,
+    public readonly position?: number,
+  ) {
+    super(
+      position !== undefined
+        ? `${message} at position ${position + 1} in '${expression}'`
+        : `${message} in '${expression}'`,
+    );
+    this.name = "ExpressionError";
+  }
+}
+
+// ─── Tokenizer ──────────────────────────────────────────────────────────────
+
+interface Token {
+  type: "number" | "string" | "identifier" | "operator" | "eof";
+  value: string;
+  literal?: any;
+  position: number;
+}
+
+// Longest first so that "===" wins over "==" and "=>"
+const OPERATORS = [
+  "===",
+  "!==",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "|",
+  "??",
+  "?.",
+  "=>",
+  "${",
+  "(",
+  ")",
+  "[",
+  "]",
+  "{",
+  "}",
+  ",",
+  ".",
+  "?",
+  ":",
+  "!",
+  "<",
+  ">",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+];
+
+const ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  "0": "\0",
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  // Open braces: true for a ${...} group, false for an object literal
+  const braces: boolean[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(source[i + 1]))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(
+        source.slice(i),
+      )!;
+      tokens.push({
+        type: "number",
+        value: match[0],
+        literal: Number(match[0]),
+        position: i,
+      });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = i;
+      let value = "";
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === "\\" && i + 1 < source.length) {
+          const next = source[i + 1];
+          value += ESCAPES[next] ?? next;
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      if (i >= source.length) {
+        throw new ExpressionError("Unterminated string", source, start);
+      }
+      i++;
+      tokens.push({
+        type: "string",
+        value: source.slice(start, i),
+        literal: value,
+        position: start,
+      });
+      continue;
+    }
+
+    if (source.startsWith("${", i)) {
+      braces.push(true);
+      tokens.push({ type: "operator", value: "(", position: i });
+      i += 2;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(source.slice(i))!;
+      tokens.push({ type: "identifier", value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i));
+    if (!operator) {
+      throw new ExpressionError(`Unexpected character '${char}'`, source, i);
+    }
+    if (operator === "{") braces.push(false);
+    if (operator === "}") {
+      if (braces.length === 0) {
+        throw new ExpressionError("Unexpected '}'", source, i);
+      }
+      // A ${...} group closes like a parenthesis
+      const value = braces.pop() ? ")" : "}";
+      tokens.push({ type: "operator", value, position: i });
+    } else {
+      tokens.push({ type: "operator", value: operator, position: i });
+    }
+    i += operator.length;
+  }
+
+  tokens.push({ type: "eof", value: "", position: source.length });
+  return tokens;
+}
+
+// ─── Parser ─────────────────────────────────────────────────────────────────
+
+const KEYWORD_LITERALS: Record<string, any> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined,
+};
+
+const BINARY_LEVELS: Array<{ type: "binary" | "logical"; operators: string[] }> =
+  [
+    { type: "logical", operators: ["??"] },
+    { type: "logical", operators: ["||"] },
+    { type: "logical", operators: ["&&"] },
+    { type: "binary", operators: ["==", "!=", "===", "!=="] },
+    { type: "binary", operators: ["<", ">", "<=", ">=", "in"] },
+    { type: "binary", operators: ["+", "-"] },
+    { type: "binary", operators: ["*", "/", "%"] },
+  ];
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly source: string,
+    private readonly tokens: Token[],
+  ) {}
+
+  parse(): ExpressionNode {
+    if (this.peek().type === "eof") {
+      throw new ExpressionError("Empty expression", this.source);
+    }
+    const node = this.parsePipeline();
+    if (this.peek().type !== "eof") this.unexpected();
+    return node;
+  }
+
+  private parsePipeline(): ExpressionNode {
+    let node = this.parseConditional();
+    while (this.match("|")) {
+      const name = this.next();
+      if (name.type !== "identifier") this.unexpected(name);
+      const args = this.match("(") ? this.parseList(")") : [];
+      node = { type: "filter", name: name.value, input: node, args };
+    }
+    return node;
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseBinary(0);
+    if (!this.match("?")) return test;
+
+    const consequent = this.parseConditional();
+    this.expect(":");
+    const alternate = this.parseConditional();
+    return { type: "conditional", test, consequent, alternate };
+  }
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level >= BINARY_LEVELS.length) return this.parseUnary();
+
+    const { type, operators } = BINARY_LEVELS[level];
+    let left = this.parseBinary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      const isOperator =
+        (token.type === "operator" || token.value === "in") &&
+        operators.includes(token.value);
+      if (!isOperator) return left;
+
+      this.index++;
+      const right = this.parseBinary(level + 1);
+      left = { type, operator: token.value, left, right };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.type === "operator" && ["!", "-", "+"].includes(token.value)) {
+      this.index++;
+      return { type: "unary", operator: token.value, argument: this.parseUnary() };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(node: ExpressionNode): ExpressionNode {
+    for (;;) {
+      if (this.match(".") || this.match("?.")) {
+        const name = this.next();
+        if (name.type !== "identifier") this.unexpected(name);
+        node = {
+          type: "member",
+          object: node,
+          property: { type: "literal", value: name.value },
+          computed: false,
+        };
+      } else if (this.match("[")) {
+        const property = this.parseConditional();
+        this.expect("]");
+        node = { type: "member", object: node, property, computed: true };
+      } else if (this.match("(")) {
+        node = { type: "call", callee: node, args: this.parseList(")") };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case "number":
+      case "string":
+        return { type: "literal", value: token.literal };
+      case "identifier":
+        if (token.value in KEYWORD_LITERALS) {
+          return { type: "literal", value: KEYWORD_LITERALS[token.value] };
+        }
+        if (this.match("=>")) {
+          return {
+            type: "lambda",
+            params: [token.value],
+            body: this.parseConditional(),
+          };
+        }
+        return { type: "identifier", name: token.value };
+      case "operator":
+        if (token.value === "[") {
+          return { type: "array", elements: this.parseList("]") };
+        }
+        if (token.value === "{") {
+          return this.parseObject();
+        }
+        if (token.value === "(") {
+          const params = this.tryLambdaParams();
+          if (params) {
+            return { type: "lambda", params, body: this.parseConditional() };
+          }
+          const inner = this.parsePipeline();
+          this.expect(")");
+          return inner;
+        }
+    }
+    return this.unexpected(token);
+  }
+
+  // After "(": consumes `a, b) =>` and returns the names, or rewinds
+  private tryLambdaParams(): string[] | null {
+    const start = this.index;
+    const params: string[] = [];
+
+    if (!this.match(")")) {
+      for (;;) {
+        const token = this.next();
+        if (token.type !== "identifier") {
+          this.index = start;
+          return null;
+        }
+        params.push(token.value);
+        if (this.match(")")) break;
+        if (!this.match(",")) {
+          this.index = start;
+          return null;
+        }
+      }
+    }
+
+    if (!this.match("=>")) {
+      this.index = start;
+      return null;
+    }
+    return params;
+  }
+
+  private parseObject(): ExpressionNode {
+    const entries: Array<{ key: string; value: ExpressionNode }> = [];
+    while (!this.match("}")) {
+      const key = this.next();
+      if (key.type !== "identifier" && key.type !== "string") {
+        this.unexpected(key);
+      }
+      this.expect(":");
+      entries.push({
+        key: key.type === "string" ? key.literal : key.value,
+        value: this.parseConditional(),
+      });
+      if (!this.match(",")) {
+        this.expect("}");
+        break;
+      }
+    }
+    return { type: "object", entries };
+  }
+
+  private parseList(close: string): ExpressionNode[] {
+    const items: ExpressionNode[] = [];
+    while (!this.match(close)) {
+      items.push(this.parseConditional());
+      if (!this.match(",")) {
+        this.expect(close);
+        break;
+      }
+    }
+    return items;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== "eof") this.index++;
+    return token;
+  }
+
+  private match(value: string): boolean {
+    const token = this.peek();
+    if (token.type === "operator" && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string): void {
+    if (!this.match(value)) {
+      const token = this.peek();
+      throw new ExpressionError(
+        `Expected '${value}' but found ${describeToken(token)}`,
+        this.source,
+        token.position,
+      );
+    }
+  }
+
+  private unexpected(token: Token = this.peek()): never {
+    throw new ExpressionError(
+      `Unexpected ${describeToken(token)}`,
+      this.source,
+      token.position,
+    );
+  }
+}
+
+function describeToken(token: Token): string {
+  return token.type === "eof" ? "end of expression" : `'${token.value}'`;
+}
+
+const parseCache = new Map<string, ExpressionNode>();
+const PARSE_CACHE_LIMIT = 5000;
+
+/**
+ * Parse an expression into an AST. Results are cached by source text, so
+ * callers can parse on every evaluation.
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const cached = parseCache.get(source);
+  if (cached) return cached;
+
+  const node = new Parser(source, tokenize(source)).parse();
+  if (parseCache.size >= PARSE_CACHE_LIMIT) parseCache.clear();
+  parseCache.set(source, node);
+  return node;
+}
+
+/**
+ * Seed the parse cache with ASTs parsed ahead of time (runtime/compiler.ts).
+ */
+export function primeExpressionCache(
+  expressions: Record<string, ExpressionNode>,
+): void {
+  for (const [source, node] of Object.entries(expressions)) {
+    if (parseCache.size >= PARSE_CACHE_LIMIT) break;
+    parseCache.set(source, node);
+  }
+}
+
+// ─── Evaluator ──────────────────────────────────────────────────────────────
+
+const BLOCKED_PROPERTIES = new Set(["__proto__", "prototype", "constructor"]);
+
+const STRING_METHODS = new Set([
+  "includes",
+  "startsWith",
+  "endsWith",
+  "indexOf",
+  "toLowerCase",
+  "toUpperCase",
+  "trim",
+  "split",
+  "slice",
+  "substring",
+  "replace",
+  "padStart",
+  "padEnd",
+]);
+
+const ARRAY_METHODS = new Set([
+  "includes",
+  "indexOf",
+  "join",
+  "slice",
+  "concat",
+  "some",
+  "every",
+  "filter",
+  "map",
+  "find",
+  "findIndex",
+]);
+
+const NUMBER_METHODS = new Set(["toFixed", "toString"]);
+
+interface Scope {
+  source: string;
+  lookup: PathLookup;
+  locals: Record<string, any>;
+}
+
+/**
+ * Evaluate an expression. Unknown variables evaluate to undefined; syntax
+ * errors, unknown functions and disallowed methods throw ExpressionError.
+ */
+export function evaluateExpression(source: string, lookup: PathLookup): any {
+  return evaluateNode(parseExpression(source), {
+    source,
+    lookup,
+    locals: {},
+  });
+}
+
+function evaluateNode(node: ExpressionNode, scope: Scope): any {
+  switch (node.type) {
+    case "literal":
+      return node.value;
+
+    case "identifier":
+      return isLocal(scope.locals, node.name)
+        ? scope.locals[node.name]
+        : scope.lookup(node.name);
+
+    case "member": {
+      // Try the whole dotted path first so literal keys like "llm.complete"
+      // resolve the same way they do in plain ${...} references
+      const path = getStaticPath(node, scope.locals);
+      if (path) {
+        const value = scope.lookup(path);
+        if (value !== undefined) return value;
+      }
+      return getProperty(
+        evaluateNode(node.object, scope),
+        evaluateNode(node.property, scope),
+        scope,
+      );
+    }
+
+    case "call":
+      return evaluateCall(node, scope);
+
+    case "array":
+      return node.elements.map((element) => evaluateNode(element, scope));
+
+    case "object": {
+      const result: Record<string, any> = {};
+      for (const { key, value } of node.entries) {
+        if (BLOCKED_PROPERTIES.has(key)) {
+          throw new ExpressionError(`Key '${key}' is not allowed`, scope.source);
+        }
+        result[key] = evaluateNode(value, scope);
+      }
+      return result;
+    }
+
+    case "unary": {
+      const value = evaluateNode(node.argument, scope);
+      if (node.operator === "!") return !value;
+      return node.operator === "-" ? -value : +value;
+    }
+
+    case "logical": {
+      const left = evaluateNode(node.left, scope);
+      if (node.operator === "&&") return left && evaluateNode(node.right, scope);
+      if (node.operator === "||") return left || evaluateNode(node.right, scope);
+      return left ?? evaluateNode(node.right, scope);
+    }
+
+    case "binary":
+      return applyBinary(
+        node.operator,
+        evaluateNode(node.left, scope),
+        evaluateNode(node.right, scope),
+      );
+
+    case "conditional":
+      return evaluateNode(node.test, scope)
+        ? evaluateNode(node.consequent, scope)
+        : evaluateNode(node.alternate, scope);
+
+    case "filter": {
+      const filter = getExpressionFilter(node.name);
+      if (!filter) {
+        throw new ExpressionError(`Unknown filter '${node.name}'`, scope.source);
+      }
+      return filter(
+        evaluateNode(node.input, scope),
+        ...node.args.map((arg) => evaluateNode(arg, scope)),
+      );
+    }
+
+    case "lambda":
+      return (...args: any[]) => {
+        const locals = { ...scope.locals };
+        node.params.forEach((param, i) => (locals[param] = args[i]));
+        return evaluateNode(node.body, { ...scope, locals });
+      };
+  }
+}
+
+function evaluateCall(
+  node: Extract<ExpressionNode, { type: "call" }>,
+  scope: Scope,
+): any {
+  const args = () => node.args.map((arg) => evaluateNode(arg, scope));
+  const { callee } = node;
+
+  // Library functions, including dotted names such as "Math.floor"
+  const name = getStaticPath(callee, scope.locals);
+  const func = name ? getExpressionFunction(name) : undefined;
+  if (func) return func(...args());
+
+  if (callee.type !== "member") {
+    throw new ExpressionError(
+      name ? `Unknown function '${name}'` : "Expression is not callable",
+      scope.source,
+    );
+  }
+
+  const target = evaluateNode(callee.object, scope);
+  const method = String(evaluateNode(callee.property, scope));
+
+  // Behave like optional chaining: a.b.includes(x) is undefined when a.b is
+  if (target === null || target === undefined) return undefined;
+
+  const allowed =
+    typeof target === "string"
+      ? STRING_METHODS
+      : Array.isArray(target)
+        ? ARRAY_METHODS
+        : typeof target === "number"
+          ? NUMBER_METHODS
+          : null;
+  if (!allowed || !allowed.has(method)) {
+    throw new ExpressionError(
+      `Method '${method}' is not available on ${Array.isArray(target) ? "array" : typeof target}`,
+      scope.source,
+    );
+  }
+  return (target as any)[method](...args());
+}
+
+function getProperty(object: any, key: any, scope: Scope): any {
+  if (object === null || object === undefined) return undefined;
+
+  const name = String(key);
+  if (BLOCKED_PROPERTIES.has(name)) {
+    throw new ExpressionError(`Access to '${name}' is not allowed`, scope.source);
+  }
+
+  if (typeof object === "string") {
+    if (name === "length") return object.length;
+    return /^\d+$/.test(name) ? object[Number(name)] : undefined;
+  }
+  if (typeof object !== "object") return undefined;
+  if (Array.isArray(object) && name === "length") return object.length;
+
+  // hasBinding also sees bindings inherited from enclosing memory scopes
+  return hasBinding(object, name) ? object[name] : undefined;
+}
+
+function applyBinary(operator: string, left: any, right: any): any {
+  switch (operator) {
+    case "==":
+      return left == right;
+    case "!=":
+      return left != right;
+    case "===":
+      return left === right;
+    case "!==":
+      return left !== right;
+    case "<":
+      return left < right;
+    case ">":
+      return left > right;
+    case "<=":
+      return left <= right;
+    case ">=":
+      return left >= right;
+    case "in":
+      if (Array.isArray(right)) return right.includes(left);
+      if (typeof right === "string") return right.includes(String(left));
+      if (right && typeof right === "object") return hasBinding(right, String(left));
+      return false;
+    case "+":
+      return left + right;
+    case "-":
+      return left - right;
+    case "*":
+      return left * right;
+    case "/":
+      return left / right;
+    case "%":
+      return left % right;
+  }
+}
+
+function isLocal(locals: Record<string, any>, name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(locals, name);
+}
+
+/**
+ * "a.b.c" for a chain of plain identifiers and dot accesses rooted at a
+ * non-local name, otherwise null.
+ */
+function getStaticPath(
+  node: ExpressionNode,
+  locals: Record<string, any>,
+): string | null {
+  if (node.type === "identifier") {
+    return isLocal(locals, node.name) ? null : node.name;
+  }
+  if (node.type === "member" && !node.computed) {
+    const base = getStaticPath(node.object, locals);
+    return base && `${base}.${(node.property as any).value}`;
+  }
+  return null;
+}
+
+// ─── Templates ──────────────────────────────────────────────────────────────
+
+export interface TemplateSpan {
+  start: number; // Index of "$"
+  end: number; // Index after the closing "}"
+  expression: string;
+}
+
+/**
+ * Find the top-level ${...} spans in a string. Braces inside quoted strings
+ * and nested ${...} groups are balanced, so `${${a} || []}` is one span.
+ */
+export function findTemplates(text: string): TemplateSpan[] {
+  const spans: TemplateSpan[] = [];
+  let i = text.indexOf("${");
+
+  while (i !== -1) {
+    let depth = 1;
+    let quote: string | null = null;
+    let j = i + 2;
+
+    for (; j < text.length && depth > 0; j++) {
+      const char = text[j];
+      if (quote) {
+        if (char === "\\") j++;
+        else if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === "{") {
+        depth++;
+      } else if (char === "}") {
+        depth--;
+      }
+    }
+
+    // Unterminated templates are left as plain text
+    if (depth > 0) break;
+
+    spans.push({ start: i, end: j, expression: text.slice(i + 2, j - 1) });
+    i = text.indexOf("${", j);
+  }
+
+  return spans;
+}
+
+/**
+ * Variable paths an expression reads (e.g. "input.items", "item"), not
+ * counting lambda parameters or called function names.
+ */
+export function collectVariablePaths(node: ExpressionNode): string[] {
+  const paths: string[] = [];
+
+  const visit = (current: ExpressionNode, locals: Record<string, any>) => {
+    switch (current.type) {
+      case "identifier":
+      case "member": {
+        const path = getStaticPath(current, locals);
+        if (path) {
+          paths.push(path);
+        } else if (current.type === "member") {
+          visit(current.object, locals);
+          if (current.computed) visit(current.property, locals);
+        }
+        return;
+      }
+      case "call":
+        if (current.callee.type === "member") {
+          visit(current.callee.object, locals);
+        }
+        current.args.forEach((arg) => visit(arg, locals));
+        return;
+      case "array":
+        current.elements.forEach((element) => visit(element, locals));
+        return;
+      case "object":
+        current.entries.forEach((entry) => visit(entry.value, locals));
+        return;
+      case "unary":
+        visit(current.argument, locals);
+        return;
+      case "binary":
+      case "logical":
+        visit(current.left, locals);
+        visit(current.right, locals);
+        return;
+      case "conditional":
+        visit(current.test, locals);
+        visit(current.consequent, locals);
+        visit(current.alternate, locals);
+        return;
+      case "filter":
+        visit(current.input, locals);
+        current.args.forEach((arg) => visit(arg, locals));
+        return;
+      case "lambda": {
+        const inner = { ...locals };
+        current.params.forEach((param) => (inner[param] = true));
+        visit(current.body, inner);
+        return;
+      }
+    }
+  };
+
+  visit(node, {});
+  return paths;
+}
@@ -236,6 +236,16 @@ function serializeAgent(agent: any): string {
         yamlLines.push(`    - "${action}"`);
       });
     }
+    if (agent.aam.restrict_clients) {
+      yamlLines.push("  restrict_clients:");
+      agent.aam.restrict_clients.forEach((clientId: string) => {
+        yamlLines.push(`    - "${clientId}"`);
+      });
+    }
+    for (const flag of ["client_immutable", "system_managed"]) {
+      if (typeof agent.aam[flag] === "boolean")
+        yamlLines.push(`  ${flag}: ${agent.aam[flag]}`);
+    }
     yamlLines.push("");
   }
 
@@ -0,0 +1,249 @@
+// runtime/human-input.ts
+// prompt.user steps that wait for the user's answer
+//
+//   - prompt.user:
+//       to: "${input.approver}"
+//       message: "Approve payment of ${input.amount}?"
+//       buttons: ["Approve", "Reject"]
+//       wait: true
+//       timeout_ms: 3600000 # Default 24 hours
+//       default: "Reject" # Chosen when nobody answers in time
+//     as: approval # { choice, user, answered_at, timed_out }
+//
+// A waiting prompt posts its buttons and suspends the run: the interpreter
+// stores the run's memory and the path to the prompt in the execution
+// journal (runtime/journal.ts) and returns. Each button replies with
+// "rlang:<promptId>:<choice>", which the RocketChat webhooks hand to
+// answerPrompt when the request carries the integration's token
+// (ROCKETCHAT_WEBHOOK_TOKEN). That resumes the run at the step after the
+// prompt, with the answer as the prompt's output. Only the user the prompt
+// is `to` can answer it, and only in the room the prompt was posted to.
+// Prompts nobody answers get their default once they expire
+// (resumeExpiredPrompts); without one the run fails with EXECUTION_TIMEOUT.
+//
+// Only durable runs can wait, and only where the path to the prompt can be
+// replayed: the operation's steps, condition/switch branches, try blocks and
+// internal operations. Not in loops, parallel branches, error handlers,
+// hooks or nested runs.
+
+import { randomUUID } from "crypto";
+import { resolveValue } from "./resolver";
+import { flattenScope } from "./scope";
+import { getStepKey } from "./step-keys";
+import { RLangError } from "./errors";
+import { ExecutionError } from "./execution-control";
+import { RLangContext, RLangStep } from "../schema/types";
+
+export const DEFAULT_PROMPT_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+
+const REPLY_PATTERN = /^rlang:([\w.-]+):(.*)$/s;
+
+// One step on the way to a prompt: its index and key, checked on resume
+export interface StepPointer {
+  index: number;
+  step: string;
+}
+
+export interface PendingPrompt {
+  id: string; // "<execution id>.<nonce>"
+  to: string; // The user who may answer
+  channel?: string; // Room the prompt was posted to
+  message: string;
+  choices: string[]; // Empty if any reply is accepted
+  default?: string;
+  expiresAt: string;
+}
+
+export interface PromptAnswer {
+  choice: string | null;
+  user?: string;
+  answered_at: string;
+  timed_out: boolean;
+}
+
+// Carried by context.resumeCursor while a resumed run finds its way back to
+// the prompt; each executeSteps level takes the first pointer
+export interface ResumeCursor {
+  path: StepPointer[];
+  answer: PromptAnswer;
+}
+
+/**
+ * Thrown by a waiting prompt.user once its message is posted. Like other
+ * ExecutionErrors it passes through error handlers and retries; each step
+ * list it leaves prepends its position to `path`.
+ */
+export class PromptSuspension extends ExecutionError {
+  readonly path: StepPointer[] = [];
+
+  constructor(
+    public readonly prompt: PendingPrompt,
+    public readonly memory: Record<string, any>, // Visible bindings at the prompt
+  ) {
+    super(
+      "EXECUTION_SUSPENDED",
+      `Waiting for ${prompt.to} to answer prompt ${prompt.id}`,
+    );
+    this.name = "PromptSuspension";
+  }
+}
+
+export function isPromptSuspension(error: unknown): error is PromptSuspension {
+  return error instanceof PromptSuspension;
+}
+
+/**
+ * Post a waiting prompt through `post` (rocketchat.promptUser) and suspend
+ * the run.
+ */
+export async function suspendForAnswer(
+  prompt: any,
+  context: RLangContext,
+  post: Function,
+): Promise<never> {
+  if (!context.journal) {
+    throw new Error(
+      "prompt.user can only wait in a durable run, outside loops, parallel branches, error handlers and hooks",
+    );
+  }
+
+  const resolved = resolveValue(prompt, context);
+  const timeoutMs = Number(resolved.timeout_ms ?? DEFAULT_PROMPT_TIMEOUT_MS);
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+    throw new Error("prompt.user.timeout_ms must be a positive number");
+  }
+
+  const buttons: any[] = Array.isArray(resolved.buttons) ? resolved.buttons : [];
+  const choices = buttons.map(getChoice);
+  const defaultChoice =
+    resolved.default === undefined ? undefined : String(resolved.default);
+  if (
+    defaultChoice !== undefined &&
+    choices.length > 0 &&
+    !choices.includes(defaultChoice)
+  ) {
+    throw new Error(
+      `prompt.user.default '${defaultChoice}' is not one of its buttons`,
+    );
+  }
+
+  const pending: PendingPrompt = {
+    id: `${context.journal.executionId}.${randomUUID()}`,
+    to: resolved.to,
+    message: resolved.message,
+    choices,
+    ...(defaultChoice !== undefined && { default: defaultChoice }),
+    expiresAt: new Date(Date.now() + timeoutMs).toISOString(),
+  };
+
+  const posted = await post(
+    {
+      ...resolved,
+      buttons: buttons.map((button) => ({
+        text: typeof button === "string" ? button : button.text ?? button.title,
+        value: `rlang:${pending.id}:${getChoice(button)}`,
+        ...(typeof button === "object" && button.style && { style: button.style }),
+      })),
+    },
+    context,
+  );
+  pending.channel = posted?.channel ?? resolved.to;
+
+  throw new PromptSuspension(pending, flattenScope(context.memory));
+}
+
+/**
+ * Throw ACCESS_DENIED unless `answerer` may answer `prompt`: it must be the
+ * user the prompt is `to` (by username or id), answering in the room the
+ * prompt was posted to. Callers must have authenticated the answerer.
+ */
+export function checkAnswerer(
+  prompt: PendingPrompt,
+  answerer: { user?: string; userId?: string; channel?: string },
+): void {
+  const normalize = (name: string) => name.replace(/^@/, "").toLowerCase();
+  const to = normalize(String(prompt.to ?? ""));
+  const isRecipient = [answerer.user, answerer.userId].some(
+    (name) => name && normalize(name) === to,
+  );
+  if (!isRecipient) {
+    throw new RLangError(
+      "ACCESS_DENIED",
+      `Prompt '${prompt.id}' is waiting for ${prompt.to}, not ${answerer.user ?? answerer.userId ?? "an unknown user"}`,
+    );
+  }
+  if (!answerer.channel || answerer.channel !== prompt.channel) {
+    throw new RLangError(
+      "ACCESS_DENIED",
+      `Prompt '${prompt.id}' can only be answered in the room it was posted to`,
+    );
+  }
+}
+
+/**
+ * The prompt id and choice of a button reply, or null for any other text.
+ */
+export function parsePromptReply(
+  text: unknown,
+): { promptId: string; choice: string } | null {
+  if (typeof text !== "string") return null;
+  const match = REPLY_PATTERN.exec(text.trim());
+  return match ? { promptId: match[1], choice: match[2] } : null;
+}
+
+/**
+ * The execution a prompt id belongs to.
+ */
+export function getPromptExecutionId(promptId: string): string {
+  return promptId.slice(0, promptId.lastIndexOf("."));
+}
+
+/**
+ * Where to start in `steps` when a resumed run passes through them on its
+ * way back to the prompt: the step to re-enter, or with `answer` set, the
+ * prompt itself. Null when not resuming.
+ */
+export function takeResumePoint(
+  context: RLangContext,
+  steps: RLangStep[],
+): { index: number; answer?: PromptAnswer } | null {
+  const cursor = context.resumeCursor;
+  const pointer = cursor?.path.shift();
+  if (!cursor || !pointer) return null;
+
+  const step = steps[pointer.index];
+  if (step === undefined || getStepKey(step) !== pointer.step) {
+    throw new RLangError(
+      "RESUME_FAILED",
+      `Cannot resume at step ${pointer.index} ('${pointer.step}'): the operation changed while it was suspended`,
+    );
+  }
+  return cursor.path.length === 0
+    ? { index: pointer.index, answer: cursor.answer }
+    : { index: pointer.index };
+}
+
+/**
+ * Run `fn` with waiting prompts disabled: the steps it runs cannot be
+ * replayed up to a prompt on resume.
+ */
+export async function withoutSuspension<T>(
+  context: RLangContext,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const journal = context.journal;
+  if (!journal) return fn();
+
+  context.journal = undefined;
+  try {
+    return await fn();
+  } finally {
+    context.journal = journal;
+  }
+}
+
+function getChoice(button: any): string {
+  return typeof button === "string"
+    ? button
+    : String(button.value ?? button.action ?? button.text);
+}
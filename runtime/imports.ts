@@ -0,0 +1,152 @@
+// runtime/imports.ts
+// `imports:` - operations shared between .r files under a namespace
+//
+//   imports:
+//     validation: shared/validation      # namespace: file
+//   operations:
+//     check:
+//       - validation.add_error: { error: "..." }
+//
+// Import paths starting with "./" or "../" are relative to the importing
+// file; anything else is resolved like `run:` targets (resolveIntelligentPath).
+// An imported operation runs against its own file - its internal calls,
+// imports and scoping mode - but with the caller's memory.
+
+import { dirname, join } from "path";
+import { RLangFile } from "../schema/types";
+
+export interface ImportSpec {
+  namespace: string;
+  file: string;
+}
+
+const NAMESPACE_PATTERN = /^[A-Za-z_][\w-]*$/;
+
+// Linked modules per loaded file: namespace -> imported file
+const importedModules = new WeakMap<RLangFile, Map<string, RLangFile>>();
+
+/**
+ * Normalize an `imports:` section. Accepts a mapping of namespace to file,
+ * or a list of `{ from, as }` entries.
+ */
+export function parseImports(rFile: any): ImportSpec[] {
+  const imports = rFile?.imports;
+  if (imports === undefined || imports === null) return [];
+
+  let specs: ImportSpec[];
+  if (Array.isArray(imports)) {
+    specs = imports.map((entry) => ({
+      namespace: entry?.as,
+      file: entry?.from,
+    }));
+  } else if (typeof imports === "object") {
+    specs = Object.entries(imports).map(([namespace, file]) => ({
+      namespace,
+      file: file as string,
+    }));
+  } else {
+    throw new Error("imports must map namespaces to .r files");
+  }
+
+  const seen = new Set<string>();
+  for (const spec of specs) {
+    if (
+      typeof spec.namespace !== "string" ||
+      !NAMESPACE_PATTERN.test(spec.namespace)
+    ) {
+      throw new Error(`Invalid import namespace '${spec.namespace}'`);
+    }
+    if (typeof spec.file !== "string" || spec.file.length === 0) {
+      throw new Error(`Import '${spec.namespace}' must name a .r file`);
+    }
+    if (seen.has(spec.namespace)) {
+      throw new Error(`Duplicate import namespace '${spec.namespace}'`);
+    }
+    if (rFile.operations?.[spec.namespace]) {
+      throw new Error(
+        `Import namespace '${spec.namespace}' clashes with an operation of the same name`,
+      );
+    }
+    seen.add(spec.namespace);
+  }
+  return specs;
+}
+
+export async function resolveImportPath(
+  file: string,
+  fromFile: string,
+): Promise<string | null> {
+  if (file.startsWith("./") || file.startsWith("../")) {
+    const relative = join(dirname(fromFile), file);
+    return relative.endsWith(".r") ? relative : `${relative}.r`;
+  }
+
+  const { resolveIntelligentPath } = await import("./interpreter");
+  return resolveIntelligentPath(file);
+}
+
+/**
+ * Load every import of `rFile` with `load` and remember them for
+ * resolveOperation. Returns the resolved paths of the direct imports.
+ */
+export async function linkImports(
+  rFile: RLangFile,
+  filePath: string,
+  load: (path: string) => Promise<RLangFile>,
+): Promise<string[]> {
+  const specs = parseImports(rFile);
+  const modules = new Map<string, RLangFile>();
+  const paths: string[] = [];
+
+  for (const spec of specs) {
+    const resolved = await resolveImportPath(spec.file, filePath);
+    if (!resolved) {
+      throw new Error(
+        `Import '${spec.namespace}': file '${spec.file}' not found`,
+      );
+    }
+    modules.set(spec.namespace, await load(resolved));
+    paths.push(resolved);
+  }
+
+  importedModules.set(rFile, modules);
+  return paths;
+}
+
+/**
+ * Make the namespaces imported by inherited files (see runtime/inheritance.ts)
+ * available to `rFile`, so inherited operations keep their imports. The
+ * file's own imports win.
+ */
+export function inheritImports(rFile: RLangFile, parents: RLangFile[]): void {
+  const modules = new Map<string, RLangFile>();
+  for (const parent of parents) {
+    importedModules.get(parent)?.forEach((module, namespace) => {
+      modules.set(namespace, module);
+    });
+  }
+  importedModules.get(rFile)?.forEach((module, namespace) => {
+    modules.set(namespace, module);
+  });
+  importedModules.set(rFile, modules);
+}
+
+/**
+ * Find the operation a step key refers to: one defined in `rData` itself,
+ * or `namespace.operation` from an imported file.
+ */
+export function resolveOperation(
+  rData: any,
+  name: string,
+): { rData: RLangFile; operation: string } | null {
+  if (rData?.operations?.[name]) {
+    return { rData, operation: name };
+  }
+
+  const dot = name.indexOf(".");
+  if (dot === -1 || !rData) return null;
+
+  const module = importedModules.get(rData)?.get(name.slice(0, dot));
+  const operation = name.slice(dot + 1);
+  return module?.operations?.[operation] ? { rData: module, operation } : null;
+}
@@ -0,0 +1,165 @@
+// runtime/inheritance.ts
+// `extends:` and `mixins:` - operations and lifecycle hooks inherited from
+// other .r files
+//
+//   extends: templates/basic_agent       # one base file
+//   mixins: [system/learning-mixin]      # any number of mixin files
+//   operations:
+//     default:
+//       - log_start
+//       - super                          # the inherited `default`
+//
+// Layers are merged in order base -> mixins -> this file, later layers
+// overriding operations (and their signatures) of the same name. Inherited
+// operations run against the inheriting file, so their internal calls reach
+// its overrides. Hooks (before_operation, after_operation, on_failure) are
+// not overridden but accumulate: every layer's hook steps run, base first.
+//
+// `self.template` stays a descriptive label; use `extends:` to inherit.
+
+import { RLangFile, RLangStep } from "../schema/types";
+import { inheritImports, resolveImportPath } from "./imports";
+
+export const HOOK_NAMES = [
+  "before_operation",
+  "after_operation",
+  "on_failure",
+] as const;
+
+export type HookName = (typeof HOOK_NAMES)[number];
+
+// `super` steps -> the definition their operation overrides
+const superTargets = new WeakMap<
+  object,
+  { operation: string; steps: RLangStep[] }
+>();
+
+/**
+ * The files `rFile` inherits from, base first: `extends` followed by `mixins`.
+ */
+export function getInheritanceSources(rFile: any): string[] {
+  const sources: string[] = [];
+  const { extends: base, mixins } = rFile ?? {};
+
+  if (base !== undefined && base !== null) {
+    if (typeof base !== "string" || base.length === 0) {
+      throw new Error("extends must name a single .r file");
+    }
+    sources.push(base);
+  }
+
+  if (mixins !== undefined && mixins !== null) {
+    const list = typeof mixins === "string" ? [mixins] : mixins;
+    if (
+      !Array.isArray(list) ||
+      list.some((mixin) => typeof mixin !== "string" || mixin.length === 0)
+    ) {
+      throw new Error("mixins must be a list of .r files");
+    }
+    sources.push(...list);
+  }
+
+  return sources;
+}
+
+export function validateHooks(rFile: any): void {
+  const hooks = rFile?.hooks;
+  if (hooks === undefined || hooks === null) return;
+  if (typeof hooks !== "object" || Array.isArray(hooks)) {
+    throw new Error("hooks must map hook names to step lists");
+  }
+  for (const [name, steps] of Object.entries(hooks)) {
+    if (!(HOOK_NAMES as readonly string[]).includes(name)) {
+      throw new Error(
+        `Unknown hook '${name}' (expected ${HOOK_NAMES.join(", ")})`,
+      );
+    }
+    if (!Array.isArray(steps)) {
+      throw new Error(`Hook '${name}' must be an array of steps`);
+    }
+  }
+}
+
+/**
+ * Load the base and mixin files of `rFile` with `load` and merge their
+ * operations, hooks and imports into it. Returns the resolved paths of the
+ * inherited files.
+ */
+export async function linkInheritance(
+  rFile: RLangFile,
+  filePath: string,
+  load: (path: string) => Promise<RLangFile>,
+): Promise<string[]> {
+  validateHooks(rFile);
+  const sources = getInheritanceSources(rFile);
+  if (sources.length === 0) return [];
+
+  const parents: RLangFile[] = [];
+  const paths: string[] = [];
+  for (const source of sources) {
+    const resolved = await resolveImportPath(source, filePath);
+    if (!resolved) {
+      throw new Error(`Inherited file '${source}' not found`);
+    }
+    parents.push(await load(resolved));
+    paths.push(resolved);
+  }
+
+  const operations: Record<string, RLangStep[]> = {};
+  const hooks: Partial<Record<HookName, RLangStep[]>> = {};
+  let signatures: RLangFile["signatures"] = {};
+  for (const layer of [...parents, rFile]) {
+    signatures = { ...signatures, ...layer.signatures };
+    for (const [name, steps] of Object.entries(layer.operations ?? {})) {
+      if (layer === rFile && operations[name]) {
+        linkSuper(steps, name, operations[name]);
+      }
+      operations[name] = steps;
+    }
+    for (const name of HOOK_NAMES) {
+      const steps = layer.hooks?.[name];
+      if (steps) hooks[name] = [...(hooks[name] ?? []), ...steps];
+    }
+  }
+
+  rFile.operations = operations;
+  rFile.hooks = hooks;
+  rFile.signatures = signatures;
+  inheritImports(rFile, parents);
+  return paths;
+}
+
+/**
+ * The inherited definition a `super` step calls, or null if its operation
+ * does not override one.
+ */
+export function getSuperTarget(
+  step: RLangStep,
+): { operation: string; steps: RLangStep[] } | null {
+  return typeof step === "object" && step !== null
+    ? (superTargets.get(step) ?? null)
+    : null;
+}
+
+// Register every `super` step nested anywhere in an overriding operation.
+// A bare `- super` is rewritten to `{ super: null }` so it can be keyed.
+function linkSuper(
+  steps: RLangStep[],
+  operation: string,
+  parent: RLangStep[],
+): void {
+  const visit = (value: any): void => {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        if (item === "super") value[index] = { super: null };
+        visit(value[index]);
+      });
+    } else if (value && typeof value === "object") {
+      if (Object.prototype.hasOwnProperty.call(value, "super")) {
+        superTargets.set(value, { operation, steps: parent });
+      }
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(steps);
+}
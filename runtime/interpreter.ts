@@ -4,10 +4,47 @@
 
 import { loadRFile } from "./loader";
 import { createContext } from "./context";
+import { getUnresolvedMode } from "./resolver";
 import { executeSteps } from "./step-executor";
-import { RLangContext, RLangResult } from "../schema/types";
-
-// CRITICAL FIX #5: RCD delegation disabled to prevent circular calls
+import { HookName } from "./inheritance";
+import { flattenScope } from "./scope";
+import { SignatureError, checkInput, checkOutput } from "./signatures";
+import { enterFrame } from "./call-stack";
+import { checkRunAccess } from "./policy";
+import { noteRunFinished } from "./concerns";
+import {
+  ExecutionBudget,
+  ExecutionError,
+  startExecution,
+  whileRunning,
+} from "./execution-control";
+import { ErrorInfo, RLangError, addStepFrame, toErrorInfo } from "./errors";
+import {
+  ExecutionRecord,
+  claimSuspendedExecution,
+  completeExecution,
+  createCheckpoints,
+  failExecution,
+  findSuspendedExecution,
+  isJournalAvailable,
+  keepExecutionLease,
+  listExpiredPrompts,
+  openExecution,
+  reopenExecution,
+  suspendExecution,
+} from "./journal";
+import {
+  PromptAnswer,
+  checkAnswerer,
+  getPromptExecutionId,
+  isPromptSuspension,
+} from "./human-input";
+import { formatCodeFrame, formatLocation, getErrorLocation } from "./source-map";
+import { RLangContext, RLangFile, RLangResult } from "../schema/types";
+
+// CRITICAL FIX #5: RCD delegation disabled to prevent circular calls.
+// Loops like this one are now also caught by runtime/call-stack.ts, which
+// fails them with CALL_CYCLE and the path taken instead of hanging.
 let rcdFileResolver: Function | null = null;
 
 async function initRCD(): Promise<void> {
@@ -45,10 +82,212 @@ export interface RunRLangOptions {
   input?: any;
   context?: Partial<RLangContext>;
   clientId?: string;
+  signal?: AbortSignal; // Aborting stops the run at its next step
+  timeoutMs?: number;
+  budget?: ExecutionBudget; // See runtime/execution-control.ts
+  durable?: boolean; // Journal the run for resumeRLang, see runtime/journal.ts
 }
 
 // ENHANCED: Try RCD file resolution with FIXED operation name, fallback unchanged
-export async function runRLang(options: RunRLangOptions): Promise<RLangResult> {
+export function runRLang(options: RunRLangOptions): Promise<RLangResult> {
+  return executeRun(options);
+}
+
+/**
+ * Continue a durable run from its last checkpoint (see runtime/journal.ts),
+ * e.g. after the process running it restarted. Runs that already completed
+ * return their recorded result; runs another process is still executing
+ * fail with EXECUTION_LOCKED.
+ */
+export async function resumeRLang(
+  executionId: string,
+  options: Pick<RunRLangOptions, "signal" | "timeoutMs" | "budget"> = {},
+): Promise<RLangResult> {
+  let record: ExecutionRecord;
+  try {
+    record = await reopenExecution(executionId);
+  } catch (error) {
+    const errorInfo = toErrorInfo(error);
+    return {
+      success: false,
+      error: errorInfo.message,
+      errorCode: errorInfo.code,
+      errorInfo,
+      trace: [],
+      executionId,
+    };
+  }
+
+  if (record.status === "completed") {
+    return { success: true, result: record.output, trace: [], executionId };
+  }
+  // Waiting runs continue once their prompt is answered (answerPrompt)
+  if (record.status === "suspended" && record.prompt) {
+    return {
+      success: true,
+      trace: [],
+      executionId,
+      suspended: {
+        promptId: record.prompt.id,
+        to: record.prompt.to,
+        expiresAt: record.prompt.expiresAt,
+      },
+    };
+  }
+
+  console.log(
+    `♻️ Resuming ${record.file}:${record.operation} (${executionId}) after step ${record.stepIndex + 1}`,
+  );
+  return executeRun(
+    {
+      ...options,
+      file: record.file,
+      operation: record.operation,
+      input: record.input,
+      clientId: record.clientId,
+    },
+    record,
+  );
+}
+
+type ResumeOptions = Pick<RunRLangOptions, "signal" | "timeoutMs" | "budget">;
+
+/**
+ * Answer a waiting prompt.user (see runtime/human-input.ts) and resume its
+ * run at the step after the prompt, with the answer bound. Answers from
+ * anyone but the prompt's recipient, or from another room than the one it
+ * was posted to, fail with ACCESS_DENIED.
+ */
+export async function answerPrompt(
+  promptId: string,
+  choice: string,
+  options: ResumeOptions & {
+    user?: string;
+    userId?: string;
+    channel?: string;
+  } = {},
+): Promise<RLangResult> {
+  const { user, userId, channel, ...runOptions } = options;
+  const executionId = getPromptExecutionId(promptId);
+  try {
+    const record = await findSuspendedExecution(executionId, promptId);
+    if (!record?.prompt) {
+      throw new RLangError(
+        "PROMPT_NOT_FOUND",
+        `Prompt '${promptId}' is not waiting for an answer`,
+      );
+    }
+    checkAnswerer(record.prompt, { user, userId, channel });
+    const { choices } = record.prompt;
+    if (choices.length > 0 && !choices.includes(choice)) {
+      throw new RLangError(
+        "INVALID_INPUT",
+        `'${choice}' is not a choice of prompt '${promptId}' (${choices.join(", ")})`,
+      );
+    }
+
+    return await resumeSuspended(
+      record,
+      {
+        choice,
+        user: user ?? userId,
+        answered_at: new Date().toISOString(),
+        timed_out: false,
+      },
+      runOptions,
+    );
+  } catch (error) {
+    return toResumeFailure(error, executionId);
+  }
+}
+
+/**
+ * Resume runs whose prompts expired with the prompt's default choice. Runs
+ * waiting for a prompt without a default fail with EXECUTION_TIMEOUT.
+ */
+export async function resumeExpiredPrompts(): Promise<RLangResult[]> {
+  const results: RLangResult[] = [];
+  for (const promptId of await listExpiredPrompts()) {
+    const executionId = getPromptExecutionId(promptId);
+    try {
+      const record = await findSuspendedExecution(executionId, promptId);
+      if (!record?.prompt) continue;
+
+      if (record.prompt.default === undefined) {
+        if (!(await claimSuspendedExecution(executionId, promptId))) continue;
+        const error = new ExecutionError(
+          "EXECUTION_TIMEOUT",
+          `Prompt '${promptId}' expired without an answer or default`,
+        );
+        await failExecution(executionId, toErrorInfo(error));
+        results.push(toResumeFailure(error, executionId));
+        continue;
+      }
+
+      console.log(
+        `⏰ Prompt ${promptId} expired, choosing '${record.prompt.default}'`,
+      );
+      results.push(
+        await resumeSuspended(record, {
+          choice: record.prompt.default,
+          answered_at: new Date().toISOString(),
+          timed_out: true,
+        }),
+      );
+    } catch (error) {
+      results.push(toResumeFailure(error, executionId));
+    }
+  }
+  return results;
+}
+
+async function resumeSuspended(
+  record: ExecutionRecord,
+  answer: PromptAnswer,
+  options: ResumeOptions = {},
+): Promise<RLangResult> {
+  if (!(await claimSuspendedExecution(record.executionId, record.prompt!.id))) {
+    throw new RLangError(
+      "PROMPT_NOT_FOUND",
+      `Prompt '${record.prompt!.id}' was already answered`,
+    );
+  }
+
+  console.log(
+    `▶️ Resuming ${record.file}:${record.operation} (${record.executionId}) with '${answer.choice}'`,
+  );
+  return executeRun(
+    {
+      ...options,
+      file: record.file,
+      operation: record.operation,
+      input: record.input,
+      clientId: record.clientId,
+    },
+    record,
+    answer,
+  );
+}
+
+function toResumeFailure(error: unknown, executionId: string): RLangResult {
+  const errorInfo = toErrorInfo(error);
+  return {
+    success: false,
+    error: errorInfo.message,
+    errorCode: errorInfo.code,
+    errorInfo,
+    trace: [],
+    executionId,
+  };
+}
+
+// Runs and resumes a run; `resumeFrom` is the journal record to continue
+// from and `answer` the answer to the prompt it was suspended at
+async function executeRun(
+  options: RunRLangOptions,
+  resumeFrom?: ExecutionRecord,
+  answer?: PromptAnswer,
+): Promise<RLangResult> {
   // CRITICAL FIX #5: Comment out RCD initialization to prevent infinite recursion
   // await initRCD();
 
@@ -61,8 +300,22 @@ export async function runRLang(options: RunRLangOptions): Promise<RLangResult> {
   } = options;
 
   let resolvedFilePath = file;
+  let dispose = () => {};
+  let agentId: string | undefined;
+  let executionId = resumeFrom?.executionId; // Set for journaled runs only
+  let releaseLease = () => {};
+  const runStartedAt = Date.now();
 
   try {
+    // Runs started from a `run:` step get the caller's context, and with it
+    // the control of the run they belong to
+    const callStack = enterFrame(partialContext, {
+      kind: "run",
+      name: `${file}:${operation}`,
+    });
+    const execution = startExecution(options, partialContext?.control);
+    dispose = execution.dispose;
+
     // CRITICAL FIX #5: Comment out RCD file resolution to prevent infinite recursion
     // if (rcdFileResolver) {
     //   const rcdPath = await rcdFileResolver(file, {
@@ -98,41 +351,308 @@ export async function runRLang(options: RunRLangOptions): Promise<RLangResult> {
       }
     }
 
+    agentId = rData.self?.id;
+    const operationSteps = rData.operations?.[operation];
+    if (!operationSteps) {
+      throw new RLangError(
+        "OPERATION_NOT_FOUND",
+        `Operation '${operation}' not found in ${resolvedFilePath}`,
+      );
+    }
+
+    // Declared signatures (runtime/signatures.ts) check the caller's input
+    const checkedInput = checkInput(rData, operation, input);
+
     // UNCHANGED: Create context and execute
     const context = createContext({
       ...partialContext,
-      input,
+      input: checkedInput,
       clientId,
       agentId: rData.self?.id || "unknown",
       operation,
+      control: execution.control,
+      callStack,
+      ...(resumeFrom && {
+        memory: resumeFrom.memory,
+        metadata: { execution_id: resumeFrom.executionId },
+        role: resumeFrom.role,
+      }),
+      journal: undefined,
+      resumeCursor:
+        answer && resumeFrom?.resumePath
+          ? { path: [...resumeFrom.resumePath], answer }
+          : undefined,
     });
+    context.unresolved = getUnresolvedMode(rData);
+    checkRunAccess(rData, file, operation, context);
+
+    const checkpoints =
+      resumeFrom || isDurable(options, rData)
+        ? createCheckpoints(context.metadata!.execution_id, context, resumeFrom)
+        : undefined;
+    if (checkpoints) {
+      executionId = context.metadata!.execution_id as string;
+      context.journal = { executionId };
+      if (!resumeFrom) {
+        await openExecution(
+          {
+            executionId,
+            file,
+            operation,
+            input: checkedInput,
+            clientId: context.clientId,
+            agentId,
+            role: context.role,
+          },
+          context.memory,
+        );
+      }
+      releaseLease = keepExecutionLease(executionId);
+    }
 
-    const operationSteps = rData.operations?.[operation];
-    if (!operationSteps) {
-      throw new Error(
-        `Operation '${operation}' not found in ${resolvedFilePath}`,
+    const startedAt = Date.now();
+    const operationContext = {
+      input: checkedInput,
+      agent_id: context.agentId,
+      start_time: new Date(startedAt).toISOString(),
+    };
+    // A resumed run already started its operation before it was interrupted
+    if (!resumeFrom) {
+      await runLifecycleHook("before_operation", rData, context, {
+        current_operation: operation,
+        operation_context: operationContext,
+      });
+    }
+
+    let result;
+    try {
+      result = await whileRunning(
+        execution.control,
+        executeSteps(operationSteps, context, rData, checkpoints),
       );
+      checkOutput(rData, operation, result.output);
+    } catch (error) {
+      addStepFrame(error, operation);
+      if (isPromptSuspension(error)) throw error;
+      await runLifecycleHook("on_failure", rData, context, {
+        failed_operation: operation,
+        failure_error: error instanceof Error ? error.message : String(error),
+        failure_context: operationContext,
+        failure_severity: "error",
+        execution_time: Date.now() - startedAt,
+      });
+      throw error;
     }
 
-    const result = await executeSteps(operationSteps, context, rData);
+    if (executionId) {
+      await completeExecution(executionId, result.output);
+    }
 
+    await runLifecycleHook("after_operation", rData, result.context, {
+      completed_operation: operation,
+      operation_result: result.output,
+      operation_context: operationContext,
+      execution_time: Date.now() - startedAt,
+    });
+
+    noteRunFinished(Date.now() - runStartedAt, true);
     return {
       success: true,
       result: result.output,
       context: result.context,
       trace: result.trace,
+      executionId,
     };
-  } catch (error) {
+  } catch (caught) {
+    let error = caught;
+    if (isPromptSuspension(error) && executionId) {
+      try {
+        await suspendExecution(executionId, error);
+        console.log(
+          `⏸️ ${file}:${operation} waiting for ${error.prompt.to} (${error.prompt.id})`,
+        );
+        return {
+          success: true,
+          trace: [],
+          executionId,
+          suspended: {
+            promptId: error.prompt.id,
+            to: error.prompt.to,
+            expiresAt: error.prompt.expiresAt,
+          },
+        };
+      } catch (journalError) {
+        error = journalError;
+      }
+    }
+
+    noteRunFinished(Date.now() - runStartedAt, false);
+    const message = error instanceof Error ? error.message : String(error);
+    const errorInfo = toErrorInfo(error);
+    // Runs from `run:` steps share their caller's control: only the
+    // outermost run is recorded, once
+    if (!partialContext?.control) {
+      recordFailure({
+        file,
+        operation,
+        agentId,
+        clientId: clientId ?? partialContext?.clientId,
+        errorInfo,
+      });
+    }
+    if (executionId) {
+      await failExecution(executionId, errorInfo).catch((journalError) =>
+        console.warn(
+          `⚠️ Could not record failure of execution ${executionId}:`,
+          journalError instanceof Error ? journalError.message : journalError,
+        ),
+      );
+    }
+
+    if (error instanceof SignatureError) {
+      return {
+        success: false,
+        error: message,
+        errorCode: errorInfo.code,
+        errorInfo,
+        validationErrors: error.issues,
+        trace: [],
+        executionId,
+      };
+    }
+
+    const location = getErrorLocation(error);
+    if (!location) {
+      return {
+        success: false,
+        error: message,
+        errorCode: errorInfo.code,
+        errorInfo,
+        trace: [],
+        executionId,
+      };
+    }
+
+    const located = `${message} (at ${formatLocation(location)})`;
+    const frame = formatCodeFrame(location);
     return {
       success: false,
-      error: error instanceof Error ? error.message : String(error),
-      trace: [],
+      error: frame ? `${located}\n${frame}` : located,
+      errorCode: errorInfo.code,
+      errorInfo,
+      trace: [
+        {
+          step: operation,
+          error: message,
+          timestamp: new Date().toISOString(),
+          success: false,
+          location: formatLocation(location),
+          errorInfo,
+        },
+      ],
+      executionId,
     };
+  } finally {
+    releaseLease();
+    dispose();
+  }
+}
+
+// Top-level runs are durable when asked to be, or when their file declares
+// `self.durable: true`. Without a database they run unjournaled.
+let journalWarned = false;
+
+function isDurable(options: RunRLangOptions, rData: RLangFile): boolean {
+  const durable =
+    options.durable ??
+    (!options.context?.control && rData.self?.durable === true);
+  if (!durable) return false;
+  if (isJournalAvailable()) return true;
+
+  if (!journalWarned) {
+    journalWarned = true;
+    console.warn(
+      `⚠️ DATABASE_URL is not set: ${options.file} runs without the execution journal`,
+    );
+  }
+  return false;
+}
+
+// Failed top-level runs are written to agent_logs (event "operation_failed")
+// for the debug tooling when a database is configured. Fire-and-forget: logging
+// never delays or fails the run.
+let failureLogWarned = false;
+
+function recordFailure(failure: {
+  file: string;
+  operation: string;
+  agentId?: string;
+  clientId?: string;
+  errorInfo: ErrorInfo;
+}): void {
+  if (!process.env.DATABASE_URL) return;
+
+  const write = async () => {
+    const { db } = await import("../utils/db");
+    const { error } = await db.from("agent_logs").insert({
+      agent_id: failure.agentId ?? "unknown",
+      client_id: failure.clientId,
+      event: "operation_failed",
+      data: {
+        file: failure.file,
+        operation: failure.operation,
+        error: failure.errorInfo,
+      },
+      timestamp: new Date().toISOString(),
+      success: false,
+    });
+    if (error) throw error;
+  };
+
+  write().catch((error) => {
+    if (failureLogWarned) return;
+    failureLogWarned = true;
+    console.warn(
+      "⚠️ Could not record failed runs in agent_logs:",
+      error instanceof Error ? error.message : error,
+    );
+  });
+}
+
+// Lifecycle hooks (see runtime/inheritance.ts) run in a copy of the
+// operation's memory with the hook bindings added. A failing hook is logged
+// and never changes the operation's outcome. Hooks are bookkeeping outside
+// the run's budgets, so on_failure still runs after a timeout.
+async function runLifecycleHook(
+  hook: HookName,
+  rData: RLangFile,
+  context: RLangContext,
+  bindings: Record<string, any>,
+): Promise<void> {
+  const steps = rData.hooks?.[hook];
+  if (!steps || steps.length === 0) return;
+
+  try {
+    await executeSteps(
+      steps,
+      {
+        ...context,
+        memory: { ...flattenScope(context.memory), ...bindings },
+        control: undefined,
+        journal: undefined,
+      },
+      rData,
+    );
+  } catch (error) {
+    console.warn(
+      `⚠️ ${hook} hook failed for ${context.operation}:`,
+      error instanceof Error ? error.message : error,
+    );
   }
 }
 
 // ENHANCED: Intelligent path resolution with better logging
-async function resolveIntelligentPath(
+export async function resolveIntelligentPath(
   file: string,
   clientId?: string,
 ): Promise<string | null> {
@@ -173,6 +693,7 @@ export async function runSystemOperation(
     operation,
     input,
     clientId,
+    context: { role: "system" },
   });
 }
 
@@ -0,0 +1,386 @@
+// runtime/journal.ts
+// Execution journal: durable runs that survive a process restart
+//
+//   const { executionId } = await runRLang({ file: "r/agents/foo.r", durable: true });
+//   // ...the process restarts mid-run...
+//   await resumeRLang(executionId);
+//
+// Durable runs (the `durable` option, or `self.durable: true` in the .r
+// file) record their memory and step pointer in Postgres
+// (migrations/006_execution_journal.sql) when they start and after each
+// top-level step of the operation. Resuming restores the memory of the last
+// checkpoint and continues with the step after it, so completed steps and
+// their side effects are not repeated. The step that was running when the
+// process stopped runs again from its start.
+//
+// Runs waiting for a prompt.user answer are suspended here too, see
+// runtime/human-input.ts.
+//
+// A running run is leased to the process executing it
+// (migrations/011_execution_lease.sql), which renews the lease while the
+// run lasts. Resuming claims the lease first, so a run another process is
+// still executing fails with EXECUTION_LOCKED instead of running twice.
+//
+// Memory is stored as JSON: functions and circular references are dropped.
+
+import { randomUUID } from "crypto";
+import { flattenScope } from "./scope";
+import { ErrorInfo, RLangError } from "./errors";
+import { PendingPrompt, PromptSuspension, StepPointer } from "./human-input";
+import { RLangContext } from "../schema/types";
+
+export type ExecutionStatus = "running" | "suspended" | "completed" | "failed";
+
+export interface ExecutionRecord {
+  executionId: string;
+  file: string;
+  operation: string;
+  input: any;
+  clientId?: string;
+  agentId?: string;
+  role?: string; // Caller's role (runtime/policy.ts), kept across resumes
+  status: ExecutionStatus;
+  stepIndex: number; // Last completed top-level step, -1 before the first
+  memory: Record<string, any>;
+  output: any; // Output of that step; the operation's result once completed
+  error?: ErrorInfo;
+  resumePath?: StepPointer[]; // Suspended runs: where their prompt is
+  prompt?: PendingPrompt;
+}
+
+// How executeSteps runs the top-level steps of a durable run
+export interface StepCheckpoints {
+  startAt: number; // Index of the first step to execute
+  output: any; // Output of the step before it
+  onStepComplete: (index: number, step: string, output: any) => Promise<void>;
+}
+
+// How long a run stays leased without a renewal, and how often the process
+// running it renews the lease
+const LEASE_MS = 2 * 60 * 1000;
+const LEASE_RENEW_MS = 30 * 1000;
+const LEASE_OWNER = `${process.pid}:${randomUUID()}`;
+
+function leaseExpiry(): Date {
+  return new Date(Date.now() + LEASE_MS);
+}
+
+export function isJournalAvailable(): boolean {
+  return !!process.env.DATABASE_URL;
+}
+
+/**
+ * Record the start of a durable run, with its memory before the first step.
+ * The run is leased to this process.
+ */
+export async function openExecution(
+  record: Pick<
+    ExecutionRecord,
+    | "executionId"
+    | "file"
+    | "operation"
+    | "input"
+    | "clientId"
+    | "agentId"
+    | "role"
+  >,
+  memory: Record<string, any>,
+): Promise<void> {
+  await journalQuery(
+    `INSERT INTO rlang_executions
+       (execution_id, file, operation, input, client_id, agent_id, caller_role, memory,
+        lease_owner, locked_until)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+    [
+      record.executionId,
+      record.file,
+      record.operation,
+      toJsonText(record.input),
+      record.clientId ?? null,
+      record.agentId ?? null,
+      record.role ?? null,
+      toJsonText(flattenScope(memory)),
+      LEASE_OWNER,
+      leaseExpiry(),
+    ],
+  );
+}
+
+/**
+ * Renew this process's lease on a running run until the returned function
+ * is called.
+ */
+export function keepExecutionLease(executionId: string): () => void {
+  const timer = setInterval(() => {
+    journalQuery(
+      `UPDATE rlang_executions
+       SET locked_until = $3
+       WHERE execution_id = $1 AND lease_owner = $2 AND status = 'running'`,
+      [executionId, LEASE_OWNER, leaseExpiry()],
+    ).catch((error) =>
+      console.warn(
+        `⚠️ Could not renew the lease of execution ${executionId}:`,
+        error instanceof Error ? error.message : error,
+      ),
+    );
+  }, LEASE_RENEW_MS);
+  timer.unref?.();
+  return () => clearInterval(timer);
+}
+
+/**
+ * Checkpoints for the top-level steps of `context`'s run. When resuming,
+ * `from` is the journal record the run continues from.
+ */
+export function createCheckpoints(
+  executionId: string,
+  context: RLangContext,
+  from?: ExecutionRecord,
+): StepCheckpoints {
+  return {
+    startAt: from ? from.stepIndex + 1 : 0,
+    output: from?.output ?? null,
+    onStepComplete: (index, step, output) =>
+      journalQuery(
+        `WITH logged AS (
+           INSERT INTO rlang_execution_steps (execution_id, step_index, step, output)
+           VALUES ($1, $2, $3, $4)
+           ON CONFLICT (execution_id, step_index)
+           DO UPDATE SET step = EXCLUDED.step, output = EXCLUDED.output, completed_at = NOW()
+         )
+         UPDATE rlang_executions
+         SET step_index = $2, memory = $5, output = $4, updated_at = NOW()
+         WHERE execution_id = $1`,
+        [
+          executionId,
+          index,
+          step,
+          toJsonText(output),
+          toJsonText(flattenScope(context.memory)),
+        ],
+      ).then(() => undefined),
+  };
+}
+
+export async function completeExecution(
+  executionId: string,
+  result: any,
+): Promise<void> {
+  await journalQuery(
+    `UPDATE rlang_executions
+     SET status = 'completed', output = $2, error = NULL, locked_until = NULL,
+         updated_at = NOW()
+     WHERE execution_id = $1`,
+    [executionId, toJsonText(result)],
+  );
+}
+
+export async function failExecution(
+  executionId: string,
+  error: ErrorInfo,
+): Promise<void> {
+  await journalQuery(
+    `UPDATE rlang_executions
+     SET status = 'failed', error = $2, locked_until = NULL, updated_at = NOW()
+     WHERE execution_id = $1`,
+    [executionId, toJsonText(error)],
+  );
+}
+
+/**
+ * Record where a run stopped to wait for a prompt, with its memory there.
+ */
+export async function suspendExecution(
+  executionId: string,
+  suspension: PromptSuspension,
+): Promise<void> {
+  await journalQuery(
+    `UPDATE rlang_executions
+     SET status = 'suspended', resume_path = $2, memory = $3, prompt = $4,
+         expires_at = $5, locked_until = NULL, updated_at = NOW()
+     WHERE execution_id = $1`,
+    [
+      executionId,
+      toJsonText(suspension.path),
+      toJsonText(suspension.memory),
+      toJsonText(suspension.prompt),
+      suspension.prompt.expiresAt,
+    ],
+  );
+}
+
+/**
+ * Claim an unfinished run for this process, mark it as running again and
+ * return its record. Throws EXECUTION_NOT_FOUND for unknown ids and
+ * EXECUTION_LOCKED while another process holds its lease; completed and
+ * suspended runs are returned as they are.
+ */
+export async function reopenExecution(
+  executionId: string,
+): Promise<ExecutionRecord> {
+  const [claimed] = await journalQuery(
+    `UPDATE rlang_executions
+     SET status = 'running', resume_count = resume_count + 1,
+         lease_owner = $2, locked_until = $3,
+         updated_at = NOW()
+     WHERE execution_id = $1 AND status IN ('running', 'failed')
+       AND (locked_until IS NULL OR locked_until < NOW())
+     RETURNING *`,
+    [executionId, LEASE_OWNER, leaseExpiry()],
+  );
+  if (claimed) return toExecutionRecord(claimed);
+
+  const [row] = await journalQuery(
+    `SELECT * FROM rlang_executions WHERE execution_id = $1`,
+    [executionId],
+  );
+  if (!row) {
+    throw new RLangError(
+      "EXECUTION_NOT_FOUND",
+      `No journaled execution '${executionId}'`,
+    );
+  }
+  if (row.status === "running" || row.status === "failed") {
+    throw new RLangError(
+      "EXECUTION_LOCKED",
+      `Execution '${executionId}' is running in another process (leased until ${new Date(row.locked_until).toISOString()})`,
+    );
+  }
+  return toExecutionRecord(row);
+}
+
+/**
+ * The suspended run waiting for prompt `promptId`, or null if there is
+ * none (unknown, already answered or superseded).
+ */
+export async function findSuspendedExecution(
+  executionId: string,
+  promptId: string,
+): Promise<ExecutionRecord | null> {
+  const [row] = await journalQuery(
+    `SELECT * FROM rlang_executions
+     WHERE execution_id = $1 AND status = 'suspended' AND prompt->>'id' = $2`,
+    [executionId, promptId],
+  );
+  return row ? toExecutionRecord(row) : null;
+}
+
+/**
+ * Take a suspended run out of waiting and lease it to this process so it
+ * can be resumed. False if another answer (or its timeout) got there first.
+ */
+export async function claimSuspendedExecution(
+  executionId: string,
+  promptId: string,
+): Promise<boolean> {
+  const rows = await journalQuery(
+    `UPDATE rlang_executions
+     SET status = 'running', resume_count = resume_count + 1, expires_at = NULL,
+         lease_owner = $3, locked_until = $4,
+         updated_at = NOW()
+     WHERE execution_id = $1 AND status = 'suspended' AND prompt->>'id' = $2
+     RETURNING execution_id`,
+    [executionId, promptId, LEASE_OWNER, leaseExpiry()],
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Ids of the prompts whose timeout has passed, oldest first.
+ */
+export async function listExpiredPrompts(): Promise<string[]> {
+  const rows = await journalQuery(
+    `SELECT prompt->>'id' AS prompt_id
+     FROM rlang_executions
+     WHERE status = 'suspended' AND expires_at <= NOW()
+     ORDER BY expires_at`,
+  );
+  return rows.map((row) => row.prompt_id);
+}
+
+function toExecutionRecord(row: any): ExecutionRecord {
+  return {
+    executionId: row.execution_id,
+    file: row.file,
+    operation: row.operation,
+    input: row.input ?? {},
+    clientId: row.client_id ?? undefined,
+    agentId: row.agent_id ?? undefined,
+    role: row.caller_role ?? undefined,
+    status: row.status,
+    stepIndex: row.step_index,
+    memory: row.memory ?? {},
+    output: row.output,
+    error: row.error ?? undefined,
+    resumePath: row.resume_path ?? undefined,
+    prompt: row.prompt ?? undefined,
+  };
+}
+
+/**
+ * Durable runs that neither completed nor failed and that no process holds
+ * the lease of, oldest first: the ones a restarted process may want to
+ * resume.
+ */
+export async function listUnfinishedExecutions(): Promise<
+  Array<{ executionId: string; file: string; operation: string; updatedAt: string }>
+> {
+  const rows = await journalQuery(
+    `SELECT execution_id, file, operation, updated_at
+     FROM rlang_executions
+     WHERE status = 'running' AND (locked_until IS NULL OR locked_until < NOW())
+     ORDER BY updated_at`,
+  );
+  return rows.map((row) => ({
+    executionId: row.execution_id,
+    file: row.file,
+    operation: row.operation,
+    updatedAt: new Date(row.updated_at).toISOString(),
+  }));
+}
+
+async function journalQuery(sql: string, params?: any[]): Promise<any[]> {
+  let failure: unknown;
+  try {
+    const { db } = await import("../utils/db");
+    const { data, error } = await db.query(sql, params);
+    if (!error) return data ?? [];
+    failure = error;
+  } catch (error) {
+    failure = error;
+  }
+
+  const detail = failure instanceof Error ? failure.message : String(failure);
+  throw new RLangError("JOURNAL_ERROR", `Execution journal: ${detail}`, {
+    cause: failure,
+    retryable: true,
+  });
+}
+
+// JSON text for a jsonb parameter (pg would send arrays as Postgres arrays)
+function toJsonText(value: any): string {
+  return JSON.stringify(toJsonValue(value, []) ?? null);
+}
+
+function toJsonValue(value: any, ancestors: object[]): any {
+  if (value === null) return null;
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value !== "object") {
+    return typeof value === "function" || typeof value === "symbol"
+      ? undefined
+      : value;
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (ancestors.includes(value)) return undefined;
+
+  const path = [...ancestors, value];
+  if (Array.isArray(value)) {
+    return value.map((item) => toJsonValue(item, path) ?? null);
+  }
+  const result: Record<string, any> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const converted = toJsonValue(item, path);
+    if (converted !== undefined) result[key] = converted;
+  }
+  return result;
+}
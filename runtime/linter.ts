@@ -0,0 +1,1623 @@
+// runtime/linter.ts
+// Static schema validation and linting for .r files
+// Catches step typos, dangling references and unbindable variables before runtime
+
+import { readFile } from "fs/promises";
+import { parse as parseYAML } from "yaml";
+import { RLangFile } from "../schema/types";
+import { getStepKey, isBuiltinStep, isStepModifier } from "./step-keys";
+import { locatePath, parseWithPositions } from "./source-map";
+import { parseRetryPolicy } from "./retry";
+import { collectVariablePaths, findTemplates, parseExpression } from "./expression";
+import { getScopingMode } from "./scope";
+import { ImportSpec, parseImports, resolveImportPath } from "./imports";
+import { parseSignatures } from "./signatures";
+import { isActionAllowed } from "./policy";
+import { parseCron } from "./cron";
+import { isValidTopic } from "./topics";
+import {
+  HOOK_NAMES,
+  getInheritanceSources,
+  validateHooks,
+} from "./inheritance";
+
+export type LintSeverity = "error" | "warning";
+
+export interface LintIssue {
+  severity: LintSeverity;
+  rule: string;
+  message: string;
+  file: string;
+  line?: number;
+  column?: number;
+  path: Array<string | number>;
+}
+
+export interface LintResult {
+  file: string;
+  issues: LintIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+export interface LintOptions {
+  // Module functions known to exist, as "module.function"
+  knownFunctions?: string[];
+  // Resolved `run:` targets: file reference -> operations it exports (null if missing)
+  runTargets?: Record<string, string[] | null>;
+  // Resolved `imports:`: namespace -> operations of the imported file (null if missing)
+  imports?: Record<string, string[] | null>;
+  // Resolved `extends:`/`mixins:`: file -> operations it provides, including
+  // its own inherited ones (null if missing)
+  inherited?: Record<string, string[] | null>;
+}
+
+// Roots that every execution context provides (see runtime/context.ts)
+const CONTEXT_ROOTS = new Set([
+  "input",
+  "memory",
+  "context",
+  "metadata",
+  "agentId",
+  "clientId",
+  "operation",
+  "timestamp",
+  "trace",
+  "user",
+  "channel",
+  "execution_id",
+  "client_id",
+  "agent_id",
+  "item",
+  "index",
+  "error",
+]);
+
+// Bound while lifecycle hooks run (see runLifecycleHook in runtime/interpreter.ts)
+const HOOK_BINDINGS = [
+  "current_operation",
+  "operation_context",
+  "completed_operation",
+  "operation_result",
+  "execution_time",
+  "failed_operation",
+  "failure_error",
+  "failure_context",
+  "failure_severity",
+];
+
+// Global namespaces that expressions may reference without binding them
+const EXPRESSION_GLOBALS = new Set([
+  "Date",
+  "Math",
+  "JSON",
+  "Object",
+  "Array",
+  "String",
+  "Number",
+]);
+
+/**
+ * Lint a .r file on disk, resolving module functions and `run:` targets
+ * against the function registry and the filesystem.
+ */
+export async function lintRLangFile(
+  filePath: string,
+  options: LintOptions = {},
+): Promise<LintResult> {
+  const content = await readFile(filePath, "utf-8");
+
+  const { rFile } = parseForLint(content, filePath);
+  const knownFunctions =
+    options.knownFunctions ?? (await collectKnownFunctions(rFile));
+  const runTargets = options.runTargets ?? (await resolveRunTargets(rFile));
+  const imports =
+    options.imports ?? (await resolveImportTargets(rFile, filePath));
+  const inherited =
+    options.inherited ?? (await resolveInheritedTargets(rFile, filePath));
+
+  return summarize(
+    filePath,
+    lintRLangSource(content, filePath, {
+      knownFunctions,
+      runTargets,
+      imports,
+      inherited,
+    }),
+  );
+}
+
+/**
+ * Lint already-read source. Module, `run:`, import and inheritance checks are
+ * skipped unless the caller supplies `knownFunctions` / `runTargets` /
+ * `imports` / `inherited`.
+ */
+export function lintRLangSource(
+  content: string,
+  filePath: string,
+  options: LintOptions = {},
+): LintIssue[] {
+  const { rFile, locate, parseErrors } = parseForLint(content, filePath);
+  const issues: LintIssue[] = [];
+
+  const report = (
+    severity: LintSeverity,
+    rule: string,
+    path: Array<string | number>,
+    message: string,
+  ) => {
+    issues.push({ severity, rule, message, file: filePath, path, ...locate(path) });
+  };
+
+  for (const parseError of parseErrors) {
+    issues.push({
+      severity: "error",
+      rule: "parse-error",
+      message: parseError.message,
+      file: filePath,
+      path: [],
+      line: parseError.line,
+      column: parseError.column,
+    });
+  }
+  if (parseErrors.length > 0) return issues;
+
+  if (!rFile || typeof rFile !== "object" || Array.isArray(rFile)) {
+    report("error", "file-shape", [], "File must be a mapping");
+    return issues;
+  }
+
+  lintTopLevel(rFile, report);
+
+  if (!rFile.operations || typeof rFile.operations !== "object") {
+    return issues;
+  }
+
+  let namespaces: string[] = [];
+  try {
+    namespaces = parseImports(rFile).map((spec) => spec.namespace);
+  } catch (error) {
+    report(
+      "error",
+      "import-shape",
+      ["imports"],
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+  for (const namespace of namespaces) {
+    if (options.imports?.[namespace] === null) {
+      report(
+        "error",
+        "unresolved-import",
+        ["imports", namespace],
+        `Import '${namespace}' does not resolve to a readable .r file`,
+      );
+    }
+  }
+
+  let inherited: Set<string> | null = new Set();
+  let sources: string[] = [];
+  try {
+    sources = getInheritanceSources(rFile);
+  } catch {
+    // Reported as inheritance-shape
+  }
+  for (const source of sources) {
+    const operations = options.inherited?.[source];
+    if (operations === null) {
+      report(
+        "error",
+        "unresolved-inheritance",
+        [rFile.extends === source ? "extends" : "mixins"],
+        `Inherited file '${source}' does not resolve to a readable .r file`,
+      );
+    } else if (operations === undefined) {
+      inherited = null; // Unknown without options.inherited
+    } else {
+      operations.forEach((name) => inherited?.add(name));
+    }
+  }
+
+  try {
+    for (const operation of Object.keys(parseSignatures(rFile))) {
+      if (
+        !rFile.operations?.[operation] &&
+        inherited &&
+        !inherited.has(operation)
+      ) {
+        report(
+          "error",
+          "unknown-operation",
+          ["signatures", operation],
+          `Signature for '${operation}' has no matching operation`,
+        );
+      }
+    }
+  } catch (error) {
+    report(
+      "error",
+      "signature-shape",
+      ["signatures"],
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+
+  const bindings = collectBindings(rFile, [...(inherited ?? [])]);
+  const knownFunctions = options.knownFunctions
+    ? new Set(options.knownFunctions)
+    : null;
+
+  const walker: StepWalker = {
+    rFile,
+    report,
+    bindings,
+    knownFunctions,
+    runTargets: options.runTargets ?? null,
+    namespaces: new Set(namespaces),
+    imports: options.imports ?? null,
+    inherited,
+  };
+
+  for (const [opName, steps] of Object.entries(rFile.operations)) {
+    if (!Array.isArray(steps)) continue;
+    lintSteps(steps, ["operations", opName], { ...walker, operation: opName });
+  }
+
+  for (const name of HOOK_NAMES) {
+    if (Array.isArray(rFile.hooks?.[name])) {
+      lintSteps(rFile.hooks[name], ["hooks", name], {
+        ...walker,
+        noWait: "hooks",
+      });
+    }
+  }
+
+  if (rFile.concern && Array.isArray(rFile.concern.action)) {
+    lintSteps(rFile.concern.action, ["concern", "action"], {
+      ...walker,
+      noWait: "concern actions",
+    });
+  }
+
+  return issues;
+}
+
+export function summarize(file: string, issues: LintIssue[]): LintResult {
+  return {
+    file,
+    issues,
+    errorCount: issues.filter((i) => i.severity === "error").length,
+    warningCount: issues.filter((i) => i.severity === "warning").length,
+  };
+}
+
+export function formatLintIssue(issue: LintIssue): string {
+  const position =
+    issue.line !== undefined ? `:${issue.line}:${issue.column ?? 1}` : "";
+  return `${issue.file}${position} ${issue.severity} [${issue.rule}] ${issue.message}`;
+}
+
+type Reporter = (
+  severity: LintSeverity,
+  rule: string,
+  path: Array<string | number>,
+  message: string,
+) => void;
+
+interface StepWalker {
+  rFile: RLangFile;
+  report: Reporter;
+  bindings: Set<string>;
+  knownFunctions: Set<string> | null;
+  runTargets: Record<string, string[] | null> | null;
+  namespaces: Set<string>;
+  imports: Record<string, string[] | null> | null;
+  // Operations provided by extends/mixins; null if they could not be resolved
+  inherited: Set<string> | null;
+  operation?: string; // Enclosing operation, for `super`
+  inLoop?: boolean;
+  // Where waiting prompt.user steps cannot suspend (runtime/human-input.ts)
+  noWait?: string;
+}
+
+function parseForLint(content: string, filePath: string) {
+  const { data, positions, errors } = parseWithPositions(content, filePath);
+
+  // Later YAML errors usually cascade from the first one, so report only that
+  const parseErrors = errors.slice(0, 1);
+
+  const locate = (path: Array<string | number>) => {
+    const location = locatePath(positions, path);
+    return location ? { line: location.line, column: location.column } : {};
+  };
+
+  return { rFile: data, locate, parseErrors };
+}
+
+function lintTopLevel(rFile: any, report: Reporter): void {
+  if (!rFile.operations || typeof rFile.operations !== "object") {
+    report("error", "missing-operations", [], "Missing 'operations' section");
+  } else {
+    for (const [opName, steps] of Object.entries(rFile.operations)) {
+      if (!Array.isArray(steps)) {
+        report(
+          "error",
+          "operation-shape",
+          ["operations", opName],
+          `Operation '${opName}' must be an array of steps`,
+        );
+      }
+    }
+  }
+
+  if (rFile.self !== undefined) {
+    if (!rFile.self || typeof rFile.self.id !== "string") {
+      report("error", "self-id", ["self"], "self.id must be a string");
+    }
+    try {
+      getScopingMode(rFile);
+    } catch (error) {
+      report(
+        "error",
+        "scoping-mode",
+        ["self", "scoping"],
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+    if (![undefined, "keep", "error"].includes(rFile.self?.unresolved)) {
+      report(
+        "error",
+        "unresolved-mode",
+        ["self", "unresolved"],
+        "self.unresolved must be 'keep' or 'error'",
+      );
+    }
+    if (![undefined, true, false].includes(rFile.self?.durable)) {
+      report(
+        "error",
+        "durable-flag",
+        ["self", "durable"],
+        "self.durable must be true or false",
+      );
+    }
+  }
+
+  try {
+    getInheritanceSources(rFile);
+    validateHooks(rFile);
+  } catch (error) {
+    report(
+      "error",
+      "inheritance-shape",
+      [rFile.hooks !== undefined ? "hooks" : "extends"],
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+
+  if (rFile.concern !== undefined) {
+    const concern = rFile.concern || {};
+    if (typeof concern.if !== "string") {
+      report("error", "concern-shape", ["concern"], "concern.if must be a string");
+    }
+    if (!Array.isArray(concern.action)) {
+      report(
+        "error",
+        "concern-shape",
+        ["concern"],
+        "concern.action must be an array",
+      );
+    }
+    if (typeof concern.priority !== "number") {
+      report(
+        "error",
+        "concern-shape",
+        ["concern"],
+        "concern.priority must be a number",
+      );
+    }
+    if (
+      concern.cooldown_ms !== undefined &&
+      !(typeof concern.cooldown_ms === "number" && concern.cooldown_ms >= 0)
+    ) {
+      report(
+        "error",
+        "concern-shape",
+        ["concern", "cooldown_ms"],
+        "concern.cooldown_ms must be a non-negative number",
+      );
+    }
+  }
+
+  if (rFile.aam !== undefined) {
+    lintAam(rFile.aam, report);
+  }
+
+  if (rFile.schedule !== undefined) {
+    lintSchedule(rFile, report);
+  }
+
+  if (rFile.on !== undefined) {
+    lintSubscriptions(rFile, report);
+  }
+
+  const webhook = rFile.incoming?.webhook;
+  if (webhook) {
+    for (const field of ["path", "method", "operation"]) {
+      if (typeof webhook[field] !== "string") {
+        report(
+          "error",
+          "webhook-shape",
+          ["incoming", "webhook"],
+          `incoming.webhook.${field} must be a string`,
+        );
+      }
+    }
+    if (
+      typeof webhook.method === "string" &&
+      !["GET", "POST", "PUT", "DELETE"].includes(webhook.method.toUpperCase())
+    ) {
+      report(
+        "error",
+        "webhook-shape",
+        ["incoming", "webhook", "method"],
+        "incoming.webhook.method must be GET, POST, PUT or DELETE",
+      );
+    }
+    if (typeof webhook.path === "string" && !webhook.path.startsWith("/")) {
+      report(
+        "error",
+        "webhook-shape",
+        ["incoming", "webhook", "path"],
+        "incoming.webhook.path must start with /",
+      );
+    }
+    lintWebhookAuth(webhook.auth, report);
+    if (
+      typeof webhook.operation === "string" &&
+      rFile.operations &&
+      !rFile.operations[webhook.operation] &&
+      !rFile.extends &&
+      !rFile.mixins
+    ) {
+      report(
+        "error",
+        "unknown-operation",
+        ["incoming", "webhook", "operation"],
+        `incoming.webhook.operation '${webhook.operation}' is not defined in this file`,
+      );
+    }
+  }
+}
+
+// incoming.webhook.auth (server/agent-routes.ts)
+function lintWebhookAuth(auth: any, report: Reporter): void {
+  const path = ["incoming", "webhook", "auth"];
+  if (auth === undefined) {
+    report(
+      "warning",
+      "webhook-auth",
+      ["incoming", "webhook"],
+      "incoming.webhook has no auth: it needs the bearer token in RLANG_WEBHOOK_SECRET (declare auth.type 'none' for an open route)",
+    );
+    return;
+  }
+  if (!auth || !["bearer", "api_key", "none"].includes(auth.type)) {
+    report(
+      "error",
+      "webhook-auth",
+      path,
+      "incoming.webhook.auth.type must be 'bearer', 'api_key' or 'none'",
+    );
+    return;
+  }
+  for (const field of ["header", "secret_env", "role"]) {
+    if (auth[field] !== undefined && typeof auth[field] !== "string") {
+      report(
+        "error",
+        "webhook-auth",
+        [...path, field],
+        `incoming.webhook.auth.${field} must be a string`,
+      );
+    }
+  }
+  if (auth.type === "none" && ![undefined, "user"].includes(auth.role)) {
+    report(
+      "error",
+      "webhook-auth",
+      [...path, "role"],
+      "incoming.webhook.auth.role of an open route must be 'user'",
+    );
+  }
+}
+
+// The `schedule` section (runtime/scheduler.ts)
+function lintSchedule(rFile: any, report: Reporter): void {
+  const schedule = rFile.schedule;
+  if (!schedule || typeof schedule !== "object" || Array.isArray(schedule)) {
+    report(
+      "error",
+      "schedule-shape",
+      ["schedule"],
+      "schedule must be a mapping",
+    );
+    return;
+  }
+
+  for (const [operation, spec] of Object.entries<any>(schedule)) {
+    const path = ["schedule", operation];
+    if (!spec || typeof spec !== "object" || Array.isArray(spec)) {
+      report(
+        "error",
+        "schedule-shape",
+        path,
+        `schedule.${operation} must be a mapping`,
+      );
+      continue;
+    }
+    if ((spec.cron === undefined) === (spec.every_ms === undefined)) {
+      report(
+        "error",
+        "schedule-shape",
+        path,
+        `schedule.${operation} needs either cron or every_ms`,
+      );
+    }
+    if (spec.cron !== undefined) {
+      try {
+        parseCron(String(spec.cron));
+      } catch (error) {
+        report(
+          "error",
+          "schedule-shape",
+          [...path, "cron"],
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    }
+    if (
+      spec.every_ms !== undefined &&
+      !(typeof spec.every_ms === "number" && spec.every_ms >= 1000)
+    ) {
+      report(
+        "error",
+        "schedule-shape",
+        [...path, "every_ms"],
+        `schedule.${operation}.every_ms must be a number of at least 1000`,
+      );
+    }
+    if (
+      spec.timeout_ms !== undefined &&
+      !(typeof spec.timeout_ms === "number" && spec.timeout_ms > 0)
+    ) {
+      report(
+        "error",
+        "schedule-shape",
+        [...path, "timeout_ms"],
+        `schedule.${operation}.timeout_ms must be a positive number`,
+      );
+    }
+    if (spec.catch_up !== undefined && typeof spec.catch_up !== "boolean") {
+      report(
+        "error",
+        "schedule-shape",
+        [...path, "catch_up"],
+        `schedule.${operation}.catch_up must be true or false`,
+      );
+    }
+    if (
+      rFile.operations &&
+      !rFile.operations[operation] &&
+      !rFile.extends &&
+      !rFile.mixins
+    ) {
+      report(
+        "error",
+        "unknown-operation",
+        path,
+        `scheduled operation '${operation}' is not defined in this file`,
+      );
+    }
+  }
+}
+
+// The `on` subscriptions (runtime/events.ts)
+function lintSubscriptions(rFile: any, report: Reporter): void {
+  const on = rFile.on;
+  if (!on || typeof on !== "object" || Array.isArray(on)) {
+    report(
+      "error",
+      "subscription-shape",
+      ["on"],
+      "on must map topic patterns to operations",
+    );
+    return;
+  }
+
+  for (const [pattern, handler] of Object.entries<any>(on)) {
+    const path = ["on", pattern];
+    if (!isValidTopic(pattern, true)) {
+      report(
+        "error",
+        "event-topic",
+        path,
+        `'${pattern}' is not a valid topic pattern (dot-separated names, * or #)`,
+      );
+    }
+    const operation =
+      typeof handler === "string" ? handler : handler?.operation;
+    if (typeof operation !== "string") {
+      report(
+        "error",
+        "subscription-shape",
+        path,
+        `on.${pattern} must be an operation name or { operation, max_attempts? }`,
+      );
+      continue;
+    }
+    if (
+      typeof handler === "object" &&
+      handler.max_attempts !== undefined &&
+      !(Number.isInteger(handler.max_attempts) && handler.max_attempts >= 1)
+    ) {
+      report(
+        "error",
+        "subscription-shape",
+        [...path, "max_attempts"],
+        `on.${pattern}.max_attempts must be a positive integer`,
+      );
+    }
+    if (
+      rFile.operations &&
+      !rFile.operations[operation] &&
+      !rFile.extends &&
+      !rFile.mixins
+    ) {
+      report(
+        "error",
+        "unknown-operation",
+        path,
+        `event handler '${operation}' is not defined in this file`,
+      );
+    }
+  }
+}
+
+// The `aam` access model (runtime/policy.ts)
+function lintAam(aam: any, report: Reporter): void {
+  if (!aam || typeof aam !== "object" || Array.isArray(aam)) {
+    report("error", "aam-shape", ["aam"], "aam must be a mapping");
+    return;
+  }
+  if (aam.require_role !== undefined && typeof aam.require_role !== "string") {
+    report(
+      "error",
+      "aam-shape",
+      ["aam", "require_role"],
+      "aam.require_role must be a string",
+    );
+  }
+  for (const field of ["allow_roles", "allow_actions", "restrict_clients"]) {
+    if (
+      aam[field] !== undefined &&
+      !(
+        Array.isArray(aam[field]) &&
+        aam[field].every((entry: unknown) => typeof entry === "string")
+      )
+    ) {
+      report(
+        "error",
+        "aam-shape",
+        ["aam", field],
+        `aam.${field} must be an array of strings`,
+      );
+    }
+  }
+  for (const field of ["client_immutable", "system_managed"]) {
+    if (![undefined, true, false].includes(aam[field])) {
+      report(
+        "error",
+        "aam-shape",
+        ["aam", field],
+        `aam.${field} must be true or false`,
+      );
+    }
+  }
+}
+
+// Steps the file's own aam.allow_actions would deny
+function lintAamAction(
+  action: string,
+  path: Array<string | number>,
+  walker: StepWalker,
+): void {
+  const allowActions = walker.rFile.aam?.allow_actions;
+  if (!Array.isArray(allowActions) || isActionAllowed(allowActions, action)) {
+    return;
+  }
+  walker.report(
+    "warning",
+    "aam-action",
+    path,
+    `'${action}' is not allowed by aam.allow_actions`,
+  );
+}
+
+function lintSteps(
+  steps: unknown,
+  path: Array<string | number>,
+  walker: StepWalker,
+): void {
+  if (!Array.isArray(steps)) {
+    walker.report("error", "steps-shape", path, "Expected an array of steps");
+    return;
+  }
+  steps.forEach((step, index) => lintStep(step, [...path, index], walker));
+}
+
+function lintStep(
+  step: unknown,
+  path: Array<string | number>,
+  walker: StepWalker,
+): void {
+  const { report } = walker;
+
+  if (typeof step === "string") {
+    if (step === "super") lintSuper(path, walker);
+    lintTemplates(step, path, walker);
+    return;
+  }
+
+  if (!step || typeof step !== "object" || Array.isArray(step)) {
+    report("error", "step-shape", path, "Step must be a string or a mapping");
+    return;
+  }
+
+  const keys = Object.keys(step);
+  if (keys.length === 0) {
+    report("error", "step-shape", path, "Step is empty");
+    return;
+  }
+
+  const stepKey = getStepKey(step as Record<string, any>);
+  const value = (step as Record<string, any>)[stepKey];
+  const stepPath = [...path, stepKey];
+
+  const ignored = keys.filter((k) => k !== stepKey && !isStepModifier(k));
+  if (ignored.length > 0) {
+    report(
+      "warning",
+      "ignored-keys",
+      [...path, ignored[0]],
+      `Keys ${ignored.map((k) => `'${k}'`).join(", ")} are ignored; only '${stepKey}' is executed`,
+    );
+  }
+
+  for (const modifier of ["onError", "catch", "finally"]) {
+    if (modifier in step) {
+      lintSteps((step as any)[modifier], [...path, modifier], {
+        ...walker,
+        noWait: "error handlers",
+      });
+    }
+  }
+
+  if ("retry" in step) {
+    try {
+      parseRetryPolicy((step as any).retry);
+    } catch (error) {
+      report(
+        "error",
+        "retry-shape",
+        [...path, "retry"],
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  for (const modifier of ["as", "output"]) {
+    const name = (step as any)[modifier];
+    if (name !== undefined && (typeof name !== "string" || name === "")) {
+      report(
+        "error",
+        "binding-name",
+        [...path, modifier],
+        `'${modifier}:' must be a variable name`,
+      );
+    }
+  }
+
+  switch (stepKey) {
+    case "condition":
+      lintCondition(value, stepPath, walker);
+      return;
+    case "loop":
+      lintLoop(value, stepPath, walker);
+      return;
+    case "switch":
+      lintSwitch(value, stepPath, walker);
+      return;
+    case "run":
+      lintRun(value, stepPath, walker);
+      return;
+    case "respond":
+      if (
+        typeof value !== "string" &&
+        (!value || typeof value.message !== "string")
+      ) {
+        report(
+          "error",
+          "step-shape",
+          stepPath,
+          "respond must be a string or { message, to? }",
+        );
+      }
+      break;
+    case "emit":
+      if (!value || typeof value.topic !== "string") {
+        report(
+          "error",
+          "step-shape",
+          stepPath,
+          "emit requires 'topic' (string) and optionally 'data'",
+        );
+      } else if (
+        !value.topic.includes("${") &&
+        !isValidTopic(value.topic, false)
+      ) {
+        report(
+          "error",
+          "event-topic",
+          [...stepPath, "topic"],
+          `'${value.topic}' is not a valid event topic (dot-separated names, no wildcards)`,
+        );
+      }
+      break;
+    case "prompt.user":
+      if (!value || typeof value !== "object") {
+        report("error", "step-shape", stepPath, "prompt.user must be a mapping");
+      } else {
+        for (const field of ["to", "message"]) {
+          if (typeof value[field] !== "string") {
+            report(
+              "error",
+              "step-shape",
+              stepPath,
+              `prompt.user.${field} must be a string`,
+            );
+          }
+        }
+        if (value.buttons !== undefined && !Array.isArray(value.buttons)) {
+          report(
+            "error",
+            "step-shape",
+            [...stepPath, "buttons"],
+            "prompt.user.buttons must be an array",
+          );
+        }
+        lintPromptWait(value, stepPath, walker);
+      }
+      break;
+    case "set_memory":
+    case "let":
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        report("error", "step-shape", stepPath, `${stepKey} must be a mapping`);
+      }
+      break;
+    case "append_to_array":
+      if (!value || typeof value.array !== "string" || !("item" in value)) {
+        report(
+          "error",
+          "step-shape",
+          stepPath,
+          "append_to_array requires 'array' (string) and 'item'",
+        );
+      }
+      break;
+    case "self.modify":
+    case "self.reflect":
+      if (value !== null && value !== undefined && typeof value !== "object") {
+        report("error", "step-shape", stepPath, `${stepKey} must be a mapping`);
+      }
+      if (stepKey === "self.modify") {
+        lintAamAction(stepKey, stepPath, walker);
+      }
+      break;
+    case "try":
+      lintSteps(value, stepPath, walker);
+      return;
+    case "parallel":
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        report(
+          "error",
+          "parallel-shape",
+          stepPath,
+          "parallel must map branch names to step arrays",
+        );
+        return;
+      }
+      for (const [branch, steps] of Object.entries(value)) {
+        lintSteps(steps, [...stepPath, branch], {
+          ...walker,
+          noWait: "parallel branches",
+        });
+      }
+      return;
+    case "break":
+    case "continue":
+      if (!walker.inLoop) {
+        report(
+          "error",
+          "loop-control",
+          stepPath,
+          `'${stepKey}' must be inside a loop body`,
+        );
+      }
+      break;
+    case "super":
+      lintSuper(stepPath, walker);
+      break;
+    case "return":
+      break;
+    default:
+      lintCallReference(stepKey, stepPath, walker);
+  }
+
+  lintTemplates(value, stepPath, walker);
+}
+
+// prompt.user `wait`, `timeout_ms` and `default` (runtime/human-input.ts)
+function lintPromptWait(
+  value: any,
+  path: Array<string | number>,
+  walker: StepWalker,
+): void {
+  const { report } = walker;
+  if (value.wait === undefined) {
+    for (const field of ["timeout_ms", "default"]) {
+      if (field in value) {
+        report(
+          "warning",
+          "prompt-wait",
+          [...path, field],
+          `prompt.user.${field} only applies with 'wait: true'`,
+        );
+      }
+    }
+    return;
+  }
+
+  if (typeof value.wait !== "boolean") {
+    report(
+      "error",
+      "prompt-wait",
+      [...path, "wait"],
+      "prompt.user.wait must be true or false",
+    );
+    return;
+  }
+  if (!value.wait) return;
+
+  if (walker.noWait) {
+    report(
+      "error",
+      "prompt-wait",
+      [...path, "wait"],
+      `prompt.user cannot wait in ${walker.noWait}`,
+    );
+  }
+  if (
+    "timeout_ms" in value &&
+    !(typeof value.timeout_ms === "number" && value.timeout_ms > 0)
+  ) {
+    report(
+      "error",
+      "prompt-wait",
+      [...path, "timeout_ms"],
+      "prompt.user.timeout_ms must be a positive number",
+    );
+  }
+
+  const choices = Array.isArray(value.buttons)
+    ? value.buttons.map((button: any) =>
+        typeof button === "string" ? button : button?.value ?? button?.text,
+      )
+    : [];
+  if (
+    typeof value.default === "string" &&
+    !value.default.includes("${") &&
+    choices.length > 0 &&
+    !choices.includes(value.default)
+  ) {
+    report(
+      "error",
+      "prompt-wait",
+      [...path, "default"],
+      `prompt.user.default '${value.default}' is not one of its buttons`,
+    );
+  }
+}
+
+function lintSwitch(
+  value: any,
+  path: Array<string | number>,
+  walker: StepWalker,
+): void {
+  const { report } = walker;
+  if (!value || typeof value !== "object" || !("on" in value)) {
+    report("error", "switch-shape", path, "switch requires an 'on' value");
+    return;
+  }
+  lintTemplates(value.on, [...path, "on"], walker);
+
+  const cases = value.cases;
+  if (Array.isArray(cases)) {
+    cases.forEach((entry, index) => {
+      const casePath = [...path, "cases", index];
+      const matchers = ["when", "in", "if"].filter((key) => entry && key in entry);
+      if (matchers.length !== 1 || !("do" in entry)) {
+        report(
+          "error",
+          "switch-shape",
+          casePath,
+          "Each case needs exactly one of 'when', 'in' or 'if', and a 'do' block",
+        );
+        return;
+      }
+      lintTemplates(entry[matchers[0]], [...casePath, matchers[0]], walker);
+      lintSteps(entry.do, [...casePath, "do"], walker);
+    });
+  } else if (cases && typeof cases === "object") {
+    for (const [label, steps] of Object.entries(cases)) {
+      lintSteps(steps, [...path, "cases", label], walker);
+    }
+  } else {
+    report(
+      "error",
+      "switch-shape",
+      path,
+      "switch.cases must be a mapping or a list of cases",
+    );
+  }
+
+  if ("default" in value) {
+    lintSteps(value.default, [...path, "default"], walker);
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!["on", "cases", "default"].includes(key)) {
+      report("error", "switch-shape", [...path, key], `Unknown switch key '${key}'`);
+    }
+  }
+}
+
+function lintCondition(
+  value: any,
+  path: Array<string | number>,
+  walker: StepWalker,
+): void {
+  const { report } = walker;
+  if (!value || typeof value !== "object") {
+    report("error", "condition-shape", path, "condition must be a mapping");
+    return;
+  }
+
+  if ("try" in value && value.if === undefined && value.condition === undefined) {
+    report(
+      "warning",
+      "legacy-try",
+      path,
+      "Use a 'try:' step instead of 'condition: { try, catch }'",
+    );
+    lintSteps(value.try, [...path, "try"], walker);
+    const handlerWalker = { ...walker, noWait: "error handlers" };
+    if ("catch" in value) lintSteps(value.catch, [...path, "catch"], handlerWalker);
+    if ("finally" in value) lintSteps(value.finally, [...path, "finally"], handlerWalker);
+    return;
+  }
+
+  const predicate = value.if ?? value.condition;
+  if (typeof predicate !== "string" && typeof predicate !== "boolean") {
+    report(
+      "error",
+      "condition-shape",
+      path,
+      "condition requires an 'if' expression",
+    );
+  } else {
+    lintTemplates(predicate, [...path, "if" in value ? "if" : "condition"], walker);
+  }
+
+  if (!("then" in value)) {
+    report("error", "condition-shape", path, "condition requires a 'then' block");
+  } else {
+    lintSteps(value.then, [...path, "then"], walker);
+  }
+  if ("else" in value) {
+    lintSteps(value.else, [...path, "else"], walker);
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!["if", "condition", "then", "else"].includes(key)) {
+      report(
+        "error",
+        "condition-shape",
+        [...path, key],
+        `Unknown condition key '${key}'`,
+      );
+    }
+  }
+}
+
+function lintLoop(
+  value: any,
+  path: Array<string | number>,
+  walker: StepWalker,
+): void {
+  const { report } = walker;
+  if (!value || typeof value !== "object") {
+    report("error", "loop-shape", path, "loop must be a mapping");
+    return;
+  }
+
+  const hasForEach = "forEach" in value;
+  const hasWhile = "while" in value;
+  if (hasForEach === hasWhile) {
+    report(
+      "error",
+      "loop-shape",
+      path,
+      "loop requires exactly one of 'forEach' or 'while'",
+    );
+  }
+  if (hasForEach) lintTemplates(value.forEach, [...path, "forEach"], walker);
+  if (hasWhile) lintTemplates(value.while, [...path, "while"], walker);
+
+  if (!("do" in value)) {
+    report("error", "loop-shape", path, "loop requires a 'do' block");
+  } else {
+    lintSteps(value.do, [...path, "do"], {
+      ...walker,
+      inLoop: true,
+      noWait: "loops",
+    });
+  }
+
+  for (const guard of ["max_iterations", "timeout_ms"]) {
+    if (guard in value && typeof value[guard] !== "number") {
+      report(
+        "error",
+        "loop-shape",
+        [...path, guard],
+        `loop.${guard} must be a number`,
+      );
+    }
+  }
+
+  if ("concurrency" in value) {
+    if (!hasForEach) {
+      report(
+        "error",
+        "loop-shape",
+        [...path, "concurrency"],
+        "loop.concurrency is only supported with forEach",
+      );
+    }
+    lintTemplates(value.concurrency, [...path, "concurrency"], walker);
+  }
+
+  for (const key of Object.keys(value)) {
+    const loopKeys = [
+      "forEach",
+      "while",
+      "do",
+      "concurrency",
+      "max_iterations",
+      "timeout_ms",
+    ];
+    if (!loopKeys.includes(key)) {
+      report("error", "loop-shape", [...path, key], `Unknown loop key '${key}'`);
+    }
+  }
+}
+
+function lintRun(
+  value: any,
+  path: Array<string | number>,
+  walker: StepWalker,
+): void {
+  const target = getRunTarget(value);
+  if (!target) {
+    walker.report(
+      "error",
+      "run-shape",
+      path,
+      "run must be a file path, [file, operation, input] or { file, operation, input }",
+    );
+    return;
+  }
+
+  lintTemplates(value, path, walker);
+
+  if (!walker.runTargets || target.file.includes("${")) return;
+  const operations = walker.runTargets[target.file];
+  if (operations === undefined) return;
+
+  if (operations === null) {
+    walker.report(
+      "error",
+      "unknown-run-target",
+      path,
+      `run target '${target.file}' cannot be resolved`,
+    );
+  } else if (
+    target.operation &&
+    !target.operation.includes("${") &&
+    !operations.includes(target.operation)
+  ) {
+    walker.report(
+      "error",
+      "unknown-run-target",
+      path,
+      `Operation '${target.operation}' not found in ${target.file}`,
+    );
+  }
+}
+
+// `super` needs an inherited definition of the enclosing operation
+function lintSuper(path: Array<string | number>, walker: StepWalker): void {
+  if (!walker.operation) {
+    walker.report(
+      "error",
+      "super-outside-override",
+      path,
+      "'super' can only be used inside an operation",
+    );
+  } else if (walker.inherited && !walker.inherited.has(walker.operation)) {
+    walker.report(
+      "error",
+      "super-outside-override",
+      path,
+      `'super' used in '${walker.operation}', which does not override an inherited operation`,
+    );
+  }
+}
+
+function lintCallReference(
+  stepKey: string,
+  path: Array<string | number>,
+  walker: StepWalker,
+): void {
+  if (walker.rFile.operations?.[stepKey]) return;
+  if (walker.inherited?.has(stepKey)) return;
+
+  const [namespace, ...rest] = stepKey.split(".");
+  if (walker.namespaces.has(namespace)) {
+    const operations = walker.imports?.[namespace];
+    if (operations && !operations.includes(rest.join("."))) {
+      walker.report(
+        "error",
+        "unknown-operation",
+        path,
+        `Operation '${rest.join(".")}' not found in import '${namespace}'`,
+      );
+    }
+    return;
+  }
+
+  if (!stepKey.includes(".")) {
+    // Without resolved extends/mixins any bare name may be inherited
+    if (walker.inherited) {
+      walker.report(
+        "error",
+        "unknown-operation",
+        path,
+        `'${stepKey}' is not a built-in step or an operation defined in this file`,
+      );
+    }
+    return;
+  }
+
+  lintAamAction(stepKey, path, walker);
+  if (walker.knownFunctions && !walker.knownFunctions.has(stepKey)) {
+    walker.report(
+      "warning",
+      "unknown-function",
+      path,
+      `Module function '${stepKey}' is not registered and not exported from utils/${stepKey.split(".")[0]}.ts`,
+    );
+  }
+}
+
+function lintTemplates(
+  value: unknown,
+  path: Array<string | number>,
+  walker: StepWalker,
+): void {
+  if (typeof value === "string") {
+    const { roots, errors } = extractTemplateRoots(value);
+    for (const message of errors) {
+      walker.report("warning", "invalid-expression", path, message);
+    }
+    for (const root of roots) {
+      if (!isBound(root, walker.bindings)) {
+        walker.report(
+          "warning",
+          "unbound-variable",
+          path,
+          `'\${${root}}' is never bound in this file (not an input, step output, set_memory key or loop variable)`,
+        );
+      }
+    }
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => {
+      if (!isStepLike(item)) lintTemplates(item, [...path, index], walker);
+    });
+    return;
+  }
+
+  if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      // Nested step blocks are linted with their own paths
+      if (["then", "else", "do", "try", "onError", "catch", "finally"].includes(key)) {
+        continue;
+      }
+      lintTemplates(child, [...path, key], walker);
+    }
+  }
+}
+
+function isStepLike(value: unknown): boolean {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.keys(value).some((k) => isBuiltinStep(k))
+  );
+}
+
+/**
+ * Variable paths referenced by `${...}` expressions, e.g.
+ * "${input.user || memory.default_user}" -> ["input.user", "memory.default_user"]
+ */
+function extractTemplateRoots(template: string): {
+  roots: string[];
+  errors: string[];
+} {
+  const roots: string[] = [];
+  const errors: string[] = [];
+
+  for (const { expression } of findTemplates(template)) {
+    let paths: string[];
+    try {
+      paths = collectVariablePaths(parseExpression(expression));
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+      continue;
+    }
+    for (const path of paths) {
+      if (EXPRESSION_GLOBALS.has(path.split(".")[0])) continue;
+      roots.push(path);
+    }
+  }
+
+  return { roots, errors };
+}
+
+function isBound(path: string, bindings: Set<string>): boolean {
+  const root = path.split(".")[0];
+  if (CONTEXT_ROOTS.has(root) || bindings.has(root)) return true;
+
+  // Literal dotted keys such as "llm.complete" are valid memory entries
+  for (const binding of bindings) {
+    if (path === binding || path.startsWith(`${binding}.`)) return true;
+  }
+  return false;
+}
+
+/**
+ * Names a step can write into memory anywhere in the file: step names
+ * (outputs are stored under them), `as:` names, set_memory/let keys,
+ * append_to_array targets, and keys returned by internal operations.
+ */
+function collectBindings(
+  rFile: RLangFile,
+  inheritedOperations: string[] = [],
+): Set<string> {
+  const bindings = new Set<string>([
+    ...Object.keys(rFile.operations || {}),
+    ...inheritedOperations,
+  ]);
+  if (rFile.hooks) HOOK_BINDINGS.forEach((name) => bindings.add(name));
+  // Event handlers get the event they handle (runtime/events.ts)
+  if (rFile.on) bindings.add("event");
+
+  const visit = (value: unknown) => {
+    if (value === "super") bindings.add("super");
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    if (!value || typeof value !== "object") return;
+
+    for (const [key, child] of Object.entries(value)) {
+      bindings.add(key);
+      if (key === "set_memory" && child && typeof child === "object") {
+        Object.keys(child).forEach((name) => bindings.add(name));
+      }
+      if ((key === "as" || key === "output") && typeof child === "string") {
+        bindings.add(child);
+      }
+      if (key === "append_to_array" && typeof (child as any)?.array === "string") {
+        bindings.add((child as any).array);
+      }
+      if (key === "return" && child && typeof child === "object") {
+        Object.keys(child).forEach((name) => bindings.add(name));
+      }
+      visit(child);
+    }
+  };
+
+  visit(rFile.operations);
+  if (rFile.hooks) visit(rFile.hooks);
+  if (rFile.concern) visit(rFile.concern.action);
+  return bindings;
+}
+
+function getRunTarget(
+  value: any,
+): { file: string; operation?: string } | null {
+  if (typeof value === "string") return { file: value };
+  if (Array.isArray(value) && typeof value[0] === "string") {
+    return {
+      file: value[0],
+      operation: typeof value[1] === "string" ? value[1] : undefined,
+    };
+  }
+  if (value && typeof value === "object" && typeof value.file === "string") {
+    return { file: value.file, operation: value.operation };
+  }
+  return null;
+}
+
+async function collectKnownFunctions(rFile: RLangFile | null): Promise<string[]> {
+  const { listFunctions } = await import("../utils/runtime");
+  const known = new Set(await listFunctions());
+
+  const modules = new Set<string>();
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) return value.forEach(visit);
+    if (!value || typeof value !== "object") return;
+    for (const [key, child] of Object.entries(value)) {
+      if (key.includes(".") && !isBuiltinStep(key)) modules.add(key.split(".")[0]);
+      visit(child);
+    }
+  };
+  visit(rFile?.operations);
+
+  for (const moduleName of modules) {
+    for (const name of await readModuleExports(moduleName)) {
+      known.add(`${moduleName}.${name}`);
+    }
+  }
+
+  return Array.from(known);
+}
+
+async function readModuleExports(moduleName: string): Promise<string[]> {
+  try {
+    const source = await readFile(`utils/${moduleName}.ts`, "utf-8");
+    const names = source.matchAll(
+      /export\s+(?:async\s+)?(?:function\s*\*?|const|let|var)\s+([A-Za-z_$][\w$]*)/g,
+    );
+    return Array.from(names, (match) => match[1]);
+  } catch {
+    return [];
+  }
+}
+
+async function resolveImportTargets(
+  rFile: RLangFile | null,
+  filePath: string,
+): Promise<Record<string, string[] | null>> {
+  const targets: Record<string, string[] | null> = {};
+
+  let specs: ImportSpec[] = [];
+  try {
+    specs = parseImports(rFile);
+  } catch {
+    return targets; // Reported as import-shape
+  }
+
+  for (const spec of specs) {
+    const resolved = await resolveImportPath(spec.file, filePath);
+    try {
+      const parsed = resolved && parseYAML(await readFile(resolved, "utf-8"));
+      targets[spec.namespace] = parsed
+        ? Object.keys(parsed.operations || {})
+        : null;
+    } catch {
+      targets[spec.namespace] = null;
+    }
+  }
+
+  return targets;
+}
+
+async function resolveInheritedTargets(
+  rFile: RLangFile | null,
+  filePath: string,
+  seen: Set<string> = new Set(),
+): Promise<Record<string, string[] | null>> {
+  const targets: Record<string, string[] | null> = {};
+
+  let sources: string[] = [];
+  try {
+    sources = getInheritanceSources(rFile);
+  } catch {
+    return targets; // Reported as inheritance-shape
+  }
+
+  for (const source of sources) {
+    const resolved = await resolveImportPath(source, filePath);
+    if (!resolved || seen.has(resolved)) {
+      targets[source] = resolved ? [] : null;
+      continue;
+    }
+    try {
+      const parsed = parseYAML(await readFile(resolved, "utf-8"));
+      const parents = await resolveInheritedTargets(
+        parsed,
+        resolved,
+        new Set([...seen, resolved]),
+      );
+      targets[source] = [
+        ...Object.values(parents).flatMap((operations) => operations ?? []),
+        ...Object.keys(parsed?.operations || {}),
+      ];
+    } catch {
+      targets[source] = null;
+    }
+  }
+
+  return targets;
+}
+
+async function resolveRunTargets(
+  rFile: RLangFile | null,
+): Promise<Record<string, string[] | null>> {
+  const { resolveIntelligentPath } = await import("./interpreter");
+  const targets: Record<string, string[] | null> = {};
+
+  const files = new Set<string>();
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) return value.forEach(visit);
+    if (!value || typeof value !== "object") return;
+    for (const [key, child] of Object.entries(value)) {
+      if (key === "run") {
+        const target = getRunTarget(child);
+        if (target && !target.file.includes("${")) files.add(target.file);
+      }
+      visit(child);
+    }
+  };
+  visit(rFile?.operations);
+
+  for (const file of files) {
+    const resolved = await resolveIntelligentPath(file);
+    if (!resolved) {
+      targets[file] = null;
+      continue;
+    }
+    try {
+      const parsed = parseYAML(await readFile(resolved, "utf-8"));
+      targets[file] = Object.keys(parsed?.operations || {});
+    } catch {
+      targets[file] = null;
+    }
+  }
+
+  return targets;
+}
@@ -1,46 +1,381 @@
 // runtime/loader.ts
 // Loads and parses .r files (YAML/JSON format)
 
-import { readFile } from "fs/promises";
-import { parse as parseYAML } from "yaml";
+import { EventEmitter } from "events";
+import { FSWatcher, watch } from "fs";
+import { readFile, readdir } from "fs/promises";
+import { join } from "path";
 import { RLangFile } from "../schema/types";
+import { loadCompiledModule } from "./compiler";
+import { linkImports } from "./imports";
+import { linkInheritance } from "./inheritance";
+import { parseSignatures } from "./signatures";
+import { RLangError, isRLangError } from "./errors";
+import {
+  attachSourcePositions,
+  parseWithPositions,
+  registerSource,
+} from "./source-map";
 
-const cache = new Map<string, { content: RLangFile; timestamp: number }>();
-const CACHE_TTL = 5000; // 5 seconds in dev, longer in prod
+interface CacheEntry {
+  path: string; // Path the file was loaded from
+  source: string;
+  content: RLangFile;
+  timestamp: number; // Last load or freshness check
+  stale?: boolean; // Changed on disk (watch mode)
+  linted: boolean;
+  // Directly imported and inherited files, with the version that was linked
+  dependencies: Array<{ path: string; content: RLangFile }>;
+}
+
+export interface LoaderConfig {
+  ttl: number; // ms before a cached file is re-checked; ignored while watching
+  watch: boolean; // Invalidate on fs.watch events instead of expiring
+  compiled: boolean; // Use modules from `rlang compile` when available
+}
+
+export interface ReloadEvent {
+  file: string;
+  current: RLangFile;
+  previous: RLangFile;
+}
+
+export interface ReloadFailedEvent {
+  file: string;
+  error: Error;
+}
+
+// Cache TTL per NODE_ENV; RLANG_CACHE_TTL (ms) overrides it
+const DEFAULT_CACHE_TTL: Record<string, number> = {
+  development: 5000,
+  test: 0,
+  production: 10 * 60 * 1000,
+};
+
+// fs.watch fires several events per save; wait for the writes to settle
+const WATCH_DEBOUNCE_MS = 50;
+
+const cache = new Map<string, CacheEntry>();
+const inflight = new Map<string, Promise<RLangFile>>();
+const watchers = new Map<string, FSWatcher>();
+const pendingReloads = new Map<string, NodeJS.Timeout>();
+const events = new EventEmitter();
+let config = defaultConfig();
+
+export interface LoadOptions {
+  // Run the full linter and refuse files with lint errors
+  strict?: boolean;
+}
+
+export async function loadRFile(
+  filePath: string,
+  options: LoadOptions = {},
+): Promise<RLangFile> {
+  return loadModule(filePath, options, []);
+}
+
+/**
+ * Change the cache TTL, switch fs.watch invalidation on or off, or stop
+ * using compiled modules. Defaults come from NODE_ENV, RLANG_CACHE_TTL,
+ * RLANG_WATCH (on in development) and RLANG_COMPILED (on).
+ */
+export function configureLoader(changes: Partial<LoaderConfig>): LoaderConfig {
+  config = { ...config, ...changes };
+  if (config.watch) {
+    cache.forEach((entry, key) => watchEntry(key, entry.path));
+  } else {
+    unwatchAll();
+  }
+  return { ...config };
+}
+
+export function getLoaderConfig(): LoaderConfig {
+  return { ...config };
+}
+
+/**
+ * Subscribe to files being replaced in the cache with a new version. Files
+ * that import or inherit from a changed file are reloaded (and reported)
+ * too. Returns an unsubscribe function.
+ */
+export function onReload(listener: (event: ReloadEvent) => void): () => void {
+  events.on("reload", listener);
+  return () => events.off("reload", listener);
+}
+
+/**
+ * Subscribe to reloads that failed; the previous version stays in use.
+ */
+export function onReloadFailed(
+  listener: (event: ReloadFailedEvent) => void,
+): () => void {
+  events.on("reload-failed", listener);
+  return () => events.off("reload-failed", listener);
+}
 
-export async function loadRFile(filePath: string): Promise<RLangFile> {
-  const absolutePath = filePath.startsWith("/") ? filePath : `./${filePath}`;
+// `importStack` holds the files currently being imported, for cycle detection
+async function loadModule(
+  filePath: string,
+  options: LoadOptions,
+  importStack: string[],
+): Promise<RLangFile> {
+  const absolutePath = toCacheKey(filePath);
+  const strict = options.strict ?? process.env.RLANG_STRICT === "true";
 
-  // Check cache first
+  if (importStack.includes(absolutePath)) {
+    throw new RLangError(
+      "IMPORT_CYCLE",
+      `Import cycle: ${[...importStack, absolutePath].join(" -> ")}`,
+    );
+  }
+
+  // Check cache first; a file is only as fresh as everything it imports
   const cached = cache.get(absolutePath);
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+  if (cached && isFresh(cached) && (cached.linted || !strict)) {
     return cached.content;
   }
 
+  // Concurrent callers share one read so they all get the same version
+  const pending = inflight.get(absolutePath);
+  if (pending) return pending;
+
+  const load = readModule(filePath, absolutePath, strict, options, importStack);
+  inflight.set(absolutePath, load);
   try {
-    const fileContent = await readFile(absolutePath, "utf-8");
-    const parsed = parseRLangContent(fileContent, absolutePath);
+    return await load;
+  } finally {
+    inflight.delete(absolutePath);
+  }
+}
+
+// (Re)load a file. The new version only replaces the cached one once it has
+// been read, parsed, validated and linked completely; until then - and if
+// any of that fails - callers keep getting the previous version.
+async function readModule(
+  filePath: string,
+  absolutePath: string,
+  strict: boolean,
+  options: LoadOptions,
+  importStack: string[],
+): Promise<RLangFile> {
+  const cached = cache.get(absolutePath);
+  const loadDependency = (path: string) =>
+    loadModule(path, options, [...importStack, absolutePath]);
+
+  let fileContent: string;
+  try {
+    fileContent = await readFile(absolutePath, "utf-8");
+  } catch (error) {
+    forget(absolutePath);
+    if ((error as NodeJS.ErrnoException)?.code === "ENOENT") {
+      throw new RLangError(
+        "FILE_NOT_FOUND",
+        `RLang file not found: ${absolutePath}`,
+      );
+    }
+    throw new RLangError(
+      "FILE_READ_ERROR",
+      `Failed to load ${absolutePath}: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error },
+    );
+  }
+
+  try {
+    // Unchanged file: keep the parsed version unless a dependency changed
+    if (cached && cached.source === fileContent && (cached.linted || !strict)) {
+      const current = await Promise.all(
+        cached.dependencies.map(({ path }) => loadDependency(path)),
+      );
+      if (current.every((content, i) => content === cached.dependencies[i].content)) {
+        cached.timestamp = Date.now();
+        cached.stale = false;
+        return cached.content;
+      }
+    }
+
+    // Compiled modules (runtime/compiler.ts) are already parsed and validated
+    const compiled = config.compiled
+      ? await loadCompiledModule(absolutePath, fileContent)
+      : null;
+    const parsed = compiled
+      ? compiled.data
+      : parseRLangContent(fileContent, absolutePath);
 
     // Validate structure
-    validateRLangFile(parsed, absolutePath);
+    if (!compiled) validateRLangFile(parsed, absolutePath);
+    if (strict && !compiled?.linted) {
+      await lintStrict(fileContent, absolutePath);
+    }
+
+    const imports = await linkImports(parsed, absolutePath, loadDependency);
+    const inherited = await linkInheritance(
+      parsed,
+      absolutePath,
+      loadDependency,
+    );
+    const dependencies = await Promise.all(
+      [...imports, ...inherited].map(async (path) => ({
+        path,
+        content: await loadDependency(path),
+      })),
+    );
 
     // Cache the result
     cache.set(absolutePath, {
+      path: filePath,
+      source: fileContent,
       content: parsed,
       timestamp: Date.now(),
+      linted: strict,
+      dependencies,
     });
+    if (config.watch) watchEntry(absolutePath, filePath);
 
+    if (cached && cached.content !== parsed) {
+      events.emit("reload", {
+        file: absolutePath,
+        current: parsed,
+        previous: cached.content,
+      });
+    }
     return parsed;
   } catch (error) {
-    if (error instanceof Error && error.message.includes("ENOENT")) {
-      throw new Error(`RLang file not found: ${absolutePath}`);
-    }
+    const reason = error instanceof Error ? error.message : String(error);
+    // Keep the code of what failed (parse error, missing import, ...)
+    const failure = new RLangError(
+      isRLangError(error) && error.category === "load"
+        ? error.code
+        : "LOAD_FAILED",
+      `Failed to load ${absolutePath}: ${reason}`,
+      { cause: error },
+    );
+    if (!cached) throw failure;
+
+    // Typically a half-written save; the watcher or TTL will retry
+    console.warn(`⚠️ Keeping previous version of ${absolutePath}: ${reason}`);
+    cached.timestamp = Date.now();
+    cached.stale = false;
+    events.emit("reload-failed", { file: absolutePath, error: failure });
+    return cached.content;
+  }
+}
+
+function toCacheKey(filePath: string): string {
+  return filePath.startsWith("/") ? filePath : `./${filePath}`;
+}
+
+function isFresh(entry: CacheEntry): boolean {
+  if (entry.stale) return false;
+  if (!config.watch && Date.now() - entry.timestamp >= config.ttl) {
+    return false;
+  }
+  return entry.dependencies.every(({ path, content }) => {
+    const dependency = cache.get(toCacheKey(path));
+    return (
+      !!dependency && dependency.content === content && isFresh(dependency)
+    );
+  });
+}
+
+function defaultConfig(): LoaderConfig {
+  const env = process.env.NODE_ENV || "development";
+  const ttl =
+    process.env.RLANG_CACHE_TTL !== undefined
+      ? Number(process.env.RLANG_CACHE_TTL)
+      : (DEFAULT_CACHE_TTL[env] ?? DEFAULT_CACHE_TTL.development);
+  if (!Number.isFinite(ttl) || ttl < 0) {
     throw new Error(
-      `Failed to load ${absolutePath}: ${error instanceof Error ? error.message : String(error)}`,
+      `Invalid RLANG_CACHE_TTL '${process.env.RLANG_CACHE_TTL}' (expected milliseconds)`,
+    );
+  }
+
+  const watch = process.env.RLANG_WATCH;
+  return {
+    ttl,
+    watch: watch === undefined ? env === "development" : watch === "true",
+    compiled: process.env.RLANG_COMPILED !== "false",
+  };
+}
+
+function watchEntry(key: string, filePath: string): void {
+  if (watchers.has(key)) return;
+  try {
+    // Not persistent: watching must never keep the process alive
+    const watcher = watch(filePath, { persistent: false }, () =>
+      scheduleReload(key),
+    );
+    watcher.on("error", () => unwatch(key));
+    watchers.set(key, watcher);
+  } catch (error) {
+    console.warn(
+      `⚠️ Cannot watch ${filePath}:`,
+      error instanceof Error ? error.message : error,
+    );
+  }
+}
+
+function scheduleReload(key: string): void {
+  clearTimeout(pendingReloads.get(key));
+  pendingReloads.set(
+    key,
+    setTimeout(() => {
+      pendingReloads.delete(key);
+      reloadEntry(key).catch((error) =>
+        console.warn(`⚠️ Reload of ${key} failed:`, error.message),
+      );
+    }, WATCH_DEBOUNCE_MS).unref(),
+  );
+}
+
+// Re-read a changed file, then everything that imports or inherits from it
+async function reloadEntry(key: string): Promise<void> {
+  const entry = cache.get(key);
+  if (!entry) return;
+
+  // Editors often save by renaming a new file over the old one, which ends
+  // the watch on the old inode - so watch again after every change
+  unwatch(key);
+  entry.stale = true;
+  try {
+    await loadModule(entry.path, { strict: entry.linted }, []);
+  } catch (error) {
+    console.warn(
+      `⚠️ ${key} is no longer loadable:`,
+      error instanceof Error ? error.message : error,
     );
+    return;
+  } finally {
+    if (config.watch && cache.has(key)) watchEntry(key, entry.path);
+  }
+
+  const dependents = Array.from(cache.entries())
+    .filter(([, other]) =>
+      other.dependencies.some(({ path }) => toCacheKey(path) === key),
+    )
+    .map(([dependentKey]) => dependentKey);
+  for (const dependent of dependents) {
+    await reloadEntry(dependent);
   }
 }
 
+function unwatch(key: string): void {
+  watchers.get(key)?.close();
+  watchers.delete(key);
+}
+
+function unwatchAll(): void {
+  watchers.forEach((watcher) => watcher.close());
+  watchers.clear();
+  pendingReloads.forEach((timer) => clearTimeout(timer));
+  pendingReloads.clear();
+}
+
+// Drop a file that can no longer be read
+function forget(key: string): void {
+  cache.delete(key);
+  unwatch(key);
+}
+
 function parseRLangContent(content: string, filePath: string): RLangFile {
   const trimmed = content.trim();
 
@@ -52,29 +387,38 @@ function parseRLangContent(content: string, filePath: string): RLangFile {
     return JSON.parse(content);
   }
 
-  // Default to YAML parsing
+  // Default to YAML parsing, keeping node positions for traces and errors
+  const { data, positions, errors } = parseWithPositions(content, filePath);
+  if (errors.length === 0) {
+    registerSource(filePath, content);
+    attachSourcePositions(data, positions);
+    return data;
+  }
+
+  // Try JSON as fallback
   try {
-    return parseYAML(content);
-  } catch (yamlError) {
-    // Try JSON as fallback
-    try {
-      return JSON.parse(content);
-    } catch (jsonError) {
-      throw new Error(
-        `Invalid RLang format in ${filePath}. Expected YAML or JSON.`,
-      );
-    }
+    return JSON.parse(content);
+  } catch (jsonError) {
+    const [first] = errors;
+    throw new RLangError(
+      "PARSE_ERROR",
+      `Invalid RLang format in ${filePath}:${first.line}:${first.column}: ${first.message}. Expected YAML or JSON.`,
+    );
   }
 }
 
-function validateRLangFile(rFile: any, filePath: string): void {
+export function validateRLangFile(rFile: any, filePath: string): void {
   if (!rFile || typeof rFile !== "object") {
-    throw new Error(`Invalid RLang file ${filePath}: must be an object`);
+    throw new RLangError(
+      "INVALID_FILE",
+      `Invalid RLang file ${filePath}: must be an object`,
+    );
   }
 
   // Validate required structure
   if (!rFile.operations || typeof rFile.operations !== "object") {
-    throw new Error(
+    throw new RLangError(
+      "INVALID_FILE",
       `Invalid RLang file ${filePath}: missing 'operations' section`,
     );
   }
@@ -82,7 +426,8 @@ function validateRLangFile(rFile: any, filePath: string): void {
   // Validate self section if present
   if (rFile.self) {
     if (!rFile.self.id || typeof rFile.self.id !== "string") {
-      throw new Error(
+      throw new RLangError(
+        "INVALID_FILE",
         `Invalid RLang file ${filePath}: self.id must be a string`,
       );
     }
@@ -91,30 +436,67 @@ function validateRLangFile(rFile: any, filePath: string): void {
   // Validate operations
   for (const [opName, steps] of Object.entries(rFile.operations)) {
     if (!Array.isArray(steps)) {
-      throw new Error(
+      throw new RLangError(
+        "INVALID_FILE",
         `Invalid RLang file ${filePath}: operation '${opName}' must be an array of steps`,
       );
     }
   }
 
+  // Validate signatures if present
+  try {
+    parseSignatures(rFile);
+  } catch (error) {
+    throw new RLangError(
+      "INVALID_FILE",
+      `Invalid RLang file ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
   // Validate concern if present
   if (rFile.concern) {
     const concern = rFile.concern;
     if (!concern.if || typeof concern.if !== "string") {
-      throw new Error(
+      throw new RLangError(
+        "INVALID_FILE",
         `Invalid RLang file ${filePath}: concern.if must be a string`,
       );
     }
     if (!concern.action || !Array.isArray(concern.action)) {
-      throw new Error(
+      throw new RLangError(
+        "INVALID_FILE",
         `Invalid RLang file ${filePath}: concern.action must be an array`,
       );
     }
     if (typeof concern.priority !== "number") {
-      throw new Error(
+      throw new RLangError(
+        "INVALID_FILE",
         `Invalid RLang file ${filePath}: concern.priority must be a number`,
       );
     }
+    if (
+      concern.cooldown_ms !== undefined &&
+      !(typeof concern.cooldown_ms === "number" && concern.cooldown_ms >= 0)
+    ) {
+      throw new RLangError(
+        "INVALID_FILE",
+        `Invalid RLang file ${filePath}: concern.cooldown_ms must be a non-negative number`,
+      );
+    }
+  }
+}
+
+async function lintStrict(content: string, filePath: string): Promise<void> {
+  const { lintRLangSource, formatLintIssue } = await import("./linter");
+  const errors = lintRLangSource(content, filePath).filter(
+    (issue) => issue.severity === "error",
+  );
+
+  if (errors.length > 0) {
+    throw new RLangError(
+      "LINT_FAILED",
+      `Lint errors in ${filePath}:\n${errors.map(formatLintIssue).join("\n")}`,
+    );
   }
 }
 
@@ -131,9 +513,36 @@ export async function preloadSystemFiles(): Promise<void> {
   );
 }
 
+/**
+ * The files in the cache, with the path each was loaded from.
+ */
+export function getLoadedFiles(): Array<{ file: string; content: RLangFile }> {
+  return Array.from(cache.values(), (entry) => ({
+    file: entry.path,
+    content: entry.content,
+  }));
+}
+
+/**
+ * Paths of the .r files under `dir` and its subdirectories; none if it does
+ * not exist.
+ */
+export async function findRFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+  const nested = await Promise.all(
+    entries.map((entry) => {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) return findRFiles(path);
+      return Promise.resolve(entry.name.endsWith(".r") ? [path] : []);
+    }),
+  );
+  return nested.flat();
+}
+
 // Clear cache (useful for development)
 export function clearCache(): void {
   cache.clear();
+  unwatchAll();
 }
 
 // Get cache stats
@@ -141,6 +550,9 @@ export function getCacheStats() {
   return {
     size: cache.size,
     files: Array.from(cache.keys()),
+    watched: watchers.size,
+    ttl: config.ttl,
+    watch: config.watch,
     lastUpdated: Math.max(
       ...Array.from(cache.values()).map((v) => v.timestamp),
     ),
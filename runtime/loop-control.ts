@@ -0,0 +1,82 @@
+// runtime/loop-control.ts
+// Loop guards and break/continue signalling for loop steps
+
+// Upper bound for `while:` loops that do not declare max_iterations
+export const DEFAULT_MAX_WHILE_ITERATIONS = 10000;
+
+export interface LoopGuards {
+  maxIterations?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Thrown by `break:` / `continue:` steps and caught by the nearest loop.
+ * These are control flow, not failures: error handlers and retries let them
+ * pass through untouched.
+ */
+export class LoopSignal extends Error {
+  constructor(public readonly kind: "break" | "continue") {
+    super(`${kind} used outside of a loop`);
+    this.name = "LoopSignal";
+  }
+}
+
+/**
+ * A loop stopped by one of its guards rather than by its own condition.
+ */
+export class LoopAbortError extends Error {
+  readonly errorType = "loop_aborted";
+
+  constructor(
+    message: string,
+    public readonly reason: "max_iterations" | "timeout",
+    public readonly iterations: number,
+  ) {
+    super(message);
+    this.name = "LoopAbortError";
+  }
+}
+
+export function isLoopSignal(error: unknown): error is LoopSignal {
+  return error instanceof LoopSignal;
+}
+
+export function parseLoopGuards(loop: any, isWhile: boolean): LoopGuards {
+  const maxIterations =
+    loop.max_iterations !== undefined
+      ? Number(loop.max_iterations)
+      : isWhile
+        ? DEFAULT_MAX_WHILE_ITERATIONS
+        : undefined;
+  const timeoutMs =
+    loop.timeout_ms !== undefined ? Number(loop.timeout_ms) : undefined;
+
+  return { maxIterations, timeoutMs };
+}
+
+/**
+ * Throws LoopAbortError once a guard is exceeded. Called before each
+ * iteration, so a single slow iteration is not interrupted mid-way.
+ */
+export function checkLoopGuards(
+  guards: LoopGuards,
+  iteration: number,
+  startedAt: number,
+): void {
+  if (guards.maxIterations !== undefined && iteration >= guards.maxIterations) {
+    throw new LoopAbortError(
+      `Loop aborted after ${iteration} iterations (max_iterations: ${guards.maxIterations})`,
+      "max_iterations",
+      iteration,
+    );
+  }
+
+  const elapsed = Date.now() - startedAt;
+  if (guards.timeoutMs !== undefined && elapsed >= guards.timeoutMs) {
+    throw new LoopAbortError(
+      `Loop aborted after ${elapsed}ms and ${iteration} iterations (timeout_ms: ${guards.timeoutMs})`,
+      "timeout",
+      iteration,
+    );
+  }
+}
@@ -1,5 +1,5 @@
 // runtime/main.ts - Actual startup script for ROL3
-import { runRLang } from "./interpreter";
+import { resumeExpiredPrompts, runRLang } from "./interpreter";
 import { connectDatabase } from "./bootstrap";
 import { registerFunction } from "../utils/runtime";
 import { complete } from "../utils/llm";
@@ -175,6 +175,7 @@ async function startROL3() {
             file: "r/system/bootstrap-policies.r",
             operation: "graceful_shutdown",
             input: { signal },
+            context: { role: "system" },
           });
           console.log("✅ Graceful shutdown complete");
         } catch (error) {
@@ -187,21 +188,32 @@ async function startROL3() {
     };
     setupSignalHandlers();
 
-    // Set up periodic memory cleanup timer
-    const setupMaintenanceTimer = () => {
+    // Give prompt.user steps nobody answered in time their default answer
+    const setupPromptTimeoutTimer = () => {
       setInterval(async () => {
         try {
-          await runRLang({
-            file: "r/system/bootstrap-policies.r",
-            operation: "memory_cleanup",
-            input: {},
-          });
+          const results = await resumeExpiredPrompts();
+          for (const result of results.filter((r) => !r.success)) {
+            console.warn(
+              `⚠️ Expired prompt of ${result.executionId}: ${result.error}`,
+            );
+          }
         } catch (error) {
-          console.warn("⚠️ Memory cleanup failed:", error);
+          console.warn("⚠️ Prompt timeout check failed:", error);
         }
-      }, 300000); // 5 minutes
+      }, 60000); // 1 minute
     };
-    setupMaintenanceTimer();
+    if (process.env.DATABASE_URL) setupPromptTimeoutTimer();
+
+    // Report .r files picked up by the loader's hot reload
+    const { getLoaderConfig, onReload } = await import("./loader");
+    onReload(({ file }) => console.log(`🔄 Reloaded ${file}`));
+    const loaderConfig = getLoaderConfig();
+    console.log(
+      loaderConfig.watch
+        ? "👀 Watching .r files for changes"
+        : `⏱️ .r file cache TTL: ${loaderConfig.ttl}ms`,
+    );
     console.log("✅ Core infrastructure initialized");
 
     // CRITICAL FIX: RCD Bootstrap Check (prevents silent failures)
@@ -211,6 +223,7 @@ async function startROL3() {
         file: "r/system/rcd-bootstrap-check.r",
         operation: "ensure_rcd_ready",
         input: {},
+        context: { role: "system" },
       });
 
       console.log("🔍 RCD Bootstrap Result:", rcdBootstrap);
@@ -226,6 +239,7 @@ async function startROL3() {
           file: "r/system/rcd-core.r",
           operation: "schema_init",
           input: {},
+          context: { role: "system" },
         });
 
         console.log("🔍 Fallback Result:", fallbackResult);
@@ -254,6 +268,7 @@ async function startROL3() {
         file: "r/system/bootstrap-policies.r",
         operation: "system_genesis",
         input: { startup: true },
+        context: { role: "system" },
       });
 
       if (systemBootstrap.success) {
@@ -277,6 +292,7 @@ async function startROL3() {
         file: "r/agents/system-doctor.r",
         operation: "system_health_check",
         input: { startup: true },
+        context: { role: "system" },
       });
 
       console.log("✅ System health check result:", healthResult);
@@ -289,12 +305,35 @@ async function startROL3() {
       console.log("🤷 Continuing startup despite health check failure...");
     }
 
+    // Fire the `concern` blocks of loaded agents (runtime/concerns.ts)
+    const { getConcernStatus, startConcernScheduler } = await import(
+      "./concerns"
+    );
+    startConcernScheduler();
+    console.log(
+      `🚨 Evaluating concerns every ${getConcernStatus().intervalMs}ms`,
+    );
+
+    // Run the `schedule` sections of loaded agents (runtime/scheduler.ts),
+    // memory_cleanup among them
+    const { startScheduler } = await import("./scheduler");
+    startScheduler();
+    console.log("⏰ Scheduler started");
+
+    // Deliver events from `emit:` steps to `on:` subscribers (runtime/events.ts)
+    const { startEventDispatcher } = await import("./events");
+    startEventDispatcher();
+    console.log("📣 Event dispatcher started");
+
     console.log("🎉 ROL3 system is ALIVE and ready!");
     console.log("📊 Startup Summary:");
     console.log("  - Database: ✅ Connected");
     console.log("  - RCD: ✅ Bootstrapped");
     console.log("  - Webhook: ✅ Running on port 3001");
     console.log("  - System: ✅ Operational");
+    console.log("  - Concerns: ✅ Scheduled");
+    console.log("  - Schedules: ✅ Running");
+    console.log("  - Events: ✅ Dispatching");
 
     // Keep the process alive
     await new Promise(() => {});
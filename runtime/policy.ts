@@ -0,0 +1,245 @@
+// runtime/policy.ts
+// Access policy: enforces the `aam` section of .r files
+//
+//   aam:
+//     require_role: "system" # Least role a caller needs: user < admin < system
+//     allow_roles: ["chat"] # Other roles that may run it despite require_role
+//     restrict_clients: ["acme"] # Clients whose runs may use it (system callers always can)
+//     allow_actions: ["diagnose", "self.modify", "rocketchat.*"]
+//     system_managed: true # Only system callers may self.modify it
+//     client_immutable: true # Runs for a client may not self.modify it
+//
+// The caller is context.role, with context.user and context.clientId. Runs
+// started without a role, including event deliveries from them, run as
+// "user"; the runtime's own entry points (main, scheduler, CLI) pass
+// "system". RocketChat webhook contexts run as "chat", a user that may also
+// run the agents granting it in allow_roles. Nested `run:` steps keep their
+// caller, so an agent cannot run what its caller may not.
+//
+// require_role, allow_roles and restrict_clients are checked before a run starts its
+// operation. allow_actions is checked before privileged steps: self.modify
+// needs "self.modify", and once a file grants any module function
+// ("module.function" or "module.*"), its steps may only call the functions
+// it grants. Other allow_actions entries describe the agent and are not
+// checked.
+//
+// RLANG_AAM_MODE picks what a denial does: "enforce" (the default) fails the
+// run or step with ACCESS_DENIED, "audit" logs it and carries on, "off"
+// checks nothing. Runs of files with an `aam` section, self.modify steps
+// and denials are recorded in agent_logs (events "access_granted" and
+// "access_denied") when a database is configured.
+
+import { RLangError } from "./errors";
+import { RLangContext, RLangFile } from "../schema/types";
+
+export type AccessMode = "enforce" | "audit" | "off";
+
+export const DEFAULT_ROLE = "user";
+export const SYSTEM_ROLE = "system";
+
+// Roles that include the ones below them; other roles only match themselves
+const ROLE_LEVELS: Record<string, number> = {
+  user: 1,
+  chat: 1,
+  admin: 2,
+  system: 3,
+};
+
+interface AccessDecision {
+  agentId: string;
+  file?: string;
+  operation: string;
+  action: string; // "run", "self.modify" or "module.function"
+  allowed: boolean;
+  reason?: string;
+}
+
+export function getAccessMode(): AccessMode {
+  const mode = process.env.RLANG_AAM_MODE ?? "enforce";
+  if (mode === "enforce" || mode === "audit" || mode === "off") return mode;
+  throw new Error(
+    `RLANG_AAM_MODE must be 'enforce', 'audit' or 'off', got '${mode}'`,
+  );
+}
+
+export function getCallerRole(context: Partial<RLangContext>): string {
+  return context.role ?? DEFAULT_ROLE;
+}
+
+/**
+ * Check that `context`'s caller may run `operation` of `rData` (loaded from
+ * `file`). Throws ACCESS_DENIED in enforce mode.
+ */
+export function checkRunAccess(
+  rData: RLangFile,
+  file: string,
+  operation: string,
+  context: RLangContext,
+): void {
+  const aam = rData.aam;
+  const mode = getAccessMode();
+  if (!aam || mode === "off") return;
+
+  const role = getCallerRole(context);
+  let reason: string | undefined;
+  if (
+    aam.require_role &&
+    !hasRole(role, aam.require_role) &&
+    !(Array.isArray(aam.allow_roles) && aam.allow_roles.includes(role))
+  ) {
+    reason = `requires role '${aam.require_role}', caller is '${role}'`;
+  } else if (
+    Array.isArray(aam.restrict_clients) &&
+    role !== SYSTEM_ROLE &&
+    !aam.restrict_clients.includes(context.clientId ?? "")
+  ) {
+    reason = `is restricted to clients ${aam.restrict_clients.join(", ")}`;
+  }
+
+  decide(mode, context, {
+    agentId: rData.self?.id ?? "unknown",
+    file,
+    operation,
+    action: "run",
+    allowed: !reason,
+    reason: reason && `${file}:${operation} ${reason}`,
+  });
+}
+
+/**
+ * Check that the steps of `rData` may take `action`: "self.modify" or a
+ * module function ("module.function"). Throws ACCESS_DENIED in enforce
+ * mode.
+ */
+export function checkStepAccess(
+  rData: RLangFile,
+  action: string,
+  context: RLangContext,
+): void {
+  const aam = rData?.aam;
+  const mode = getAccessMode();
+  if (!aam || mode === "off") return;
+
+  const isModify = action === "self.modify";
+  if (!isModify && !restrictsModules(aam.allow_actions)) return;
+
+  const agentId = rData.self?.id ?? "unknown";
+  const role = getCallerRole(context);
+  let reason: string | undefined;
+  if (!isActionAllowed(aam.allow_actions, action)) {
+    reason = `${agentId} is not allowed ${action} (aam.allow_actions)`;
+  } else if (isModify && aam.system_managed && role !== SYSTEM_ROLE) {
+    reason = `${agentId} is system managed, caller is '${role}'`;
+  } else if (
+    isModify &&
+    aam.client_immutable &&
+    context.clientId &&
+    context.clientId !== "default"
+  ) {
+    reason = `${agentId} cannot be modified for client ${context.clientId}`;
+  }
+
+  // Granted module calls are too frequent to record
+  if (!reason && !isModify) return;
+  decide(mode, context, {
+    agentId,
+    operation: context.operation,
+    action,
+    allowed: !reason,
+    reason,
+  });
+}
+
+/**
+ * Whether allow_actions lets a file take `action`. Lists without module
+ * grants allow any module function; only "self.modify" allows self.modify.
+ */
+export function isActionAllowed(
+  allowActions: string[] | undefined,
+  action: string,
+): boolean {
+  if (!Array.isArray(allowActions)) return true;
+  if (action === "self.modify") return allowActions.includes(action);
+  if (!restrictsModules(allowActions)) return true;
+
+  const module = action.split(".")[0];
+  return allowActions.includes(action) || allowActions.includes(`${module}.*`);
+}
+
+function restrictsModules(allowActions: string[] | undefined): boolean {
+  return (
+    Array.isArray(allowActions) &&
+    allowActions.some((entry) => entry !== "self.modify" && entry.includes("."))
+  );
+}
+
+function hasRole(role: string, required: string): boolean {
+  if (role === required) return true;
+  const have = ROLE_LEVELS[role];
+  const need = ROLE_LEVELS[required];
+  return have !== undefined && need !== undefined && have >= need;
+}
+
+// Audit mode logs each kind of denial once per process
+const auditWarnings = new Set<string>();
+
+function decide(
+  mode: AccessMode,
+  context: RLangContext,
+  decision: AccessDecision,
+): void {
+  recordDecision(mode, context, decision);
+  if (decision.allowed) return;
+
+  const message = `Access denied: ${decision.reason}`;
+  if (mode === "enforce") {
+    throw new RLangError("ACCESS_DENIED", message);
+  }
+  if (!auditWarnings.has(message)) {
+    auditWarnings.add(message);
+    console.warn(`⚠️ ${message} (RLANG_AAM_MODE=audit, not enforced)`);
+  }
+}
+
+// Fire-and-forget like the failure records in runtime/interpreter.ts:
+// auditing never delays or fails the run
+let auditLogWarned = false;
+
+function recordDecision(
+  mode: AccessMode,
+  context: RLangContext,
+  decision: AccessDecision,
+): void {
+  if (!process.env.DATABASE_URL) return;
+
+  const write = async () => {
+    const { db } = await import("../utils/db");
+    const { error } = await db.from("agent_logs").insert({
+      agent_id: decision.agentId,
+      client_id: context.clientId,
+      event: decision.allowed ? "access_granted" : "access_denied",
+      data: {
+        file: decision.file,
+        operation: decision.operation,
+        action: decision.action,
+        user: context.user,
+        role: getCallerRole(context),
+        mode,
+        reason: decision.reason,
+        execution_id: context.metadata?.execution_id,
+      },
+      timestamp: new Date().toISOString(),
+      success: decision.allowed,
+    });
+    if (error) throw error;
+  };
+
+  write().catch((error) => {
+    if (auditLogWarned) return;
+    auditLogWarned = true;
+    console.warn(
+      "⚠️ Could not record access decisions in agent_logs:",
+      error instanceof Error ? error.message : error,
+    );
+  });
+}
@@ -0,0 +1,180 @@
+// runtime/resolver.ts
+// The single resolver for ${...} references in step arguments and conditions
+//
+// Lookup order for a path such as `invoice.lines[0].amount`:
+//   1. context.memory  - step outputs, set_memory/let bindings, loop variables
+//   2. context.input   - the operation's input
+//   3. context         - agentId, operation, metadata, ...
+//   4. `context.*`     - explicit access to the execution context
+// Within each source a literal key wins over walking the path, so outputs
+// stored under dotted step names ("llm.complete") resolve as written. Path
+// segments may use bracket indexing: items[0], row["first name"].
+//
+// Anything that is not a plain path is evaluated with the expression language
+// (runtime/expression.ts), including pipes: ${name | default('n/a') | upper}.
+//
+// References that resolve to nothing are left as written by default. Set
+// `self.unresolved: error` (or RLANG_UNRESOLVED=error) to fail the step
+// instead.
+
+import { RLangContext } from "../schema/types";
+import { evaluateExpression as evaluate, findTemplates } from "./expression";
+import { hasBinding } from "./scope";
+
+export type UnresolvedMode = NonNullable<RLangContext["unresolved"]>;
+
+export class UnresolvedReferenceError extends Error {
+  constructor(public readonly reference: string) {
+    super(`Unresolved reference '\${${reference}}'`);
+    this.name = "UnresolvedReferenceError";
+  }
+}
+
+export function getUnresolvedMode(rData: any): UnresolvedMode {
+  const mode = rData?.self?.unresolved ?? process.env.RLANG_UNRESOLVED;
+  if (mode === undefined || mode === "keep") return "keep";
+  if (mode === "error") return "error";
+  throw new Error(`Invalid unresolved mode '${mode}' (expected keep, error)`);
+}
+
+/**
+ * Resolve templates in a value. Arrays and objects are resolved recursively;
+ * a string that is exactly one ${...} returns the referenced value itself,
+ * while mixed strings interpolate String(value).
+ */
+export function resolveValue(value: any, context: RLangContext): any {
+  if (value === undefined || value === null) return value;
+
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveValue(item, context));
+  }
+
+  if (typeof value === "object") {
+    const resolved: any = {};
+    for (const [key, val] of Object.entries(value)) {
+      resolved[key] = resolveValue(val, context);
+    }
+    return resolved;
+  }
+
+  if (typeof value !== "string" || !value.includes("${")) {
+    return value;
+  }
+
+  const templates = findTemplates(value);
+  const [first] = templates;
+
+  // Pure reference - return the value directly (objects, numbers, ...)
+  if (templates.length === 1 && first.start === 0 && first.end === value.length) {
+    const result = resolveTemplate(first.expression, context);
+    return result !== undefined ? result : value;
+  }
+
+  // Mixed string - unresolved templates are left as written
+  let resolved = "";
+  let last = 0;
+  for (const template of templates) {
+    const result = resolveTemplate(template.expression, context);
+    resolved += value.slice(last, template.start);
+    resolved +=
+      result !== undefined
+        ? String(result)
+        : value.slice(template.start, template.end);
+    last = template.end;
+  }
+  return resolved + value.slice(last);
+}
+
+/**
+ * Value of the expression inside one ${...}, or undefined if it does not
+ * resolve (which throws UnresolvedReferenceError in error mode).
+ */
+export function resolveTemplate(expression: string, context: RLangContext): any {
+  const strict = context.unresolved === "error";
+
+  let value = lookupPath(expression.trim(), context);
+  if (value === undefined) {
+    try {
+      value = evaluateExpression(expression, context);
+    } catch (error) {
+      if (strict) throw error;
+    }
+  }
+
+  if (value === undefined && strict) {
+    throw new UnresolvedReferenceError(expression.trim());
+  }
+  return value;
+}
+
+/**
+ * Evaluate an expression with variables resolved by lookupPath.
+ */
+export function evaluateExpression(
+  expression: string,
+  context: RLangContext,
+): any {
+  return evaluate(expression, (path) => lookupPath(path, context));
+}
+
+/**
+ * Resolve a variable path in the documented lookup order, or undefined.
+ */
+export function lookupPath(path: string, context: RLangContext): any {
+  const segments = parsePath(path);
+  const sources = [context.memory, context.input, context, { context }];
+
+  for (const source of sources) {
+    if (!source || typeof source !== "object") continue;
+
+    if (hasBinding(source, path)) {
+      const value = (source as any)[path];
+      if (value !== undefined) {
+        return value;
+      }
+    }
+
+    if (segments) {
+      const value = walkPath(source, segments);
+      if (value !== undefined) {
+        return value;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+// `a.b[0]["c d"]` -> ["a", "b", "0", "c d"]; null if `path` is not a plain path
+const PATH_SEGMENT =
+  /\[\s*(?:(\d+)|"((?:\\.|[^"])*)"|'((?:\\.|[^'])*)')\s*\]|(^|\.)([A-Za-z_$][\w$-]*)/y;
+
+function parsePath(path: string): string[] | null {
+  const segments: string[] = [];
+  PATH_SEGMENT.lastIndex = 0;
+
+  while (PATH_SEGMENT.lastIndex < path.length) {
+    const match = PATH_SEGMENT.exec(path);
+    if (!match) return null;
+    segments.push(match[1] ?? match[2] ?? match[3] ?? match[5]);
+  }
+  return segments.length > 0 ? segments : null;
+}
+
+function walkPath(source: any, segments: string[]): any {
+  let current = source;
+  for (const segment of segments) {
+    if (typeof current === "string" && segment === "length") {
+      current = current.length;
+    } else if (
+      current !== null &&
+      typeof current === "object" &&
+      hasBinding(current, segment)
+    ) {
+      current = current[segment];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
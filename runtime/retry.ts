@@ -0,0 +1,71 @@
+// runtime/retry.ts
+// Retry policies for the `retry:` step modifier
+
+export type BackoffStrategy = "fixed" | "linear" | "exponential";
+
+export interface RetryPolicy {
+  attempts: number; // Total attempts, including the first one
+  backoff: BackoffStrategy;
+  delayMs: number;
+  maxDelayMs: number;
+  retryOn?: string; // Condition evaluated with ${error} bound
+}
+
+const DEFAULT_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 30000;
+
+/**
+ * Normalize a `retry:` value. Accepts a bare attempt count (`retry: 3`) or
+ * `{ attempts, backoff, delay_ms, max_delay_ms, retry_on }`.
+ */
+export function parseRetryPolicy(spec: any): RetryPolicy | null {
+  if (spec === undefined || spec === null || spec === false) return null;
+
+  if (typeof spec === "number") {
+    return {
+      attempts: Math.max(1, Math.floor(spec)),
+      backoff: "fixed",
+      delayMs: DEFAULT_DELAY_MS,
+      maxDelayMs: DEFAULT_MAX_DELAY_MS,
+    };
+  }
+
+  if (typeof spec !== "object") {
+    throw new Error(`Invalid retry policy: ${JSON.stringify(spec)}`);
+  }
+
+  const backoff = spec.backoff ?? "fixed";
+  if (!["fixed", "linear", "exponential"].includes(backoff)) {
+    throw new Error(`Invalid retry backoff '${backoff}'`);
+  }
+
+  return {
+    attempts: Math.max(1, Math.floor(Number(spec.attempts ?? 3))),
+    backoff,
+    delayMs: Number(spec.delay_ms ?? DEFAULT_DELAY_MS),
+    maxDelayMs: Number(spec.max_delay_ms ?? DEFAULT_MAX_DELAY_MS),
+    retryOn: spec.retry_on,
+  };
+}
+
+/**
+ * Delay before the next attempt, given the attempt that just failed (1-based).
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+  let delay: number;
+  switch (policy.backoff) {
+    case "linear":
+      delay = policy.delayMs * attempt;
+      break;
+    case "exponential":
+      delay = policy.delayMs * 2 ** (attempt - 1);
+      break;
+    default:
+      delay = policy.delayMs;
+  }
+  return Math.min(delay, policy.maxDelayMs);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
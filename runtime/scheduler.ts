@@ -0,0 +1,485 @@
+// runtime/scheduler.ts
+// Scheduled runs declared in the `schedule:` sections of .r files
+//
+//   schedule:
+//     memory_cleanup:
+//       every_ms: 300000
+//     nightly_report:
+//       cron: "0 2 * * *" # UTC, see runtime/cron.ts
+//       input: { scope: "all" }
+//       timeout_ms: 600000 # Default 30 minutes
+//       catch_up: false # Skip a run missed while the process was down
+//
+// Every tick the scheduler reads the schedules of the files in the loader
+// cache; entries are keyed by agent (self.id) and operation. When each
+// entry last ran and runs next, and which agents are paused, is kept in
+// Postgres (migrations/009_schedules.sql) when DATABASE_URL is set,
+// otherwise in memory for the life of the process.
+//
+// A due entry is claimed - locked until its timeout has passed - before it
+// runs, so runs of an entry never overlap, not even across processes. An
+// entry that came due while no scheduler was running runs once when one
+// starts (however many runs it missed), unless it sets `catch_up: false`.
+// Paused agents' entries don't run until resumeSchedules. Scheduled runs
+// run as "system" (runtime/policy.ts).
+
+import { runRLang } from "./interpreter";
+import { getLoadedFiles } from "./loader";
+import { CronSchedule, getNextCronTime, parseCron } from "./cron";
+import { RLangFile } from "../schema/types";
+
+export const DEFAULT_SCHEDULE_TIMEOUT_MS = 30 * 60 * 1000;
+
+const TICK_MS = 15 * 1000;
+
+export interface ScheduleEntry {
+  agentId: string;
+  operation: string;
+  file: string;
+  trigger: string; // "cron:<expression>" or "every:<ms>"
+  input: any;
+  timeoutMs: number;
+  catchUp: boolean;
+}
+
+export interface ScheduleState {
+  agentId: string;
+  operation: string;
+  file: string;
+  trigger: string;
+  nextRunAt: string;
+  lastRunAt?: string;
+  lastStatus?: "completed" | "failed";
+  lastError?: string;
+  lockedUntil?: string;
+}
+
+// Where schedule state lives: Postgres, or memory without a database
+interface ScheduleStore {
+  persistent: boolean;
+  list(): Promise<ScheduleState[]>;
+  // Add an entry, or update its file and trigger; a new trigger starts over
+  // at `nextRunAt`
+  save(entry: ScheduleEntry, nextRunAt: Date): Promise<void>;
+  reschedule(entry: ScheduleEntry, nextRunAt: Date): Promise<void>;
+  // Lock a due, unlocked entry and move it to its next run; false if it
+  // is not due or another run holds it
+  claim(
+    entry: ScheduleEntry,
+    nextRunAt: Date,
+    lockedUntil: Date,
+  ): Promise<boolean>;
+  finish(
+    entry: ScheduleEntry,
+    status: "completed" | "failed",
+    error?: string,
+  ): Promise<void>;
+  listPaused(): Promise<string[]>;
+  setPaused(agentId: string, paused: boolean): Promise<void>;
+}
+
+let store: ScheduleStore | null = null;
+let timer: NodeJS.Timeout | null = null;
+let startedAt = 0;
+let ticking = false;
+const running = new Set<string>();
+const checkedMissed = new Set<string>();
+const cronCache = new Map<string, CronSchedule>();
+const invalidWarned = new Set<string>();
+
+/**
+ * Start running scheduled operations. Returns a function that stops the
+ * scheduler; runs in progress finish.
+ */
+export function startScheduler(options: { tickMs?: number } = {}): () => void {
+  stopScheduler();
+  startedAt = Date.now();
+  checkedMissed.clear();
+
+  const tick = () => {
+    runTick().catch((error) =>
+      console.warn(
+        "⚠️ Scheduler tick failed:",
+        error instanceof Error ? error.message : error,
+      ),
+    );
+  };
+  timer = setInterval(tick, options.tickMs ?? TICK_MS);
+  timer.unref();
+  tick();
+  return stopScheduler;
+}
+
+export function stopScheduler(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
+
+/**
+ * The schedule entries known so far, with the running and paused ones
+ * marked.
+ */
+export async function listSchedules(): Promise<
+  Array<ScheduleState & { running: boolean; paused: boolean }>
+> {
+  const schedules = getStore();
+  const [states, paused] = await Promise.all([
+    schedules.list(),
+    schedules.listPaused(),
+  ]);
+  return states.map((state) => ({
+    ...state,
+    running: running.has(getKey(state)),
+    paused: paused.includes(state.agentId),
+  }));
+}
+
+/**
+ * Stop running an agent's scheduled operations until resumeSchedules.
+ */
+export async function pauseSchedules(agentId: string): Promise<void> {
+  await getStore().setPaused(agentId, true);
+  console.log(`⏸️ Paused schedules of ${agentId}`);
+}
+
+/**
+ * Run an agent's scheduled operations again. Runs that came due while it
+ * was paused run once.
+ */
+export async function resumeSchedules(agentId: string): Promise<void> {
+  await getStore().setPaused(agentId, false);
+  console.log(`▶️ Resumed schedules of ${agentId}`);
+}
+
+/**
+ * The schedule entries `rData` (loaded from `file`) declares. Throws for
+ * an invalid entry.
+ */
+export function getScheduleEntries(
+  rData: RLangFile,
+  file: string,
+): ScheduleEntry[] {
+  return Object.entries(rData.schedule ?? {}).map(([operation, spec]) => {
+    const where = `${file}: schedule.${operation}`;
+    if (!spec || typeof spec !== "object") {
+      throw new Error(`${where} must be a mapping`);
+    }
+    if ((spec.cron === undefined) === (spec.every_ms === undefined)) {
+      throw new Error(`${where} needs either cron or every_ms`);
+    }
+
+    let trigger: string;
+    if (spec.cron !== undefined) {
+      parseCron(String(spec.cron));
+      trigger = `cron:${spec.cron}`;
+    } else {
+      const everyMs = Number(spec.every_ms);
+      if (!Number.isFinite(everyMs) || everyMs < 1000) {
+        throw new Error(`${where}.every_ms must be at least 1000`);
+      }
+      trigger = `every:${everyMs}`;
+    }
+
+    const timeoutMs = Number(spec.timeout_ms ?? DEFAULT_SCHEDULE_TIMEOUT_MS);
+    if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+      throw new Error(`${where}.timeout_ms must be a positive number`);
+    }
+    return {
+      agentId: rData.self?.id ?? file,
+      operation,
+      file,
+      trigger,
+      input: spec.input ?? {},
+      timeoutMs,
+      catchUp: spec.catch_up !== false,
+    };
+  });
+}
+
+/**
+ * When an entry with `trigger` runs next after `after`.
+ */
+export function getNextRunTime(trigger: string, after: Date): Date {
+  const [kind, value] = [
+    trigger.slice(0, trigger.indexOf(":")),
+    trigger.slice(trigger.indexOf(":") + 1),
+  ];
+  if (kind === "every") return new Date(after.getTime() + Number(value));
+
+  let schedule = cronCache.get(value);
+  if (!schedule) {
+    schedule = parseCron(value);
+    cronCache.set(value, schedule);
+  }
+  return getNextCronTime(schedule, after);
+}
+
+async function runTick(): Promise<void> {
+  if (ticking) return;
+  ticking = true;
+  try {
+    const schedules = getStore();
+    const [states, paused] = await Promise.all([
+      schedules.list(),
+      schedules.listPaused(),
+    ]);
+    const known = new Map(states.map((state) => [getKey(state), state]));
+    const now = new Date();
+
+    for (const entry of collectEntries()) {
+      const key = getKey(entry);
+      const state = known.get(key);
+      if (!state || state.trigger !== entry.trigger) {
+        await schedules.save(entry, getNextRunTime(entry.trigger, now));
+        continue;
+      }
+      if (paused.includes(entry.agentId) || running.has(key)) continue;
+      if (new Date(state.nextRunAt) > now) continue;
+
+      // Came due before this scheduler started
+      if (!checkedMissed.has(key)) {
+        checkedMissed.add(key);
+        if (!entry.catchUp && new Date(state.nextRunAt).getTime() < startedAt) {
+          await schedules.reschedule(entry, getNextRunTime(entry.trigger, now));
+          continue;
+        }
+      }
+      void runEntry(entry, now);
+    }
+  } finally {
+    ticking = false;
+  }
+}
+
+async function runEntry(entry: ScheduleEntry, now: Date): Promise<void> {
+  const key = getKey(entry);
+  const schedules = getStore();
+  running.add(key);
+  try {
+    const claimed = await schedules.claim(
+      entry,
+      getNextRunTime(entry.trigger, now),
+      new Date(now.getTime() + entry.timeoutMs),
+    );
+    if (!claimed) return;
+
+    let status: "completed" | "failed" = "failed";
+    let error: string | undefined;
+    try {
+      const result = await runRLang({
+        file: entry.file,
+        operation: entry.operation,
+        input: entry.input,
+        timeoutMs: entry.timeoutMs,
+        context: { role: "system", metadata: { schedule: entry.trigger } },
+      });
+      if (result.success) status = "completed";
+      else error = result.error;
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : String(caught);
+    }
+
+    if (error) {
+      console.warn(`⏰ ${entry.file}:${entry.operation} failed: ${error}`);
+    }
+    await schedules.finish(entry, status, error);
+  } catch (error) {
+    console.warn(
+      `⚠️ Could not run scheduled ${entry.file}:${entry.operation}:`,
+      error instanceof Error ? error.message : error,
+    );
+  } finally {
+    running.delete(key);
+  }
+}
+
+// Entries of the loaded files, one per agent and operation
+function collectEntries(): ScheduleEntry[] {
+  const entries = new Map<string, ScheduleEntry>();
+  for (const { file, content } of getLoadedFiles()) {
+    if (!content.schedule) continue;
+    try {
+      for (const entry of getScheduleEntries(content, file)) {
+        if (!entries.has(getKey(entry))) entries.set(getKey(entry), entry);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!invalidWarned.has(message)) {
+        invalidWarned.add(message);
+        console.warn(`⚠️ Not scheduled: ${message}`);
+      }
+    }
+  }
+  return Array.from(entries.values());
+}
+
+function getKey(entry: { agentId: string; operation: string }): string {
+  return `${entry.agentId}:${entry.operation}`;
+}
+
+function getStore(): ScheduleStore {
+  if (!store) {
+    store = process.env.DATABASE_URL
+      ? createPostgresStore()
+      : createMemoryStore();
+  }
+  return store;
+}
+
+function createPostgresStore(): ScheduleStore {
+  return {
+    persistent: true,
+    async list() {
+      const rows = await scheduleQuery(`SELECT * FROM rlang_schedules`);
+      return rows.map((row) => ({
+        agentId: row.agent_id,
+        operation: row.operation,
+        file: row.file,
+        trigger: row.trigger,
+        nextRunAt: toIsoString(row.next_run_at)!,
+        lastRunAt: toIsoString(row.last_run_at),
+        lastStatus: row.last_status ?? undefined,
+        lastError: row.last_error ?? undefined,
+        lockedUntil: toIsoString(row.locked_until),
+      }));
+    },
+    async save(entry, nextRunAt) {
+      await scheduleQuery(
+        `INSERT INTO rlang_schedules (agent_id, operation, file, trigger, next_run_at)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (agent_id, operation) DO UPDATE SET
+           file = EXCLUDED.file,
+           trigger = EXCLUDED.trigger,
+           next_run_at = CASE WHEN rlang_schedules.trigger = EXCLUDED.trigger
+             THEN rlang_schedules.next_run_at ELSE EXCLUDED.next_run_at END,
+           updated_at = NOW()`,
+        [
+          entry.agentId,
+          entry.operation,
+          entry.file,
+          entry.trigger,
+          nextRunAt.toISOString(),
+        ],
+      );
+    },
+    async reschedule(entry, nextRunAt) {
+      await scheduleQuery(
+        `UPDATE rlang_schedules SET next_run_at = $3, updated_at = NOW()
+         WHERE agent_id = $1 AND operation = $2`,
+        [entry.agentId, entry.operation, nextRunAt.toISOString()],
+      );
+    },
+    async claim(entry, nextRunAt, lockedUntil) {
+      const rows = await scheduleQuery(
+        `UPDATE rlang_schedules
+         SET next_run_at = $3, locked_until = $4, last_run_at = NOW(), updated_at = NOW()
+         WHERE agent_id = $1 AND operation = $2 AND next_run_at <= NOW()
+           AND (locked_until IS NULL OR locked_until < NOW())
+         RETURNING agent_id`,
+        [
+          entry.agentId,
+          entry.operation,
+          nextRunAt.toISOString(),
+          lockedUntil.toISOString(),
+        ],
+      );
+      return rows.length > 0;
+    },
+    async finish(entry, status, error) {
+      await scheduleQuery(
+        `UPDATE rlang_schedules
+         SET locked_until = NULL, last_status = $3, last_error = $4, updated_at = NOW()
+         WHERE agent_id = $1 AND operation = $2`,
+        [entry.agentId, entry.operation, status, error ?? null],
+      );
+    },
+    async listPaused() {
+      const rows = await scheduleQuery(
+        `SELECT agent_id FROM rlang_schedule_pauses`,
+      );
+      return rows.map((row) => row.agent_id);
+    },
+    async setPaused(agentId, paused) {
+      await scheduleQuery(
+        paused
+          ? `INSERT INTO rlang_schedule_pauses (agent_id) VALUES ($1)
+             ON CONFLICT (agent_id) DO NOTHING`
+          : `DELETE FROM rlang_schedule_pauses WHERE agent_id = $1`,
+        [agentId],
+      );
+    },
+  };
+}
+
+function createMemoryStore(): ScheduleStore {
+  const states = new Map<string, ScheduleState>();
+  const paused = new Set<string>();
+  return {
+    persistent: false,
+    async list() {
+      return Array.from(states.values(), (state) => ({ ...state }));
+    },
+    async save(entry, nextRunAt) {
+      const state = states.get(getKey(entry));
+      states.set(getKey(entry), {
+        ...state,
+        agentId: entry.agentId,
+        operation: entry.operation,
+        file: entry.file,
+        trigger: entry.trigger,
+        nextRunAt:
+          state?.trigger === entry.trigger
+            ? state.nextRunAt
+            : nextRunAt.toISOString(),
+      });
+    },
+    async reschedule(entry, nextRunAt) {
+      const state = states.get(getKey(entry));
+      if (state) state.nextRunAt = nextRunAt.toISOString();
+    },
+    async claim(entry, nextRunAt, lockedUntil) {
+      const state = states.get(getKey(entry));
+      const now = Date.now();
+      if (
+        !state ||
+        new Date(state.nextRunAt).getTime() > now ||
+        (state.lockedUntil && new Date(state.lockedUntil).getTime() >= now)
+      ) {
+        return false;
+      }
+      state.nextRunAt = nextRunAt.toISOString();
+      state.lockedUntil = lockedUntil.toISOString();
+      state.lastRunAt = new Date(now).toISOString();
+      return true;
+    },
+    async finish(entry, status, error) {
+      const state = states.get(getKey(entry));
+      if (!state) return;
+      state.lockedUntil = undefined;
+      state.lastStatus = status;
+      state.lastError = error;
+    },
+    async listPaused() {
+      return Array.from(paused);
+    },
+    async setPaused(agentId, isPaused) {
+      if (isPaused) paused.add(agentId);
+      else paused.delete(agentId);
+    },
+  };
+}
+
+async function scheduleQuery(sql: string, params?: any[]): Promise<any[]> {
+  const { db } = await import("../utils/db");
+  const { data, error } = await db.query(sql, params);
+  if (error) {
+    throw new Error(
+      `Schedule store: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  return data ?? [];
+}
+
+function toIsoString(value: unknown): string | undefined {
+  return value ? new Date(value as string).toISOString() : undefined;
+}
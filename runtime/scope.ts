@@ -0,0 +1,195 @@
+// runtime/scope.ts
+// Variable binding and memory scopes for step outputs
+//
+// Files choose a mode with `self.scoping`:
+//   legacy  - (default) every output is spread into memory and stored under its step name
+//   lexical - outputs are stored under `as:` or the step name only; internal
+//             operations and loop bodies get child scopes
+//   strict  - like lexical, but only `as:` / `let:` create bindings, writes to
+//             unbound names and shadowing an enclosing binding are errors
+//
+// Child scopes are objects whose prototype is the parent scope, so reads fall
+// through to enclosing bindings while writes stay local unless assigned.
+
+import { RLangContext, RLangStep } from "../schema/types";
+
+export type ScopingMode = "legacy" | "lexical" | "strict";
+
+const SCOPING_MODES: ScopingMode[] = ["legacy", "lexical", "strict"];
+
+// Steps that write memory themselves or only steer control flow; their
+// outputs are not bound implicitly outside legacy mode
+const NON_BINDING_STEPS = new Set([
+  "set_memory",
+  "let",
+  "append_to_array",
+  "condition",
+  "switch",
+  "loop",
+  "try",
+  "parallel",
+  "break",
+  "continue",
+  "return",
+]);
+
+export class ScopeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScopeError";
+  }
+}
+
+export function getScopingMode(rData: any): ScopingMode {
+  const mode = rData?.self?.scoping;
+  if (mode === undefined) return "legacy";
+  if (!SCOPING_MODES.includes(mode)) {
+    throw new ScopeError(
+      `Invalid self.scoping '${mode}' (expected ${SCOPING_MODES.join(", ")})`,
+    );
+  }
+  return mode;
+}
+
+/**
+ * Explicit binding name from `as:` (or its alias `output:`).
+ */
+export function getBindingName(step: RLangStep): string | undefined {
+  if (typeof step !== "object" || step === null) return undefined;
+  const name = (step as any).as ?? (step as any).output;
+  if (name === undefined) return undefined;
+  if (typeof name !== "string" || name.length === 0) {
+    throw new ScopeError("'as:' must be a variable name");
+  }
+  return name;
+}
+
+/**
+ * Store a step's output according to the file's scoping mode.
+ */
+export function bindStepOutput(
+  context: RLangContext,
+  stepName: string,
+  output: any,
+  bindingName: string | undefined,
+  mode: ScopingMode,
+): void {
+  if (mode === "legacy") {
+    context.memory = bindingName
+      ? { ...context.memory, [bindingName]: output }
+      : { ...context.memory, ...output, [stepName]: output };
+    return;
+  }
+
+  if (bindingName) {
+    declareBinding(context.memory, bindingName, output, mode);
+  } else if (mode === "lexical" && !NON_BINDING_STEPS.has(stepName)) {
+    context.memory[stepName] = output;
+  }
+}
+
+/**
+ * Create a binding in the current scope (`as:`, `let:`, loop variables).
+ */
+export function declareBinding(
+  scope: Record<string, any>,
+  name: string,
+  value: any,
+  mode: ScopingMode,
+): void {
+  if (
+    mode === "strict" &&
+    !hasOwn(scope, name) &&
+    findOwner(Object.getPrototypeOf(scope), name)
+  ) {
+    throw new ScopeError(
+      `'${name}' shadows a binding from an enclosing scope (strict scoping)`,
+    );
+  }
+  scope[name] = value;
+}
+
+/**
+ * Assign to an existing binding wherever it lives in the scope chain
+ * (`set_memory`, `append_to_array`). Unknown names are declared locally,
+ * except in strict mode where they are an error.
+ */
+export function assignBinding(
+  scope: Record<string, any>,
+  name: string,
+  value: any,
+  mode: ScopingMode,
+): void {
+  if (mode === "legacy") {
+    scope[name] = value;
+    return;
+  }
+
+  const owner = findOwner(scope, name);
+  if (owner) {
+    owner[name] = value;
+  } else if (mode === "strict") {
+    throw new ScopeError(
+      `Write to unbound variable '${name}' (declare it with let: or as: first)`,
+    );
+  } else {
+    scope[name] = value;
+  }
+}
+
+/**
+ * Child scope for internal operations and loop bodies. Legacy mode keeps
+ * its copy semantics so existing agents behave exactly as before.
+ */
+export function createChildScope(
+  parent: Record<string, any>,
+  bindings: Record<string, any>,
+  mode: ScopingMode,
+): Record<string, any> {
+  if (mode === "legacy") {
+    return { ...parent, ...bindings };
+  }
+
+  // Loop variables are runtime-provided, so nested loops may rebind `item`
+  // even in strict mode
+  return Object.assign(Object.create(parent), bindings);
+}
+
+/**
+ * True if `name` is bound in the scope or any enclosing scope. Unlike `in`,
+ * this ignores Object.prototype members such as "toString".
+ */
+export function hasBinding(scope: any, name: string): boolean {
+  return !!findOwner(scope, name);
+}
+
+/**
+ * Plain object with every visible binding, innermost first, for
+ * serialization (JSON.stringify only sees own properties).
+ */
+export function flattenScope(scope: Record<string, any>): Record<string, any> {
+  const chain: Record<string, any>[] = [];
+  for (
+    let current = scope;
+    current && current !== Object.prototype;
+    current = Object.getPrototypeOf(current)
+  ) {
+    chain.unshift(current);
+  }
+  return Object.assign({}, ...chain);
+}
+
+function findOwner(scope: any, name: string): Record<string, any> | null {
+  for (
+    let current = scope;
+    current && current !== Object.prototype;
+    current = Object.getPrototypeOf(current)
+  ) {
+    if (hasOwn(current, name)) return current;
+  }
+  return null;
+}
+
+function hasOwn(obj: any, name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(obj, name);
+}
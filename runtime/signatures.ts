@@ -0,0 +1,470 @@
+// runtime/signatures.ts
+// `signatures:` - declared input and output contracts for operations
+//
+//   signatures:
+//     approve_invoice:
+//       inputs:
+//         type: object
+//         required: [invoice_id]
+//         properties:
+//           invoice_id: string              # shorthand for { type: string }
+//           amount: { type: number, minimum: 0 }
+//           currency: { type: string, enum: [NZD, AUD], default: NZD }
+//       outputs:
+//         type: object
+//         properties:
+//           approved: boolean
+//
+// Schemas are a JSON Schema subset: type, properties, required,
+// additionalProperties, items, enum, minimum/maximum, minLength/maxLength,
+// minItems/maxItems, pattern, default and description. The interpreter
+// validates the input of an operation before running it (filling in
+// defaults) and its result afterwards.
+
+import { RLangFile } from "../schema/types";
+
+export type SchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null"
+  | "any";
+
+export interface Schema {
+  type?: SchemaType | SchemaType[];
+  description?: string;
+  properties?: Record<string, Schema | SchemaType>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: Schema | SchemaType;
+  enum?: any[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  pattern?: string;
+  default?: any;
+}
+
+export interface OperationSignature {
+  inputs?: Schema;
+  outputs?: Schema;
+}
+
+export interface ValidationIssue {
+  path: string; // e.g. "input.lines[2].amount"
+  message: string;
+}
+
+export class SignatureError extends Error {
+  constructor(
+    public readonly operation: string,
+    public readonly phase: "input" | "output",
+    public readonly issues: ValidationIssue[],
+  ) {
+    super(
+      `Invalid ${phase} for operation '${operation}': ${issues
+        .map((issue) => `${issue.path} ${issue.message}`)
+        .join("; ")}`,
+    );
+    this.name = "SignatureError";
+  }
+}
+
+const SCHEMA_TYPES = new Set<string>([
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "object",
+  "array",
+  "null",
+  "any",
+]);
+
+const SCHEMA_KEYS = new Set([
+  "type",
+  "description",
+  "properties",
+  "required",
+  "additionalProperties",
+  "items",
+  "enum",
+  "minimum",
+  "maximum",
+  "minLength",
+  "maxLength",
+  "minItems",
+  "maxItems",
+  "pattern",
+  "default",
+]);
+
+/**
+ * Normalize and check a `signatures:` section. Throws on malformed schemas;
+ * returns an empty map when the section is absent.
+ */
+export function parseSignatures(
+  rFile: any,
+): Record<string, OperationSignature> {
+  const signatures = rFile?.signatures;
+  if (signatures === undefined || signatures === null) return {};
+  if (typeof signatures !== "object" || Array.isArray(signatures)) {
+    throw new Error("signatures must map operation names to { inputs, outputs }");
+  }
+
+  const parsed: Record<string, OperationSignature> = {};
+  for (const [operation, signature] of Object.entries<any>(signatures)) {
+    if (!signature || typeof signature !== "object" || Array.isArray(signature)) {
+      throw new Error(`Signature of '${operation}' must be a mapping`);
+    }
+    for (const key of Object.keys(signature)) {
+      if (key !== "inputs" && key !== "outputs") {
+        throw new Error(
+          `Signature of '${operation}' has unknown key '${key}' (expected inputs, outputs)`,
+        );
+      }
+    }
+    parsed[operation] = {
+      inputs:
+        signature.inputs === undefined
+          ? undefined
+          : normalizeSchema(signature.inputs, `${operation}.inputs`),
+      outputs:
+        signature.outputs === undefined
+          ? undefined
+          : normalizeSchema(signature.outputs, `${operation}.outputs`),
+    };
+  }
+  return parsed;
+}
+
+// Parsed signatures per loaded file
+const signatureCache = new WeakMap<object, Record<string, OperationSignature>>();
+
+export function getSignature(
+  rData: RLangFile,
+  operation: string,
+): OperationSignature | null {
+  let signatures = signatureCache.get(rData);
+  if (!signatures) {
+    signatures = parseSignatures(rData);
+    signatureCache.set(rData, signatures);
+  }
+  return Object.prototype.hasOwnProperty.call(signatures, operation)
+    ? signatures[operation]
+    : null;
+}
+
+/**
+ * Validate the input of `operation` and return it with schema defaults
+ * applied. Throws SignatureError when it does not match.
+ */
+export function checkInput(rData: RLangFile, operation: string, input: any): any {
+  const schema = getSignature(rData, operation)?.inputs;
+  if (!schema) return input;
+
+  const value = applyDefaults(input ?? {}, schema);
+  const issues = validateValue(value, schema, "input");
+  if (issues.length > 0) throw new SignatureError(operation, "input", issues);
+  return value;
+}
+
+export function checkOutput(
+  rData: RLangFile,
+  operation: string,
+  output: any,
+): void {
+  const schema = getSignature(rData, operation)?.outputs;
+  if (!schema) return;
+
+  const issues = validateValue(output, schema, "output");
+  if (issues.length > 0) throw new SignatureError(operation, "output", issues);
+}
+
+export function validateValue(
+  value: any,
+  schema: Schema,
+  path: string,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const fail = (message: string) => issues.push({ path, message });
+
+  const types = schemaTypes(schema);
+  if (!types.includes("any") && !types.some((type) => matchesType(value, type))) {
+    fail(`must be ${types.join(" or ")} but is ${describeType(value)}`);
+    return issues;
+  }
+
+  if (schema.enum && !schema.enum.some((option) => equals(option, value))) {
+    fail(`must be one of ${schema.enum.map((o) => JSON.stringify(o)).join(", ")}`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(`must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      fail(`must match /${schema.pattern}/`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      const items = schema.items as Schema;
+      value.forEach((item, index) =>
+        issues.push(...validateValue(item, items, `${path}[${index}]`)),
+      );
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const name of schema.required ?? []) {
+      if (value[name] === undefined) {
+        issues.push({ path: `${path}.${name}`, message: "is required" });
+      }
+    }
+    const properties = (schema.properties ?? {}) as Record<string, Schema>;
+    for (const [name, child] of Object.entries(value)) {
+      if (Object.prototype.hasOwnProperty.call(properties, name)) {
+        if (child !== undefined) {
+          issues.push(...validateValue(child, properties[name], `${path}.${name}`));
+        }
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: `${path}.${name}`, message: "is not allowed" });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * TypeScript type for a schema, e.g. `{ invoice_id: string; amount?: number }`.
+ */
+export function schemaToTypeScript(schema: Schema | undefined, indent = ""): string {
+  if (!schema) return "any";
+  if (schema.enum) {
+    return schema.enum.map((option) => JSON.stringify(option)).join(" | ");
+  }
+
+  const inner = `${indent}  `;
+  return schemaTypes(schema)
+    .map((type) => {
+      switch (type) {
+        case "integer":
+          return "number";
+        case "array":
+          return `Array<${schemaToTypeScript(schema.items as Schema, indent)}>`;
+        case "object": {
+          const properties = Object.entries(
+            (schema.properties ?? {}) as Record<string, Schema>,
+          );
+          if (properties.length === 0) return "Record<string, any>";
+          const required = new Set(schema.required ?? []);
+          const members = properties.map(([name, child]) => {
+            const key = /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+            const optional = required.has(name) ? "" : "?";
+            const comment = child.description ? `${inner}/** ${child.description} */\n` : "";
+            return `${comment}${inner}${key}${optional}: ${schemaToTypeScript(child, inner)};`;
+          });
+          if (schema.additionalProperties !== false) {
+            members.push(`${inner}[key: string]: any;`);
+          }
+          return `{\n${members.join("\n")}\n${indent}}`;
+        }
+        default:
+          return type;
+      }
+    })
+    .join(" | ");
+}
+
+/**
+ * A TypeScript module declaring the input and output types of every signed
+ * operation in `modules`, plus an `RLangOperations` map keyed by file.
+ */
+export function generateSignatureTypes(
+  modules: Array<{ file: string; rFile: RLangFile }>,
+): string {
+  const declarations: string[] = [];
+  const entries: string[] = [];
+
+  for (const { file, rFile } of modules) {
+    const signatures = Object.entries(parseSignatures(rFile));
+    if (signatures.length === 0) continue;
+
+    const prefix = pascalCase(
+      rFile.self?.id ?? file.replace(/^.*\//, "").replace(/\.r$/, ""),
+    );
+    const operations = signatures.map(([operation, signature]) => {
+      const name = `${prefix}${pascalCase(operation)}`;
+      declarations.push(
+        `export type ${name}Input = ${schemaToTypeScript(signature.inputs)};`,
+        `export type ${name}Output = ${schemaToTypeScript(signature.outputs)};`,
+      );
+      return `    ${JSON.stringify(operation)}: { input: ${name}Input; output: ${name}Output };`;
+    });
+    entries.push(`  ${JSON.stringify(file)}: {\n${operations.join("\n")}\n  };`);
+  }
+
+  return [
+    "// Generated by `rlang types` from the signatures: sections of .r files.",
+    "// Do not edit - regenerate instead.",
+    "",
+    ...declarations.flatMap((declaration) => [declaration, ""]),
+    `export interface RLangOperations {\n${entries.join("\n")}\n}`,
+    "",
+  ].join("\n");
+}
+
+function pascalCase(name: string): string {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+}
+
+// `amount: number` -> { type: "number" }; untyped schemas with properties
+// are objects
+function normalizeSchema(schema: any, path: string): Schema {
+  if (typeof schema === "string") {
+    if (!SCHEMA_TYPES.has(schema)) {
+      throw new Error(`${path}: unknown type '${schema}'`);
+    }
+    return { type: schema as SchemaType };
+  }
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    throw new Error(`${path}: schema must be a type name or a mapping`);
+  }
+
+  for (const key of Object.keys(schema)) {
+    if (!SCHEMA_KEYS.has(key)) {
+      throw new Error(`${path}: unknown schema keyword '${key}'`);
+    }
+  }
+  const types: unknown[] = schema.type === undefined ? [] : [].concat(schema.type);
+  for (const type of types) {
+    if (typeof type !== "string" || !SCHEMA_TYPES.has(type)) {
+      throw new Error(`${path}: unknown type '${type}'`);
+    }
+  }
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) {
+    throw new Error(`${path}: enum must be a list`);
+  }
+  if (
+    schema.required !== undefined &&
+    (!Array.isArray(schema.required) ||
+      schema.required.some((name: unknown) => typeof name !== "string"))
+  ) {
+    throw new Error(`${path}: required must be a list of property names`);
+  }
+  if (schema.pattern !== undefined) {
+    try {
+      new RegExp(schema.pattern);
+    } catch {
+      throw new Error(`${path}: invalid pattern /${schema.pattern}/`);
+    }
+  }
+
+  const normalized: Schema = { ...schema };
+  if (schema.type === undefined && schema.properties !== undefined) {
+    normalized.type = "object";
+  }
+  if (schema.properties !== undefined) {
+    if (!schema.properties || typeof schema.properties !== "object") {
+      throw new Error(`${path}: properties must be a mapping`);
+    }
+    normalized.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([name, child]) => [
+        name,
+        normalizeSchema(child, `${path}.${name}`),
+      ]),
+    );
+  }
+  if (schema.items !== undefined) {
+    normalized.items = normalizeSchema(schema.items, `${path}[]`);
+  }
+  return normalized;
+}
+
+function applyDefaults(value: any, schema: Schema): any {
+  if (!isPlainObject(value) || !schema.properties) return value;
+
+  const result = { ...value };
+  for (const [name, child] of Object.entries(
+    schema.properties as Record<string, Schema>,
+  )) {
+    if (result[name] === undefined && child.default !== undefined) {
+      result[name] = structuredClone(child.default);
+    } else if (result[name] !== undefined) {
+      result[name] = applyDefaults(result[name], child);
+    }
+  }
+  return result;
+}
+
+function schemaTypes(schema: Schema): SchemaType[] {
+  if (schema.type === undefined) return ["any"];
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+function matchesType(value: any, type: SchemaType): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "object":
+      return isPlainObject(value);
+    case "array":
+      return Array.isArray(value);
+    case "null":
+      return value === null;
+    case "any":
+      return true;
+  }
+}
+
+function describeType(value: any): string {
+  if (value === null) return "null";
+  if (value === undefined) return "missing";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function equals(a: any, b: any): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
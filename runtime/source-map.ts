@@ -0,0 +1,184 @@
+// runtime/source-map.ts
+// Source positions for parsed .r files so traces and errors can point at file:line:column
+
+import { LineCounter, parseDocument, isMap, isSeq, isScalar, Node } from "yaml";
+
+export interface SourceLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+// Node positions keyed by path, e.g. "operations/message_handler/3"
+export type SourcePositions = Record<string, SourceLocation>;
+
+export interface ParsedSource {
+  data: any;
+  positions: SourcePositions;
+  errors: Array<{ message: string; line: number; column: number }>;
+}
+
+// Step arrays -> location of each step, registered when a file is loaded
+const stepLocations = new WeakMap<object, Array<SourceLocation | undefined>>();
+
+// File -> source lines, for code frames
+const sources = new Map<string, string[]>();
+
+/**
+ * Parse YAML content keeping the position of every mapping value and
+ * sequence item.
+ */
+export function parseWithPositions(
+  content: string,
+  filePath: string,
+): ParsedSource {
+  const file = displayPath(filePath);
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter, prettyErrors: false });
+
+  const errors = doc.errors.map((err) => {
+    const pos = lineCounter.linePos(err.pos[0]);
+    return {
+      message: err.message.split("\n")[0],
+      line: pos.line,
+      column: pos.col,
+    };
+  });
+
+  const positions: SourcePositions = {};
+  const record = (node: Node | null | undefined, path: string[]) => {
+    if (!node) return;
+    if (node.range) {
+      const pos = lineCounter.linePos(node.range[0]);
+      positions[path.join("/")] = { file, line: pos.line, column: pos.col };
+    }
+    if (isMap(node)) {
+      for (const pair of node.items) {
+        const key = isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+        record(pair.value as Node, [...path, key]);
+      }
+    } else if (isSeq(node)) {
+      node.items.forEach((item, index) =>
+        record(item as Node, [...path, String(index)]),
+      );
+    }
+  };
+  record(doc.contents as Node, []);
+
+  const data = errors.length === 0 ? doc.toJS() : null;
+  return { data, positions, errors };
+}
+
+/**
+ * Register step locations for every array in a parsed file so the executor
+ * can look them up by (steps, index).
+ */
+export function attachSourcePositions(
+  root: any,
+  positions: SourcePositions,
+): void {
+  const visit = (value: any, path: string[]) => {
+    if (Array.isArray(value)) {
+      stepLocations.set(
+        value,
+        value.map((_, index) => positions[[...path, String(index)].join("/")]),
+      );
+      value.forEach((item, index) => visit(item, [...path, String(index)]));
+    } else if (value && typeof value === "object") {
+      for (const [key, child] of Object.entries(value)) {
+        visit(child, [...path, key]);
+      }
+    }
+  };
+  visit(root, []);
+}
+
+export function registerSource(filePath: string, content: string): void {
+  sources.set(displayPath(filePath), content.split(/\r?\n/));
+}
+
+export function getStepLocation(
+  steps: object,
+  index: number,
+): SourceLocation | undefined {
+  return stepLocations.get(steps)?.[index];
+}
+
+/**
+ * Closest recorded position for a path, walking up to its ancestors.
+ */
+export function locatePath(
+  positions: SourcePositions,
+  path: Array<string | number>,
+): SourceLocation | undefined {
+  for (let depth = path.length; depth >= 0; depth--) {
+    const location = positions[path.slice(0, depth).join("/")];
+    if (location) return location;
+  }
+  return undefined;
+}
+
+export function formatLocation(location: SourceLocation): string {
+  return `${location.file}:${location.line}:${location.column}`;
+}
+
+/**
+ * Code frame around a location, in the usual "> 12 | source" layout.
+ */
+export function formatCodeFrame(
+  location: SourceLocation,
+  contextLines = 2,
+): string {
+  const lines = sources.get(location.file);
+  if (!lines) return "";
+
+  const start = Math.max(1, location.line - contextLines);
+  const end = Math.min(lines.length, location.line + contextLines);
+  const width = String(end).length;
+  const frame: string[] = [];
+
+  for (let lineNo = start; lineNo <= end; lineNo++) {
+    const marker = lineNo === location.line ? ">" : " ";
+    frame.push(
+      `${marker} ${String(lineNo).padStart(width)} | ${lines[lineNo - 1]}`,
+    );
+    if (lineNo === location.line) {
+      frame.push(
+        `  ${" ".repeat(width)} | ${" ".repeat(Math.max(0, location.column - 1))}^`,
+      );
+    }
+  }
+
+  return frame.join("\n");
+}
+
+/**
+ * Tag an error with the step location it came from. The innermost step wins:
+ * once an error carries a location, outer steps leave it untouched. The
+ * message stays as thrown, for catch blocks and retry_on; runs add the
+ * location when they report the error.
+ */
+export function attachErrorLocation(
+  error: unknown,
+  location: SourceLocation | undefined,
+): Error {
+  const err =
+    error instanceof Error ? error : new Error(String(error));
+  if (!location || getErrorLocation(err)) return err;
+
+  Object.defineProperty(err, "rlangLocation", {
+    value: location,
+    enumerable: false,
+  });
+  return err;
+}
+
+export function getErrorLocation(error: unknown): SourceLocation | undefined {
+  return error && typeof error === "object"
+    ? (error as any).rlangLocation
+    : undefined;
+}
+
+function displayPath(filePath: string): string {
+  return filePath.replace(/^\.\//, "");
+}
@@ -2,9 +2,69 @@
 // ENHANCED: Auto-generation magic when service modules are missing
 // This is where the "wow factor" happens - auto-generates utils/xero.ts when needed
 
-import { evaluateCondition } from "./condition-evaluator";
+import {
+  evaluateCondition,
+  evaluateSwitch,
+  matchesCase,
+} from "./condition-evaluator";
+import { resolveValue } from "./resolver";
+import { resolveOperation } from "./imports";
+import { getSuperTarget } from "./inheritance";
+import { enterFrame, isResolving } from "./call-stack";
+import { checkStepAccess } from "./policy";
 import { getFunction } from "../utils/runtime";
-import { RLangContext, RLangStep, ExecutionResult } from "../schema/types";
+import {
+  RLangContext,
+  RLangStep,
+  ExecutionResult,
+  TraceEntry,
+} from "../schema/types";
+import { getStepKey } from "./step-keys";
+import {
+  attachErrorLocation,
+  formatLocation,
+  getErrorLocation,
+  getStepLocation,
+} from "./source-map";
+import { RetryPolicy, getRetryDelay, parseRetryPolicy, sleep } from "./retry";
+import { mapWithConcurrency } from "./concurrency";
+import {
+  assignBinding,
+  bindStepOutput,
+  createChildScope,
+  declareBinding,
+  getBindingName,
+  getScopingMode,
+} from "./scope";
+import {
+  beginModuleCall,
+  beginStep,
+  ExecutionError,
+  isExecutionError,
+  isExecutionErrorCode,
+  throwIfStopped,
+  whileRunning,
+} from "./execution-control";
+import {
+  RLangError,
+  addStepFrame,
+  isRLangError,
+  toErrorInfo,
+} from "./errors";
+import {
+  LoopAbortError,
+  LoopSignal,
+  checkLoopGuards,
+  isLoopSignal,
+  parseLoopGuards,
+} from "./loop-control";
+import { StepCheckpoints } from "./journal";
+import {
+  isPromptSuspension,
+  suspendForAnswer,
+  takeResumePoint,
+  withoutSuspension,
+} from "./human-input";
 import { writeFile, mkdir } from "fs/promises";
 import { dirname } from "path";
 
@@ -48,15 +108,49 @@ export async function executeSteps(
   steps: RLangStep[],
   context: RLangContext,
   rData: any,
+  checkpoints?: StepCheckpoints, // Durable runs only, see runtime/journal.ts
 ): Promise<ExecutionResult> {
   await initRCD();
 
   const trace: any[] = [];
-  let output: any = null;
+  let output: any = checkpoints?.output ?? null;
+  const scoping = getScopingMode(rData);
+  let startAt = checkpoints?.startAt ?? 0;
+
+  // A run resumed after a prompt.user answer re-enters the steps leading to
+  // the prompt, then continues after it with the answer as its output
+  const resumePoint = takeResumePoint(context, steps);
+  if (resumePoint) {
+    startAt = resumePoint.index;
+    if (resumePoint.answer) {
+      const prompt = steps[resumePoint.index];
+      bindStepOutput(
+        context,
+        "prompt.user",
+        resumePoint.answer,
+        getBindingName(prompt),
+        scoping,
+      );
+      output = resumePoint.answer;
+      trace.push({
+        step: "prompt.user",
+        output: resumePoint.answer,
+        timestamp: new Date().toISOString(),
+        success: true,
+      });
+      await checkpoints?.onStepComplete(resumePoint.index, "prompt.user", output);
+      startAt++;
+    }
+  }
+
+  for (const [index, step] of steps.entries()) {
+    if (index < startAt) continue;
+    const location = getStepLocation(steps, index);
+    let stepResult: StepResult;
 
-  for (const step of steps) {
     try {
-      const stepResult = await executeStep(step, context, rData);
+      beginStep(context.control);
+      stepResult = await executeStepWithRetry(step, context, rData, trace);
 
       trace.push({
         step: stepResult.stepName,
@@ -64,33 +158,201 @@ export async function executeSteps(
         output: stepResult.output,
         timestamp: new Date().toISOString(),
         success: true,
+        location: location && formatLocation(location),
+        branch: stepResult.branch,
       });
-
-      if (stepResult.output !== undefined) {
-        context.memory = {
-          ...context.memory,
-          ...stepResult.output,
-          [stepResult.stepName]: stepResult.output,
-        };
-        output = stepResult.output;
-      }
     } catch (error) {
+      if (isLoopSignal(error)) throw error;
+      if (isPromptSuspension(error)) {
+        error.path.unshift({ index, step: getStepKey(step) });
+      }
+
+      const located = attachErrorLocation(error, location);
+      addStepFrame(located, typeof step === "string" ? step : getStepKey(step));
+      const handler = isExecutionError(error) ? null : getErrorHandler(step);
       trace.push({
-        step: typeof step === "string" ? step : Object.keys(step)[0],
-        error: error instanceof Error ? getErrorMessage(error) : String(error),
+        step: typeof step === "string" ? step : getStepKey(step),
+        error: getErrorMessage(located),
         timestamp: new Date().toISOString(),
         success: false,
+        location: location && formatLocation(location),
+        attempt: (located as any).rlangAttempts,
+        handled: !!handler,
+        errorType: (located as any).errorType,
+        errorInfo: toErrorInfo(located),
       });
 
-      if (!hasErrorHandling(step)) {
-        throw error;
+      if (!handler) {
+        throw located;
       }
+
+      const handled = await runErrorHandler(
+        handler.steps,
+        located,
+        getStepKey(step),
+        context,
+        rData,
+      );
+      trace.push(...handled.trace);
+      stepResult = {
+        stepName: getStepKey(step),
+        input: undefined,
+        output: handled.output,
+      };
+    }
+
+    if (stepResult.output !== undefined) {
+      bindStepOutput(
+        context,
+        stepResult.stepName,
+        stepResult.output,
+        getBindingName(step),
+        scoping,
+      );
+      output = stepResult.output;
     }
+    await checkpoints?.onStepComplete(index, stepResult.stepName, output);
   }
 
   return { output, context, trace };
 }
 
+interface StepResult {
+  stepName: string;
+  input: any;
+  output: any;
+  trace?: TraceEntry[];
+  branch?: string; // Case chosen by a switch step
+}
+
+/**
+ * Run a step, re-running it according to its `retry:` policy. Failed
+ * attempts that will be retried are appended to the caller's trace.
+ */
+async function executeStepWithRetry(
+  step: RLangStep,
+  context: RLangContext,
+  rData: any,
+  trace: TraceEntry[],
+): Promise<StepResult> {
+  const policy =
+    typeof step === "object" ? parseRetryPolicy((step as any).retry) : null;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result: StepResult = await executeStep(step, context, rData);
+      if (result.trace) trace.push(...result.trace);
+      return result;
+    } catch (error) {
+      if (
+        isLoopSignal(error) ||
+        isExecutionError(error) ||
+        !policy ||
+        attempt >= policy.attempts ||
+        !shouldRetry(policy, error, getStepKey(step), context)
+      ) {
+        if (policy && error && typeof error === "object") {
+          Object.defineProperty(error, "rlangAttempts", {
+            value: attempt,
+            enumerable: false,
+            configurable: true,
+          });
+        }
+        throw error;
+      }
+
+      const delay = getRetryDelay(policy, attempt);
+      trace.push({
+        step: getStepKey(step),
+        error: `${getErrorMessage(error)} (retrying in ${delay}ms)`,
+        timestamp: new Date().toISOString(),
+        success: false,
+        attempt,
+      });
+      await whileRunning(context.control, sleep(delay));
+    }
+  }
+}
+
+function shouldRetry(
+  policy: RetryPolicy,
+  error: unknown,
+  stepName: string,
+  context: RLangContext,
+): boolean {
+  if (!policy.retryOn) return true;
+  return withErrorBound(context, error, stepName, () =>
+    evaluateCondition(policy.retryOn, context),
+  );
+}
+
+/**
+ * The handler steps for a failed step: `onError:` (or `catch:` on a plain
+ * step). `try:` steps handle their own `catch:` block.
+ */
+function getErrorHandler(step: RLangStep): { steps: RLangStep[] } | null {
+  if (typeof step !== "object" || step === null || "try" in step) {
+    return null;
+  }
+  const handler = (step as any).onError ?? (step as any).catch;
+  if (handler === undefined) return null;
+  return { steps: Array.isArray(handler) ? handler : [handler] };
+}
+
+async function runErrorHandler(
+  handlerSteps: RLangStep[],
+  error: unknown,
+  stepName: string,
+  context: RLangContext,
+  rData: any,
+): Promise<ExecutionResult> {
+  return withErrorBound(context, error, stepName, () =>
+    withoutSuspension(context, () => executeSteps(handlerSteps, context, rData)),
+  );
+}
+
+/**
+ * Bind `${error}` in memory for the duration of fn, restoring whatever was
+ * there before (handlers can be nested).
+ */
+function withErrorBound<T>(
+  context: RLangContext,
+  error: unknown,
+  stepName: string,
+  fn: () => T,
+): T {
+  const hadError = Object.prototype.hasOwnProperty.call(context.memory, "error");
+  const previous = context.memory.error;
+  const location = getErrorLocation(error);
+
+  context.memory.error = {
+    message: getErrorMessage(error),
+    step: stepName,
+    location: location && formatLocation(location),
+    attempts: (error as any)?.rlangAttempts ?? 1,
+  };
+
+  const restore = () => {
+    if (hadError) {
+      context.memory.error = previous;
+    } else {
+      delete context.memory.error;
+    }
+  };
+
+  try {
+    const result = fn();
+    if (result instanceof Promise) {
+      return result.finally(restore) as T;
+    }
+    restore();
+    return result;
+  } catch (err) {
+    restore();
+    throw err;
+  }
+}
+
 // 🪄 THE MAGIC HAPPENS HERE - Auto-generation when module missing
 async function executeModuleFunction(
   funcPath: string,
@@ -98,44 +360,23 @@ async function executeModuleFunction(
   context: RLangContext,
 ): Promise<{ stepName: string; input: any; output: any }> {
   const [module, funcName] = funcPath.split(".");
+  beginModuleCall(context.control, module);
 
+  // Only failing to find the function falls back to RCD resolution and
+  // auto-generation; what the function itself throws is reported as is
+  let func: Function;
   try {
     // TRY: Use getFunction first (this will check registry and utils paths)
-    const func = await getFunction(module, funcName, context);
-    const resolvedArgs = resolveValue(stepValue, context);
-    const output = await func(resolvedArgs, context);
-    return { stepName: funcPath, input: resolvedArgs, output };
+    func = await getFunction(module, funcName, context);
   } catch (getFunctionError) {
+    if (isExecutionError(getFunctionError)) throw getFunctionError;
+
     // FALLBACK: Original logic for auto-generation
     try {
-      // Try RCD resolution first
-      if (rcdResolver) {
-        const rcdResult = await rcdResolver(`${module}_integration`, context);
-        if (rcdResult?.provider) {
-          const providerModule = await import(`../${rcdResult.provider}`);
-          if (providerModule[funcName]) {
-            const resolvedArgs = resolveValue(stepValue, context);
-            const output = await providerModule[funcName](
-              resolvedArgs,
-              context,
-            );
-            return { stepName: funcPath, input: resolvedArgs, output };
-          }
-        }
-      }
-
-      // Try to load existing module (original logic)
-      const moduleFile = await import(`../utils/${module}`);
-      const func = moduleFile[funcName];
-
-      if (!func) {
-        throw new Error(`Function ${funcName} not found in ${module}`);
-      }
-
-      const resolvedArgs = resolveValue(stepValue, context);
-      const output = await func(resolvedArgs, context);
-      return { stepName: funcPath, input: resolvedArgs, output };
+      func = await findFallbackFunction(module, funcName, context);
     } catch (error) {
+      if (isExecutionError(error)) throw error;
+
       // 🎯 AUTO-GENERATION TRIGGER - This is the magic moment!
       if (
         error instanceof Error &&
@@ -257,7 +498,11 @@ async function executeModuleFunction(
           }
 
           const resolvedArgs = resolveValue(stepValue, context);
-          const output = await generatedFunc(resolvedArgs, context);
+          throwIfStopped(context.control);
+          const output: any = await whileRunning(
+            context.control,
+            generatedFunc(resolvedArgs, context),
+          );
 
           return {
             stepName: funcPath,
@@ -280,64 +525,152 @@ async function executeModuleFunction(
       }
 
       // If it's not a missing module error, rethrow
-      throw error;
+      if (isRLangError(error)) throw error;
+      throw new RLangError("FUNCTION_NOT_FOUND", getErrorMessage(error), {
+        cause: error,
+      });
     }
   }
+
+  return callModuleFunction(funcPath, func, stepValue, context);
+}
+
+// RCD-provided implementation first, then utils/<module>
+async function findFallbackFunction(
+  module: string,
+  funcName: string,
+  context: RLangContext,
+): Promise<Function> {
+  // Not from within the linker itself
+  if (rcdResolver && !isResolving(context)) {
+    const rcdResult = await rcdResolver(`${module}_integration`, {
+      ...context,
+      callStack: enterFrame(context, {
+        kind: "resolve",
+        name: `${module}_integration`,
+      }),
+    });
+    if (rcdResult?.provider) {
+      const providerModule = await import(`../${rcdResult.provider}`);
+      if (providerModule[funcName]) return providerModule[funcName];
+    }
+  }
+
+  // Try to load existing module (original logic)
+  const moduleFile = await import(`../utils/${module}`);
+  const func = moduleFile[funcName];
+  if (!func) {
+    throw new RLangError(
+      "FUNCTION_NOT_FOUND",
+      `Function ${funcName} not found in ${module}`,
+    );
+  }
+  return func;
+}
+
+// Errors a module function throws keep their message and become the cause
+// of a MODULE_ERROR (or NETWORK_ERROR)
+async function callModuleFunction(
+  funcPath: string,
+  func: Function,
+  stepValue: any,
+  context: RLangContext,
+): Promise<{ stepName: string; input: any; output: any }> {
+  const resolvedArgs = resolveValue(stepValue, context);
+  // The run may have stopped while the module loaded
+  throwIfStopped(context.control);
+  try {
+    const output = await whileRunning(
+      context.control,
+      func(resolvedArgs, context),
+    );
+    return { stepName: funcPath, input: resolvedArgs, output };
+  } catch (error) {
+    if (isRLangError(error)) throw error;
+    const info = toErrorInfo(error);
+    throw new RLangError(
+      info.code === "STEP_FAILED" ? "MODULE_ERROR" : info.code,
+      info.message,
+      { cause: error, retryable: info.retryable },
+    );
+  }
 }
 
 // All other functions remain unchanged from original step-executor.ts
 async function executeStep(step: RLangStep, context: RLangContext, rData: any) {
   if (typeof step === "string") {
-    return executeSimpleStep(step, context);
+    return step === "super"
+      ? executeSuperStep(step, null, context, rData)
+      : executeSimpleStep(step, context, rData);
   }
 
-  const stepKey = Object.keys(step)[0];
+  const stepKey = getStepKey(step);
   const stepValue = (step as any)[stepKey];
 
   switch (stepKey) {
     case "condition":
-      return executeConditionalStep(
-        resolveValue(stepValue, context),
-        context,
-        rData,
-      );
+      return executeConditionalStep(stepValue, context, rData);
     case "loop":
       return executeLoopStep(stepValue, context, rData);
     case "run":
       return executeRunStep(stepValue, context);
     case "respond":
       return executeRespondStep(stepValue, context);
+    case "emit":
+      return executeEmitStep(stepValue, context);
     case "prompt.user":
       return executePromptUserStep(stepValue, context);
     case "self.modify":
-      return executeSelfModifyStep(stepValue, context);
+      return executeSelfModifyStep(stepValue, context, rData);
     case "self.reflect":
       return executeSelfReflectStep(stepValue, context);
     case "return":
       return executeReturnStep(stepValue, context);
     case "set_memory":
-      return executeSetMemoryStep(stepValue, context);
+      return executeSetMemoryStep(stepValue, context, rData);
+    case "let":
+      return executeLetStep(stepValue, context, rData);
     case "append_to_array":
-      return executeAppendToArrayStep(stepValue, context);
+      return executeAppendToArrayStep(stepValue, context, rData);
+    case "try":
+      return executeTryStep(step as Record<string, any>, context, rData);
+    case "parallel":
+      return executeParallelStep(stepValue, context, rData);
+    case "switch":
+      return executeSwitchStep(stepValue, context, rData);
+    case "break":
+    case "continue":
+      return executeLoopSignalStep(stepKey, stepValue, context);
+    case "super":
+      return executeSuperStep(step, stepValue, context, rData);
     default:
-      // Smart routing: internal operations vs module functions
-      if (rData.operations?.[stepKey]) {
-        return executeInternalOperation(
-          stepKey,
+      // Smart routing: internal (or imported) operations vs module functions
+      const target = resolveOperation(rData, stepKey);
+      if (target) {
+        const result = await executeInternalOperation(
+          target.operation,
           resolveValue(stepValue, context),
           context,
-          rData,
+          target.rData,
         );
+        return { ...result, stepName: stepKey };
       }
+      checkStepAccess(rData, stepKey, context);
       return executeModuleFunction(stepKey, stepValue, context);
   }
 }
 
-async function executeSimpleStep(step: string, context: RLangContext) {
+async function executeSimpleStep(
+  step: string,
+  context: RLangContext,
+  rData: any,
+) {
   const [funcName, ...args] = step.split(":").map((s) => s.trim());
   const input = args.length > 0 ? args.join(":") : undefined;
+  checkStepAccess(rData, `core.${funcName}`, context);
   const func = await getFunction("core", funcName);
-  const output = await func(input, context);
+  throwIfStopped(context.control);
+  const output = await whileRunning(context.control, func(input, context));
   return { stepName: funcName, input, output };
 }
 
@@ -346,8 +679,16 @@ async function executeConditionalStep(
   context: RLangContext,
   rData: any,
 ) {
+  // Legacy shape: `condition: { try: [...], catch: [...] }`
+  if (condition.try && condition.if === undefined && condition.condition === undefined) {
+    const result = await executeTryStep(condition, context, rData);
+    return { ...result, stepName: "condition" };
+  }
+
+  // The predicate is evaluated as one expression; then/else steps keep their
+  // source positions and resolve their own templates when they run
   const shouldExecute = evaluateCondition(
-    condition.if || condition.condition,
+    condition.if ?? condition.condition,
     context,
   );
   if (shouldExecute && condition.then) {
@@ -360,39 +701,395 @@ async function executeConditionalStep(
   return { stepName: "condition", input: condition, output: null };
 }
 
-async function executeLoopStep(loop: any, context: RLangContext, rData: any) {
+/**
+ * `switch: { on, cases, default }`. `cases` is either a mapping from value
+ * (or `*`/`?` wildcard pattern) to steps, or a list of
+ * `{ when: value | [values], do }`, `{ in: [values], do }` and
+ * `{ if: condition, do }` entries tried in order.
+ */
+async function executeSwitchStep(
+  block: any,
+  context: RLangContext,
+  rData: any,
+): Promise<StepResult> {
+  if (!block || typeof block !== "object" || !("on" in block)) {
+    throw new Error("switch requires an 'on' value");
+  }
+
+  const subject = resolveValue(block.on, context);
+  const { branch, steps } = selectSwitchCase(block, subject, context);
+
+  if (!steps) {
+    return { stepName: "switch", input: subject, output: null };
+  }
+
+  const result = await executeSteps(steps, context, rData);
+  return {
+    stepName: "switch",
+    input: subject,
+    output: result.output,
+    trace: result.trace,
+    branch: branch ?? undefined,
+  };
+}
+
+function selectSwitchCase(
+  block: any,
+  subject: any,
+  context: RLangContext,
+): { branch: string | null; steps?: RLangStep[] } {
+  const cases = block.cases ?? {};
+
+  if (Array.isArray(cases)) {
+    for (const [index, entry] of cases.entries()) {
+      if ("if" in entry) {
+        if (evaluateCondition(entry.if, context)) {
+          return { branch: `case ${index}`, steps: entry.do };
+        }
+        continue;
+      }
+
+      const candidates = resolveValue(entry.when ?? entry.in, context);
+      const list = Array.isArray(candidates) ? candidates : [candidates];
+      const match = list.find((candidate) => matchesCase(subject, candidate));
+      if (match !== undefined) {
+        return { branch: String(match), steps: entry.do };
+      }
+    }
+  } else {
+    const key = evaluateSwitch(subject, cases);
+    if (key !== null) {
+      return { branch: key, steps: cases[key] };
+    }
+  }
+
+  if (block.default) {
+    return { branch: "default", steps: block.default };
+  }
+  return { branch: null };
+}
+
+async function executeTryStep(
+  block: Record<string, any>,
+  context: RLangContext,
+  rData: any,
+): Promise<StepResult> {
+  const trace: TraceEntry[] = [];
+  let output: any = null;
+
+  try {
+    const result = await executeSteps(block.try || [], context, rData);
+    trace.push(...result.trace);
+    output = result.output;
+  } catch (error) {
+    if (isLoopSignal(error) || isExecutionError(error) || !block.catch) {
+      throw error;
+    }
+
+    const location = getErrorLocation(error);
+    trace.push({
+      step: "try",
+      error: getErrorMessage(error),
+      timestamp: new Date().toISOString(),
+      success: false,
+      location: location && formatLocation(location),
+      handled: true,
+      errorType: (error as any)?.errorType,
+    });
+
+    const handled = await runErrorHandler(
+      block.catch,
+      error,
+      "try",
+      context,
+      rData,
+    );
+    trace.push(...handled.trace);
+    output = handled.output;
+  } finally {
+    if (block.finally) {
+      const cleanup = await withoutSuspension(context, () =>
+        executeSteps(block.finally, context, rData),
+      );
+      trace.push(...cleanup.trace);
+    }
+  }
+
+  return { stepName: "try", input: undefined, output, trace };
+}
+
+async function executeParallelStep(
+  branches: Record<string, RLangStep[]>,
+  context: RLangContext,
+  rData: any,
+): Promise<StepResult> {
+  if (!branches || typeof branches !== "object" || Array.isArray(branches)) {
+    throw new Error("parallel expects a mapping of branch name to steps");
+  }
+
+  const names = Object.keys(branches);
+  const settled = await withoutSuspension(context, () =>
+    Promise.allSettled(
+      names.map((name) =>
+        executeSteps(branches[name], forkContext(context, rData), rData),
+      ),
+    ),
+  );
+
+  rethrowIfStopped(settled);
+
+  const output: Record<string, any> = {};
+  const trace: TraceEntry[] = [];
+  const failures: string[] = [];
+
+  settled.forEach((result, i) => {
+    const branch = names[i];
+    if (result.status === "fulfilled") {
+      output[branch] = result.value.output;
+      trace.push(...result.value.trace.map((entry) => ({ ...entry, branch })));
+    } else {
+      failures.push(`${branch}: ${getErrorMessage(result.reason)}`);
+      trace.push({
+        step: "parallel",
+        branch,
+        error: getErrorMessage(result.reason),
+        timestamp: new Date().toISOString(),
+        success: false,
+      });
+    }
+  });
+
+  if (failures.length > 0) {
+    const first = settled.find((result) => result.status === "rejected");
+    throw new RLangError(
+      "PARALLEL_FAILED",
+      `parallel: ${failures.length} of ${names.length} branches failed (${failures.join("; ")})`,
+      { cause: (first as PromiseRejectedResult).reason },
+    );
+  }
+
+  return { stepName: "parallel", input: names, output, trace };
+}
+
+// A stopped run ends every branch; report that rather than branch failures
+function rethrowIfStopped(settled: PromiseSettledResult<unknown>[]): void {
+  for (const result of settled) {
+    if (result.status === "rejected" && isExecutionError(result.reason)) {
+      throw result.reason;
+    }
+  }
+}
+
+// Branches and concurrent loop items each get their own copy of memory so
+// they cannot observe each other's writes mid-flight
+function forkContext(
+  context: RLangContext,
+  rData: any,
+  memory: Record<string, any> = {},
+): RLangContext {
+  return {
+    ...context,
+    memory: createChildScope(context.memory, memory, getScopingMode(rData)),
+  };
+}
+
+// Loops cannot be replayed up to a prompt, so prompts in them cannot wait
+function executeLoopStep(loop: any, context: RLangContext, rData: any) {
+  return withoutSuspension(context, () => runLoop(loop, context, rData));
+}
+
+async function runLoop(loop: any, context: RLangContext, rData: any) {
+  if (loop.forEach && loop.concurrency !== undefined) {
+    return executeConcurrentForEach(loop, context, rData);
+  }
+
   const results: any[] = [];
+  const guards = parseLoopGuards(loop, !loop.forEach);
+  const startedAt = Date.now();
+  const scoping = getScopingMode(rData);
+
   if (loop.forEach) {
     const items = resolveValue(loop.forEach, context);
+    let index = 0;
     for (const item of items) {
-      const loopContext = { ...context, memory: { ...context.memory, item } };
-      const result = await executeSteps(loop.do, loopContext, rData);
-      results.push(result.output);
+      checkLoopGuards(guards, index, startedAt);
+      const loopContext = {
+        ...context,
+        memory: createChildScope(context.memory, { item, index }, scoping),
+      };
+      const iteration = await runLoopBody(loop.do, loopContext, rData);
+      if (iteration.signal !== "continue" && iteration.signal !== "break") {
+        results.push(iteration.output);
+      }
+      if (iteration.signal === "break") break;
+      index++;
     }
   } else if (loop.while) {
-    while (evaluateCondition(loop.while, context)) {
-      const result = await executeSteps(loop.do, context, rData);
-      results.push(result.output);
+    let index = 0;
+    // Legacy bodies get `index` in the caller's memory: put back what it was
+    const hadIndex = Object.prototype.hasOwnProperty.call(context.memory, "index");
+    const previous = context.memory.index;
+    try {
+      // The body runs against the loop's own context so it can flip the condition
+      while (evaluateCondition(loop.while, context)) {
+        checkLoopGuards(guards, index, startedAt);
+        let bodyContext = context;
+        if (scoping === "legacy") {
+          context.memory.index = index;
+        } else {
+          bodyContext = {
+            ...context,
+            memory: createChildScope(context.memory, { index }, scoping),
+          };
+        }
+        const iteration = await runLoopBody(loop.do, bodyContext, rData);
+        if (iteration.signal !== "continue" && iteration.signal !== "break") {
+          results.push(iteration.output);
+        }
+        if (iteration.signal === "break") break;
+        index++;
+      }
+    } finally {
+      if (scoping === "legacy" && hadIndex) {
+        context.memory.index = previous;
+      } else if (scoping === "legacy") {
+        delete context.memory.index;
+      }
     }
   }
   return { stepName: "loop", input: loop, output: results };
 }
 
+async function runLoopBody(
+  steps: RLangStep[],
+  context: RLangContext,
+  rData: any,
+): Promise<{ output?: any; signal?: "break" | "continue" }> {
+  try {
+    const result = await executeSteps(steps, context, rData);
+    return { output: result.output };
+  } catch (error) {
+    if (isLoopSignal(error)) return { signal: error.kind };
+    throw error;
+  }
+}
+
+async function executeLoopSignalStep(
+  kind: "break" | "continue",
+  value: any,
+  context: RLangContext,
+) {
+  // `break:` / `break: true` are unconditional; a string is a condition
+  const triggered =
+    value === null || value === undefined || value === true
+      ? true
+      : typeof value === "string"
+        ? evaluateCondition(value, context)
+        : Boolean(value);
+
+  if (triggered) {
+    throw new LoopSignal(kind);
+  }
+  return { stepName: kind, input: value, output: undefined };
+}
+
+async function executeConcurrentForEach(
+  loop: any,
+  context: RLangContext,
+  rData: any,
+): Promise<StepResult> {
+  const items = resolveValue(loop.forEach, context);
+  if (!Array.isArray(items)) {
+    throw new Error(`loop.forEach did not resolve to an array: ${loop.forEach}`);
+  }
+  const limit = Number(resolveValue(loop.concurrency, context));
+  const guards = parseLoopGuards(loop, false);
+  const startedAt = Date.now();
+  if (guards.maxIterations !== undefined && items.length > guards.maxIterations) {
+    throw new LoopAbortError(
+      `Loop aborted: ${items.length} items exceed max_iterations (${guards.maxIterations})`,
+      "max_iterations",
+      0,
+    );
+  }
+
+  const settled = await mapWithConcurrency(items, limit, async (item, index) => {
+    checkLoopGuards({ timeoutMs: guards.timeoutMs }, index, startedAt);
+    const iteration = await runLoopBody(
+      loop.do,
+      forkContext(context, rData, { item, index }),
+      rData,
+    );
+    if (iteration.signal === "break") {
+      throw new Error("break is not supported in loops with concurrency");
+    }
+    return iteration;
+  });
+
+  rethrowIfStopped(settled);
+  const aborted = settled.find(
+    (result) =>
+      result.status === "rejected" && result.reason instanceof LoopAbortError,
+  );
+  if (aborted?.status === "rejected") throw aborted.reason;
+
+  // Same output as the sequential loop: skipped items leave no result. Every
+  // item runs; then any failures fail the step, like parallel branches
+  const results: any[] = [];
+  const failures: string[] = [];
+  settled.forEach((result, index) => {
+    if (result.status === "rejected") {
+      failures.push(`item ${index}: ${getErrorMessage(result.reason)}`);
+    } else if (result.value.signal !== "continue") {
+      results.push(result.value.output);
+    }
+  });
+
+  if (failures.length > 0) {
+    const first = settled.find((result) => result.status === "rejected");
+    throw new RLangError(
+      "PARALLEL_FAILED",
+      `loop: ${failures.length} of ${items.length} items failed (${failures.join("; ")})`,
+      { cause: first?.status === "rejected" ? first.reason : undefined },
+    );
+  }
+
+  return { stepName: "loop", input: loop, output: results };
+}
+
+// Nested runs share the caller's context.control, so they stop with it and
+// count against its budgets. A run that hits its own timeout_ms fails the
+// step like any other error.
 async function executeRunStep(run: any, context: RLangContext) {
   const { runRLang } = await import("./interpreter");
-  if (typeof run === "string") {
-    const result = await runRLang({ file: run, context });
-    return { stepName: "run", input: run, output: result.result };
-  } else {
-    const result = await runRLang({
-      file: run.file || run[0],
-      operation: run.operation || run[1],
-      input: run.input,
-      context,
-      clientId: context.clientId,
-    });
-    return { stepName: "run", input: run, output: result.result };
+  const result =
+    typeof run === "string"
+      ? await runRLang({ file: run, context })
+      : await runRLang({
+          file: run.file || run[0],
+          operation: run.operation || run[1],
+          input: run.input,
+          context,
+          clientId: context.clientId,
+          timeoutMs: run.timeout_ms,
+        });
+  // result.error has the run's location and code frame; rethrow the message
+  const message = result.errorInfo?.message ?? result.error ?? "";
+  if (isExecutionErrorCode(result.errorCode)) {
+    // Only the run's own timeout_ms ran out: the caller can handle that
+    if (
+      result.errorCode === "EXECUTION_TIMEOUT" &&
+      !context.control?.signal.aborted
+    ) {
+      throw new RLangError("EXECUTION_TIMEOUT", message);
+    }
+    throw new ExecutionError(result.errorCode, message);
+  }
+  // Denied runs fail the step instead of passing on an empty result
+  if (result.errorCode === "ACCESS_DENIED") {
+    throw new RLangError("ACCESS_DENIED", message);
   }
+  return { stepName: "run", input: run, output: result.result };
 }
 
 async function executeRespondStep(respond: any, context: RLangContext) {
@@ -403,21 +1100,40 @@ async function executeRespondStep(respond: any, context: RLangContext) {
   return { stepName: "respond", input: respond, output };
 }
 
+// Publishes to the event bus; subscribers run later (runtime/events.ts)
+async function executeEmitStep(emit: any, context: RLangContext) {
+  const { emitEvent } = await import("./events");
+  const { topic, data } = resolveValue(emit, context);
+  const { event, deliveries } = await emitEvent(topic, data, context);
+  const output = { event_id: event.id, trace_id: event.traceId, deliveries };
+  return { stepName: "emit", input: emit, output };
+}
+
 async function executePromptUserStep(prompt: any, context: RLangContext) {
   const rocketchat = await getFunction("rocketchat", "promptUser");
+  if (prompt?.wait === true) {
+    return suspendForAnswer(prompt, context, rocketchat);
+  }
   const output = await rocketchat(prompt, context);
   return { stepName: "prompt.user", input: prompt, output };
 }
 
-async function executeSelfModifyStep(modify: any, context: RLangContext) {
+async function executeSelfModifyStep(
+  modify: any,
+  context: RLangContext,
+  rData: any,
+) {
+  checkStepAccess(rData, "self.modify", context);
   const generateAgent = await getFunction("core", "generateAgent");
   const output = await generateAgent(modify, context);
   return { stepName: "self.modify", input: modify, output };
 }
 
 async function executeSelfReflectStep(reflect: any, context: RLangContext) {
+  beginModuleCall(context.control, "infer");
   const infer = await getFunction("infer", "reflect");
-  const output = await infer(reflect, context);
+  throwIfStopped(context.control);
+  const output = await whileRunning(context.control, infer(reflect, context));
   return { stepName: "self.reflect", input: reflect, output };
 }
 
@@ -426,20 +1142,44 @@ async function executeReturnStep(returnValue: any, context: RLangContext) {
   return { stepName: "return", input: returnValue, output: resolvedValue };
 }
 
-async function executeSetMemoryStep(setMemory: any, context: RLangContext) {
+async function executeSetMemoryStep(
+  setMemory: any,
+  context: RLangContext,
+  rData: any,
+) {
+  const scoping = getScopingMode(rData);
+  const resolved: Record<string, any> = {};
+
   // Update context memory with the provided key-value pairs
   for (const [key, value] of Object.entries(setMemory)) {
-    const resolvedValue = resolveValue(value, context);
-    context.memory[key] = resolvedValue;
+    resolved[key] = resolveValue(value, context);
+    assignBinding(context.memory, key, resolved[key], scoping);
   }
-  return { stepName: "set_memory", input: setMemory, output: setMemory };
+  return { stepName: "set_memory", input: setMemory, output: resolved };
+}
+
+async function executeLetStep(
+  declarations: any,
+  context: RLangContext,
+  rData: any,
+) {
+  const scoping = getScopingMode(rData);
+  const resolved: Record<string, any> = {};
+
+  // Declare new bindings in the current scope
+  for (const [key, value] of Object.entries(declarations || {})) {
+    resolved[key] = resolveValue(value, context);
+    declareBinding(context.memory, key, resolved[key], scoping);
+  }
+  return { stepName: "let", input: declarations, output: resolved };
 }
 
 async function executeAppendToArrayStep(
   appendArgs: any,
   context: RLangContext,
+  rData: any,
 ) {
-  const arrayName = appendArgs.array;
+  const arrayName = resolveValue(appendArgs.array, context);
   const item = resolveValue(appendArgs.item, context);
 
   // Get the current array from memory
@@ -449,7 +1189,7 @@ async function executeAppendToArrayStep(
   const newArray = [...currentArray, item];
 
   // Update memory
-  context.memory[arrayName] = newArray;
+  assignBinding(context.memory, arrayName, newArray, getScopingMode(rData));
 
   return { stepName: "append_to_array", input: appendArgs, output: newArray };
 }
@@ -463,19 +1203,76 @@ async function executeInternalOperation(
   // Look for the operation in the current R-lang file
   const operation = rData.operations?.[operationName];
   if (!operation) {
-    throw new Error(
+    throw new RLangError(
+      "OPERATION_NOT_FOUND",
       `Internal operation '${operationName}' not found in ${rData.self?.id || "current file"}`,
     );
   }
+  return runOperationSteps(operationName, operation, args, context, rData);
+}
+
+// `super` runs the inherited definition of the enclosing operation, with
+// the caller's input unless arguments are given
+async function executeSuperStep(
+  step: RLangStep,
+  args: any,
+  context: RLangContext,
+  rData: any,
+) {
+  const target = getSuperTarget(step);
+  if (!target) {
+    throw new Error(
+      "'super' used in an operation that does not override an inherited one",
+    );
+  }
+
+  const input =
+    args === null || args === undefined
+      ? context.input
+      : resolveValue(args, context);
+  const result = await runOperationSteps(
+    target.operation,
+    target.steps,
+    input,
+    context,
+    rData,
+  );
+  return { ...result, stepName: "super" };
+}
 
+async function runOperationSteps(
+  operationName: string,
+  operation: RLangStep[],
+  args: any,
+  context: RLangContext,
+  rData: any,
+) {
   // Execute the internal operation with resolved args as input
   const resolvedArgs = args;
+  const scoping = getScopingMode(rData);
   const operationContext = {
     ...context,
     input: resolvedArgs,
+    callStack: enterFrame(context, { kind: "operation", name: operationName }),
+    // Legacy operations share the caller's memory object; scoped modes give
+    // the operation body its own scope
+    memory:
+      scoping === "legacy"
+        ? context.memory
+        : createChildScope(context.memory, {}, scoping),
   };
-  const result = await executeSteps(operation, operationContext, rData);
-  return { stepName: operationName, input: args, output: result.output };
+  try {
+    const result = await executeSteps(operation, operationContext, rData);
+    return { stepName: operationName, input: args, output: result.output };
+  } catch (error) {
+    // break/continue never cross an operation boundary
+    if (isLoopSignal(error)) {
+      throw new Error(
+        `'${error.kind}' used outside of a loop in operation '${operationName}'`,
+      );
+    }
+    throw error;
+  }
 }
 
 // 🔧 Universal Service Module Generator
@@ -571,146 +1368,3 @@ function getHttpMethod(endpointName: string): string {
   if (endpointName.startsWith("delete_")) return "DELETE";
   return "GET"; // Default
 }
-
-function resolveValue(value: any, context: RLangContext): any {
-  if (value === undefined || value === null) return value;
-
-  // 🎯 NEW: Handle arrays recursively
-  if (Array.isArray(value)) {
-    return value.map((item) => resolveValue(item, context));
-  }
-
-  // 🎯 NEW: Handle objects recursively
-  if (typeof value === "object" && value !== null) {
-    const resolved: any = {};
-    for (const [key, val] of Object.entries(value)) {
-      resolved[key] = resolveValue(val, context);
-    }
-    return resolved;
-  }
-
-  // Handle strings with template variables (existing logic)
-  if (typeof value === "string" && value.includes("${")) {
-    try {
-      // Check if this is a pure variable reference (entire string is just ${variable})
-      const pureMatch = value.match(/^\$\{([^}]+)\}$/);
-      if (pureMatch) {
-        // Pure reference - return the object directly
-        const path = pureMatch[1];
-        const result = getValueByPath(path, context);
-        return result !== undefined ? result : value;
-      } else {
-        // Mixed string - stringify objects in replacements
-        return value.replace(/\$\{([^}]+)\}/g, (match, path) => {
-          const result = getValueByPath(path, context);
-          return result !== undefined ? String(result) : match;
-        });
-      }
-    } catch (err) {
-      return value;
-    }
-  }
-
-  return value;
-}
-
-function getValueByPath(path: string, context: RLangContext): any {
-  // Try different context sources in order of priority
-  const sources = [
-    context.memory, // Try memory first (where llm.complete is stored)
-    context.input, // Then input
-    context, // Then context root
-  ];
-
-  for (const source of sources) {
-    if (!source || typeof source !== "object") continue;
-
-    // 🎯 CRITICAL FIX: Try literal key first (for keys like "llm.complete")
-    if (source.hasOwnProperty(path)) {
-      const value = source[path];
-      if (value !== undefined) {
-        return value;
-      }
-    }
-
-    // If literal key doesn't exist, try nested path access
-    const keys = path.split(".");
-    let current = source;
-    let found = true;
-
-    // Navigate the nested path
-    for (const key of keys) {
-      if (current === null || current === undefined) {
-        found = false;
-        break;
-      }
-      if (typeof current === "object" && key in current) {
-        current = current[key];
-      } else {
-        found = false;
-        break;
-      }
-    }
-
-    if (found && current !== undefined) {
-      return current;
-    }
-  }
-
-  // Handle special cases
-  if (path === "Date.now()") {
-    return Date.now();
-  }
-
-  if (path.startsWith("Math.")) {
-    try {
-      // Handle Math operations like Math.floor(system_stats.memory.total / 1024 / 1024)
-      const expression = path.replace(/\$\{([^}]+)\}/g, (match, innerPath) => {
-        const innerValue = getValueByPath(innerPath, context);
-        return innerValue !== undefined ? String(innerValue) : match;
-      });
-
-      // Simple Math operations - you could expand this
-      if (expression.includes("Math.floor")) {
-        const innerExpr = expression.match(/Math\.floor\((.+)\)/)?.[1];
-        if (innerExpr) {
-          const value = evaluateSimpleExpression(innerExpr, context);
-          return Math.floor(value);
-        }
-      }
-    } catch (err) {
-      // Fall through to undefined
-    }
-  }
-
-  return undefined;
-}
-
-// Helper to evaluate simple math expressions
-function evaluateSimpleExpression(expr: string, context: RLangContext): number {
-  // Replace variables with values
-  const resolved = expr.replace(/([a-zA-Z_][a-zA-Z0-9_.]*)/g, (match) => {
-    const value = getValueByPath(match, context);
-    return typeof value === "number" ? String(value) : match;
-  });
-
-  // Simple evaluation for basic arithmetic
-  try {
-    // Only allow safe operations
-    if (/^[\d\s+\-*/().]+$/.test(resolved)) {
-      return Function(`"use strict"; return (${resolved})`)();
-    }
-  } catch (err) {
-    // Fall through
-  }
-
-  return 0;
-}
-
-function hasErrorHandling(step: RLangStep): boolean {
-  return (
-    typeof step === "object" &&
-    step !== null &&
-    ("onError" in step || "catch" in step)
-  );
-}
@@ -0,0 +1,60 @@
+// runtime/step-keys.ts
+// Shared vocabulary of R-lang step keys used by the executor and the linter
+
+import { RLangStep } from "../schema/types";
+
+// Step keys handled directly by executeStep (everything else is an internal
+// operation or a module function such as xero.getInvoices)
+export const BUILTIN_STEP_KEYS = [
+  "condition",
+  "loop",
+  "run",
+  "respond",
+  "emit",
+  "prompt.user",
+  "self.modify",
+  "self.reflect",
+  "return",
+  "set_memory",
+  "let",
+  "append_to_array",
+  "try",
+  "parallel",
+  "switch",
+  "break",
+  "continue",
+  "super",
+] as const;
+
+// Keys that modify how a step runs rather than naming the step itself
+export const STEP_MODIFIER_KEYS = [
+  "onError",
+  "catch",
+  "finally",
+  "retry",
+  "as",
+  "output",
+] as const;
+
+const builtinSteps = new Set<string>(BUILTIN_STEP_KEYS);
+const stepModifiers = new Set<string>(STEP_MODIFIER_KEYS);
+
+export function isBuiltinStep(key: string): boolean {
+  return builtinSteps.has(key);
+}
+
+export function isStepModifier(key: string): boolean {
+  return stepModifiers.has(key);
+}
+
+/**
+ * Returns the key that names an object step, skipping modifier keys so that
+ * `{ onError: [...], "xero.getInvoices": {...} }` still resolves to the call.
+ */
+export function getStepKey(step: RLangStep): string {
+  if (typeof step === "string") {
+    return step.split(":")[0].trim();
+  }
+  const keys = Object.keys(step);
+  return keys.find((key) => !isStepModifier(key)) ?? keys[0];
+}
@@ -0,0 +1,45 @@
+// runtime/topics.ts
+// Event topics and subscription patterns (runtime/events.ts)
+//
+//   "ticket.created"   a topic: dot-separated names
+//   "ticket.*"         `*` matches one segment: ticket.created, not ticket
+//   "signal.#"         `#` matches any number: signal, signal.pesr.high
+
+const SEGMENT = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Whether `topic` matches a subscription pattern: `*` matches one segment,
+ * `#` any number of them.
+ */
+export function matchesTopic(pattern: string, topic: string): boolean {
+  const patternParts = pattern.split(".");
+  const topicParts = topic.split(".");
+  const match = (i: number, j: number): boolean => {
+    if (i === patternParts.length) return j === topicParts.length;
+    if (patternParts[i] === "#") {
+      return match(i + 1, j) || (j < topicParts.length && match(i, j + 1));
+    }
+    if (j === topicParts.length) return false;
+    return (
+      (patternParts[i] === "*" || patternParts[i] === topicParts[j]) &&
+      match(i + 1, j + 1)
+    );
+  };
+  return match(0, 0);
+}
+
+/**
+ * Whether `topic` is a valid topic, or with `wildcards` a valid pattern.
+ */
+export function isValidTopic(topic: string, wildcards: boolean): boolean {
+  return (
+    typeof topic === "string" &&
+    topic
+      .split(".")
+      .every(
+        (segment) =>
+          SEGMENT.test(segment) ||
+          (wildcards && (segment === "*" || segment === "#")),
+      )
+  );
+}
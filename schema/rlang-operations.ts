@@ -0,0 +1,37 @@
+// Generated by `rlang types` from the signatures: sections of .r files.
+// Do not edit - regenerate instead.
+
+export type RocketchatIntakeMessageHandlerInput = {
+  message: {
+    text: string;
+    user_id: string;
+    channel_id: string;
+    message_id?: string;
+    username?: string;
+    [key: string]: any;
+  };
+  webhook_data?: Record<string, any>;
+  headers?: Record<string, any>;
+  [key: string]: any;
+};
+
+export type RocketchatIntakeMessageHandlerOutput = any;
+
+export type RocketchatIntakeButtonResponseHandlerInput = {
+  button: string;
+  userId: string;
+  username?: string;
+  channel: string;
+  messageId?: string;
+  context?: Record<string, any>;
+  [key: string]: any;
+};
+
+export type RocketchatIntakeButtonResponseHandlerOutput = any;
+
+export interface RLangOperations {
+  "r/agents/rocketchat-intake.r": {
+    "message_handler": { input: RocketchatIntakeMessageHandlerInput; output: RocketchatIntakeMessageHandlerOutput };
+    "button_response_handler": { input: RocketchatIntakeButtonResponseHandlerInput; output: RocketchatIntakeButtonResponseHandlerOutput };
+  };
+}
@@ -1,6 +1,11 @@
 // schema/types.ts
 // Core type definitions for ROL3
 
+import type { ExecutionControl } from "../runtime/execution-control";
+import type { CallFrame } from "../runtime/call-stack";
+import type { ErrorCode, ErrorInfo } from "../runtime/errors";
+import type { ResumeCursor } from "../runtime/human-input";
+
 export interface RLangContext {
   agentId: string;
   clientId?: string;
@@ -10,9 +15,17 @@ export interface RLangContext {
   trace: TraceEntry[];
   timestamp: string;
   user?: string;
+  role?: string; // Caller's role for `aam` checks, "user" if unset
   channel?: string;
   metadata?: Record<string, any>;
   context?: any;
+  unresolved?: "keep" | "error"; // Handling of ${...} that resolve to nothing
+  control?: ExecutionControl; // Cancellation and budgets of the current run
+  callStack?: CallFrame[]; // Runs, operations and lookups leading here
+  // Durable runs, where a waiting prompt.user may suspend them (unset in
+  // loops, parallel branches and error handlers)
+  journal?: { executionId: string };
+  resumeCursor?: ResumeCursor; // Way back to the prompt a run resumes after
 }
 
 export interface TraceEntry {
@@ -22,6 +35,12 @@ export interface TraceEntry {
   error?: string;
   timestamp: string;
   success: boolean;
+  location?: string; // "r/agents/foo.r:123:7"
+  attempt?: number; // Set when a step ran under a retry policy
+  handled?: boolean; // Error was handled by onError/catch
+  branch?: string; // Parallel branch that produced this entry, or the case a switch chose
+  errorType?: string; // Distinguishes e.g. "loop_aborted" from step failures
+  errorInfo?: ErrorInfo; // stepPath starts at this entry's step
 }
 
 export interface ExecutionResult {
@@ -34,8 +53,15 @@ export interface RLangResult {
   success: boolean;
   result?: any;
   error?: string;
+  errorCode?: ErrorCode; // Same as errorInfo.code
+  errorInfo?: ErrorInfo; // See runtime/errors.ts
+  // Input or output that did not match the operation's signature
+  validationErrors?: Array<{ path: string; message: string }>;
   context?: RLangContext;
   trace: TraceEntry[];
+  executionId?: string; // Durable runs only, for resumeRLang
+  // Set when the run is waiting for a prompt.user answer
+  suspended?: { promptId: string; to: string; expiresAt: string };
 }
 
 export type RLangStep =
@@ -52,9 +78,33 @@ export type RLangStep =
       loop?: {
         forEach?: string;
         while?: string;
+        concurrency?: number; // forEach only: bounded parallelism
+        max_iterations?: number;
+        timeout_ms?: number;
         do: RLangStep[];
       };
     }
+  | {
+      break?: string | boolean | null; // Optional condition
+    }
+  | {
+      continue?: string | boolean | null;
+    }
+  | {
+      parallel?: Record<string, RLangStep[]>;
+    }
+  | {
+      super?: any; // Inherited definition; optional input (runtime/inheritance.ts)
+    }
+  | {
+      switch?: {
+        on: any;
+        cases:
+          | Record<string, RLangStep[]>
+          | Array<{ when?: any; in?: any[]; if?: string; do: RLangStep[] }>;
+        default?: RLangStep[];
+      };
+    }
   | {
       run?:
         | string
@@ -77,8 +127,19 @@ export type RLangStep =
         to: string;
         message: string;
         buttons?: string[];
+        wait?: boolean; // See runtime/human-input.ts
+        timeout_ms?: number;
+        default?: string;
       };
     }
+  | {
+      let?: Record<string, any>; // Declare bindings in the current scope
+    }
+  | {
+      try?: RLangStep[];
+      catch?: RLangStep[];
+      finally?: RLangStep[];
+    }
   | {
       "self.modify"?: {
         template?: string;
@@ -98,17 +159,31 @@ export interface RLangFile {
     id: string;
     intent?: string;
     version?: string;
-    template?: string;
+    template?: string; // Descriptive label; inheritance uses `extends:`
+    scoping?: "legacy" | "lexical" | "strict"; // See runtime/scope.ts
+    unresolved?: "keep" | "error"; // See runtime/resolver.ts
+    durable?: boolean; // See runtime/journal.ts
   };
+  imports?: Record<string, string> | Array<{ from: string; as: string }>;
+  extends?: string; // See runtime/inheritance.ts
+  mixins?: string[];
+  signatures?: Record<string, { inputs?: any; outputs?: any }>; // See runtime/signatures.ts
+  hooks?: Partial<
+    Record<"before_operation" | "after_operation" | "on_failure", RLangStep[]>
+  >;
   aam?: {
     require_role?: string;
+    allow_roles?: string[];
     allow_actions?: string[];
     restrict_clients?: string[];
-  };
+    client_immutable?: boolean;
+    system_managed?: boolean;
+  }; // See runtime/policy.ts
   operations: Record<string, RLangStep[]>;
   concern?: {
     if: string;
-    priority: number;
+    priority: number; // Lower fires first
+    cooldown_ms?: number; // See runtime/concerns.ts
     action: RLangStep[];
   };
   incoming?: {
@@ -116,8 +191,23 @@ export interface RLangFile {
       path: string;
       method: string;
       operation: string;
+      auth?: WebhookConfig["auth"]; // See server/agent-routes.ts
     };
   };
+  schedule?: Record<
+    string, // Operation
+    {
+      cron?: string; // See runtime/cron.ts
+      every_ms?: number;
+      input?: any;
+      timeout_ms?: number;
+      catch_up?: boolean;
+    }
+  >; // See runtime/scheduler.ts
+  on?: Record<
+    string, // Topic pattern
+    string | { operation: string; max_attempts?: number }
+  >; // See runtime/events.ts
 }
 
 export interface AgentTemplate {
@@ -154,6 +244,8 @@ export interface WebhookConfig {
   auth?: {
     type: "bearer" | "api_key" | "none";
     header?: string;
+    secret_env?: string; // Environment variable holding the expected secret
+    role?: string; // Caller's role for `aam` checks, "user" if unset
   };
 }
 
@@ -0,0 +1,65 @@
+#!/usr/bin/env tsx
+// scripts/test-module-calls.ts
+// Module function steps with synchronous and asynchronous functions
+
+import assert from "assert/strict";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { runRLang } from "../runtime/interpreter";
+import { registerFunction } from "../utils/runtime";
+
+const AGENT = `
+self:
+  id: "module-call-test"
+operations:
+  default:
+    - probe.sync_add: { a: 2, b: 3 }
+      as: sync_sum
+    - probe.async_add: { a: "\${sync_sum}", b: 1 }
+      as: async_sum
+    - return: { sync_sum: "\${sync_sum}", async_sum: "\${async_sum}" }
+  sync_throw:
+    - probe.sync_throw: {}
+`;
+
+async function main() {
+  await registerFunction("probe", "sync_add", (args: any) => args.a + args.b);
+  await registerFunction(
+    "probe",
+    "async_add",
+    async (args: any) => Number(args.a) + args.b,
+  );
+  await registerFunction("probe", "sync_throw", () => {
+    throw new Error("sync failure");
+  });
+
+  const dir = await mkdtemp(join(tmpdir(), "rlang-module-calls-"));
+  const file = join(dir, "module-call-test.r");
+  await writeFile(file, AGENT);
+
+  try {
+    console.log("🧪 Synchronous and asynchronous module functions...");
+    const result = await runRLang({ file, timeoutMs: 10000 });
+    assert.equal(result.success, true, result.error);
+    assert.deepEqual(result.result, { sync_sum: 5, async_sum: 6 });
+    console.log("✅ Both return their result");
+
+    console.log("🧪 Synchronous module function that throws...");
+    const failed = await runRLang({ file, operation: "sync_throw" });
+    assert.equal(failed.success, false);
+    assert.equal(failed.errorCode, "MODULE_ERROR");
+    assert.match(failed.error ?? "", /sync failure/);
+    console.log("✅ Fails the step with MODULE_ERROR");
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error("❌ Module call test failed:", error);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,313 @@
+// server/agent-routes.ts
+// HTTP routes declared by agents with `incoming.webhook`
+//
+//   incoming:
+//     webhook:
+//       path: "/signals/external"
+//       method: "POST"
+//       operation: "process_external_signal"
+//       auth: { type: "api_key", secret_env: "PESR_SIGNAL_KEY", role: "system" }
+//
+// Each request runs the operation with the payload as input: the JSON body,
+// or the query string for GET and DELETE. `auth.type` is "bearer" (an
+// Authorization: Bearer header, the default), "api_key" (the `header`,
+// default x-api-key) or "none". The expected secret is read from the
+// environment variable `secret_env` (default RLANG_WEBHOOK_SECRET); routes
+// whose secret is not set are not mounted. Callers run as the route's
+// `auth.role`, default "user" (runtime/policy.ts); open routes always run
+// as "user".
+//
+// Routes come from every .r file under r/ that loads. Whenever the loader
+// reloads one (runtime/loader.ts: on change in watch mode, otherwise when a
+// run finds it changed after the cache TTL) the routes are rebuilt and
+// swapped in, so edits to `incoming.webhook` apply without a restart. r/ is
+// watched too: routes of added files are mounted and those of removed files
+// unmounted.
+
+import express, { Request, Response, Router } from "express";
+import { timingSafeEqual } from "crypto";
+import { watch } from "fs";
+import { resolve } from "path";
+import { runRLang } from "../runtime/interpreter";
+import {
+  findRFiles,
+  getLoadedFiles,
+  loadRFile,
+  onReload,
+} from "../runtime/loader";
+import { RLangFile, WebhookConfig } from "../schema/types";
+
+const DEFAULT_SECRET_ENV = "RLANG_WEBHOOK_SECRET";
+const DEFAULT_API_KEY_HEADER = "x-api-key";
+const METHODS = ["GET", "POST", "PUT", "DELETE"];
+const AUTH_TYPES = ["bearer", "api_key", "none"];
+const DEFAULT_ROLE = "user";
+
+// fs.watch fires several events per save; wait for the writes to settle
+const WATCH_DEBOUNCE_MS = 100;
+
+export interface MountOptions {
+  dir?: string; // Where to look for .r files, default "r"
+  reserved?: string[]; // "POST /webhooks/rocketchat": served elsewhere
+}
+
+let current: Router = express.Router();
+let mounted: WebhookConfig[] = [];
+let agentFiles = new Set<string>(); // Absolute paths of the .r files under dir
+const unloadable = new Set<string>(); // Files already reported as not loading
+
+/**
+ * Load the .r files under `dir`, mount the webhooks they declare on `app`
+ * and keep them up to date as files are reloaded, added and removed.
+ */
+export async function mountAgentRoutes(
+  app: express.Express,
+  options: MountOptions = {},
+): Promise<WebhookConfig[]> {
+  const dir = options.dir ?? "r";
+  const reserved = new Set(options.reserved ?? []);
+  app.use((req, res, next) => current(req, res, next));
+
+  await loadAgentFiles(dir);
+  rebuildRoutes(reserved);
+  onReload(({ current: file, previous }) => {
+    if (file.incoming?.webhook || previous.incoming?.webhook) {
+      rebuildRoutes(reserved);
+    }
+  });
+  watchAgentDir(dir, reserved);
+  return mounted;
+}
+
+/**
+ * The routes currently mounted.
+ */
+export function getAgentRoutes(): WebhookConfig[] {
+  return [...mounted];
+}
+
+function rebuildRoutes(reserved: Set<string>): void {
+  const router = express.Router();
+  const routes: WebhookConfig[] = [];
+  const taken = new Map<string, string>();
+
+  const declared = getLoadedFiles()
+    .filter(
+      ({ file, content }) =>
+        content.incoming?.webhook && agentFiles.has(resolve(file)),
+    )
+    .sort((a, b) => a.file.localeCompare(b.file));
+  for (const { file, content } of declared) {
+    const route = toWebhookConfig(file, content);
+    if (!route) continue;
+
+    const key = `${route.method} ${route.path}`;
+    if (reserved.has(key)) continue; // Served by a built-in handler
+    const owner = taken.get(key);
+    if (owner) {
+      if (owner !== content.self?.id) {
+        console.warn(`⚠️ ${file}: ${key} is already routed to ${owner}`);
+      }
+      continue;
+    }
+    if (!getSecret(route) && route.auth?.type !== "none") {
+      console.warn(
+        `⚠️ ${file}: ${key} not mounted, ${route.auth!.secret_env} is not set`,
+      );
+      continue;
+    }
+
+    taken.set(key, content.self?.id ?? file);
+    const method = route.method.toLowerCase() as
+      "get" | "post" | "put" | "delete";
+    router[method](route.path, (req: Request, res: Response) => {
+      void handleAgentWebhook(route, req, res);
+    });
+    routes.push(route);
+  }
+
+  current = router;
+  if (describe(routes) !== describe(mounted)) {
+    for (const route of routes) {
+      console.log(
+        `🔗 ${route.method} ${route.path} -> ${route.agentFile}:${route.operation}`,
+      );
+    }
+  }
+  mounted = routes;
+}
+
+async function handleAgentWebhook(
+  route: WebhookConfig,
+  req: Request,
+  res: Response,
+) {
+  if (!isAuthorized(route, req)) {
+    return res.status(401).json({ status: "unauthorized" });
+  }
+
+  const payload =
+    route.method === "GET" || route.method === "DELETE" ? req.query : req.body;
+  try {
+    const result = await runRLang({
+      file: route.agentFile,
+      operation: route.operation,
+      input: payload ?? {},
+      context: {
+        role: route.auth?.role ?? DEFAULT_ROLE,
+        metadata: { webhook: { path: route.path, method: route.method } },
+      },
+    });
+
+    if (result.suspended) {
+      return res.status(202).json({
+        status: "waiting",
+        prompt_id: result.suspended.promptId,
+        execution_id: result.executionId,
+      });
+    }
+    if (result.success) {
+      return res
+        .status(200)
+        .json({ status: "processed", response: result.result });
+    }
+
+    const status =
+      result.errorCode === "INVALID_INPUT"
+        ? 400
+        : result.errorCode === "ACCESS_DENIED"
+          ? 403
+          : 500;
+    return res.status(status).json({
+      status: "error",
+      error: result.error,
+      error_code: result.errorCode,
+      validation_errors: result.validationErrors,
+    });
+  } catch (error) {
+    console.error(`${route.method} ${route.path} failed:`, error);
+    return res.status(500).json({
+      status: "error",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+function toWebhookConfig(file: string, rData: RLangFile): WebhookConfig | null {
+  const webhook = rData.incoming!.webhook!;
+  const method = String(webhook.method).toUpperCase();
+  if (!METHODS.includes(method) || !String(webhook.path).startsWith("/")) {
+    console.warn(
+      `⚠️ ${file}: cannot route ${webhook.method} ${webhook.path} (expected ${METHODS.join("/")} and a path starting with /)`,
+    );
+    return null;
+  }
+
+  const auth = webhook.auth ?? { type: "bearer" as const };
+  if (!AUTH_TYPES.includes(auth.type)) {
+    console.warn(
+      `⚠️ ${file}: unknown webhook auth type '${auth.type}' (expected ${AUTH_TYPES.join(", ")})`,
+    );
+    return null;
+  }
+  if (auth.type === "none" && (auth.role ?? DEFAULT_ROLE) !== DEFAULT_ROLE) {
+    console.warn(
+      `⚠️ ${file}: open webhook routes run as '${DEFAULT_ROLE}', not '${auth.role}'`,
+    );
+    return null;
+  }
+  return {
+    path: webhook.path,
+    method: method as WebhookConfig["method"],
+    agentFile: file,
+    operation: webhook.operation,
+    auth: {
+      ...auth,
+      header:
+        auth.header ??
+        (auth.type === "api_key" ? DEFAULT_API_KEY_HEADER : "authorization"),
+      secret_env: auth.secret_env ?? DEFAULT_SECRET_ENV,
+      role: auth.role ?? DEFAULT_ROLE,
+    },
+  };
+}
+
+function isAuthorized(route: WebhookConfig, req: Request): boolean {
+  const auth = route.auth!;
+  if (auth.type === "none") return true;
+
+  const secret = getSecret(route);
+  const value = req.get(auth.header!);
+  if (!secret || !value) return false;
+
+  const presented =
+    auth.type === "bearer" ? value.replace(/^Bearer\s+/i, "") : value;
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(presented);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function getSecret(route: WebhookConfig): string | undefined {
+  return process.env[route.auth?.secret_env ?? DEFAULT_SECRET_ENV] || undefined;
+}
+
+// Find the .r files under `dir` and load the ones not in the cache yet so
+// their webhooks can be found; files that do not load are skipped
+async function loadAgentFiles(dir: string): Promise<void> {
+  const files = await findRFiles(dir);
+  const loaded = new Set(getLoadedFiles().map(({ file }) => resolve(file)));
+  const pending = files.filter((file) => !loaded.has(resolve(file)));
+  const results = await Promise.allSettled(
+    pending.map((file) => loadRFile(file)),
+  );
+
+  const failed = pending.filter(
+    (file, index) =>
+      results[index].status === "rejected" && !unloadable.has(resolve(file)),
+  );
+  failed.forEach((file) => unloadable.add(resolve(file)));
+  if (failed.length > 0) {
+    console.warn(
+      `⚠️ ${failed.length} of ${files.length} .r files could not be loaded for webhook routes`,
+    );
+  }
+  agentFiles = new Set(files.map((file) => resolve(file)));
+}
+
+// Rescan `dir` when files in it change, so added files mount their routes
+// and removed ones unmount them
+function watchAgentDir(dir: string, reserved: Set<string>): void {
+  let pending: NodeJS.Timeout | undefined;
+  const rescan = () => {
+    loadAgentFiles(dir)
+      .then(() => rebuildRoutes(reserved))
+      .catch((error) =>
+        console.warn(
+          `⚠️ Could not rescan ${dir} for webhook routes:`,
+          error instanceof Error ? error.message : error,
+        ),
+      );
+  };
+
+  try {
+    // Not persistent: watching must never keep the process alive
+    const watcher = watch(dir, { recursive: true, persistent: false }, () => {
+      clearTimeout(pending);
+      pending = setTimeout(rescan, WATCH_DEBOUNCE_MS);
+    });
+    watcher.on("error", (error) =>
+      console.warn(`⚠️ Stopped watching ${dir} for webhook routes:`, error),
+    );
+  } catch (error) {
+    console.warn(
+      `⚠️ Cannot watch ${dir} for webhook routes:`,
+      error instanceof Error ? error.message : error,
+    );
+  }
+}
+
+function describe(routes: WebhookConfig[]): string {
+  return routes
+    .map((route) => `${route.method} ${route.path} ${route.agentFile}`)
+    .join("\n");
+}
@@ -2,8 +2,16 @@
 // Express.js webhook endpoint for RocketChat integration
 
 import express, { Request, Response, RequestHandler } from "express";
-import { runRLang } from "../runtime/interpreter";
+import { timingSafeEqual } from "crypto";
+import { answerPrompt, runRLang } from "../runtime/interpreter";
+import { getConcernStatus } from "../runtime/concerns";
+import { listSchedules } from "../runtime/scheduler";
+import { getEventBusStatus } from "../runtime/events";
+import { getAgentRoutes, mountAgentRoutes } from "./agent-routes";
 import { createRocketChatContext } from "../runtime/context";
+import { parsePromptReply } from "../runtime/human-input";
+import { RLangResult } from "../schema/types";
+import { RocketchatIntakeButtonResponseHandlerInput } from "../schema/rlang-operations";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +45,17 @@ const handleRocketChatWebhook = async (req: Request, res: Response) => {
       return res.status(200).json({ status: "ignored_bot_message" });
     }
 
+    // Buttons of waiting prompts reply in the chat window, where anyone can
+    // copy them: only count them in the prompt's own room
+    const reply = parsePromptReply(payload.message.text);
+    if (reply) {
+      return sendPromptAnswer(req, res, reply, {
+        user: payload.message.username,
+        userId: payload.message.user_id,
+        channel: payload.message.channel_id,
+      });
+    }
+
     // Create RocketChat context
     const context = createRocketChatContext(
       "rocketchat-intake",
@@ -64,7 +83,13 @@ const handleRocketChatWebhook = async (req: Request, res: Response) => {
       context: context,
     });
 
-    if (result.success) {
+    if (hasInvalidInput(result)) {
+      res.status(400).json({
+        status: "invalid_input",
+        error: result.error,
+        validation_errors: result.validationErrors,
+      });
+    } else if (result.success) {
       res.status(200).json({
         status: "processed",
         message_id: payload.message.message_id,
@@ -103,7 +128,7 @@ const handleRocketChatButtons = async (req: Request, res: Response) => {
     };
 
     // Map to expected interface
-    const buttonData = {
+    const buttonData: RocketchatIntakeButtonResponseHandlerInput = {
       userId: rawButtonData.user_id,
       username: rawButtonData.username,
       channel: rawButtonData.channel,
@@ -112,6 +137,18 @@ const handleRocketChatButtons = async (req: Request, res: Response) => {
       context: rawButtonData,
     };
 
+    // Answers to waiting prompt.user steps resume their run instead
+    const reply =
+      parsePromptReply(rawButtonData.button_action) ??
+      parsePromptReply(rawButtonData.button_value);
+    if (reply) {
+      return sendPromptAnswer(req, res, reply, {
+        user: rawButtonData.username,
+        userId: rawButtonData.user_id,
+        channel: rawButtonData.channel,
+      });
+    }
+
     // Create context for button response
     const context = createRocketChatContext(
       "rocketchat-intake",
@@ -127,6 +164,14 @@ const handleRocketChatButtons = async (req: Request, res: Response) => {
       context: context,
     });
 
+    if (hasInvalidInput(result)) {
+      return res.status(400).json({
+        status: "invalid_input",
+        error: result.error,
+        validation_errors: result.validationErrors,
+      });
+    }
+
     res.status(200).json({
       status: "button_processed",
       response: result.result,
@@ -138,11 +183,23 @@ const handleRocketChatButtons = async (req: Request, res: Response) => {
 };
 
 // FIXED: Let TypeScript infer the handler type for health check
-const handleHealthCheck = (req: Request, res: Response) => {
+const handleHealthCheck = async (req: Request, res: Response) => {
+  const schedules = await listSchedules().catch((error) => ({
+    error: getErrorMessage(error),
+  }));
+  const events = await getEventBusStatus().catch((error) => ({
+    error: getErrorMessage(error),
+  }));
   res.status(200).json({
     status: "healthy",
     service: "rocketchat-webhook",
     timestamp: new Date().toISOString(),
+    concerns: getConcernStatus(),
+    schedules,
+    events,
+    agent_routes: getAgentRoutes().map(
+      (route) => `${route.method} ${route.path} -> ${route.agentFile}`,
+    ),
   });
 };
 
@@ -154,6 +211,77 @@ app.post(
 );
 app.get("/webhooks/rocketchat/health", handleHealthCheck as RequestHandler);
 
+// Routes agents declare with `incoming.webhook`; rocketchat-intake.r
+// declares the message webhook above, which keeps its built-in handler
+mountAgentRoutes(app, {
+  reserved: [
+    "POST /webhooks/rocketchat",
+    "POST /webhooks/rocketchat/buttons",
+    "GET /webhooks/rocketchat/health",
+  ],
+}).catch((error) =>
+  console.error("💥 Could not mount agent webhook routes:", error),
+);
+
+// Resume the run waiting for a prompt.user answer (runtime/human-input.ts).
+// The answerer's name and room come from the request body, so only requests
+// carrying the RocketChat integration's token may answer.
+async function sendPromptAnswer(
+  req: Request,
+  res: Response,
+  reply: { promptId: string; choice: string },
+  answerer: { user?: string; userId?: string; channel?: string },
+) {
+  if (!hasRocketChatToken(req)) {
+    return res.status(401).json({
+      status: "error",
+      error: "Prompt answers must come from RocketChat",
+      error_code: "ACCESS_DENIED",
+    });
+  }
+
+  const result = await answerPrompt(reply.promptId, reply.choice, answerer);
+  if (result.success) {
+    return res.status(200).json({
+      status: result.suspended ? "prompt_answered_waiting" : "prompt_answered",
+      prompt_id: reply.promptId,
+      response: result.result,
+    });
+  }
+
+  const status =
+    result.errorCode === "PROMPT_NOT_FOUND"
+      ? 404
+      : result.errorCode === "INVALID_INPUT"
+        ? 400
+        : result.errorCode === "ACCESS_DENIED"
+          ? 403
+          : 500;
+  return res.status(status).json({
+    status: "error",
+    error: result.error,
+    error_code: result.errorCode,
+  });
+}
+
+// RocketChat sends the outgoing integration's token with every request;
+// without ROCKETCHAT_WEBHOOK_TOKEN configured, nothing matches
+function hasRocketChatToken(req: Request): boolean {
+  const secret = process.env.ROCKETCHAT_WEBHOOK_TOKEN;
+  const token = req.body?.token;
+  if (!secret || typeof token !== "string") return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// The payload did not match the operation's input signature (an output
+// mismatch is the agent's fault and stays a 500)
+function hasInvalidInput(result: RLangResult): boolean {
+  return result.errorCode === "INVALID_INPUT";
+}
+
 // Validate RocketChat webhook payload
 function validateRocketChatWebhook(payload: any): {
   valid: boolean;
@@ -55,6 +55,7 @@ export async function analyzeAPIDocumentation(
         messages: [{ role: "user", content: prompt }],
         temperature: 0.1, // Low temperature for consistent analysis
       }),
+      signal: context?.control?.signal,
     });
 
     if (!response.ok) {
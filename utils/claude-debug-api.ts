@@ -68,7 +68,9 @@ export async function callClaude(prompt: string): Promise<string> {
 
     return data.content[0].text;
   } catch (error) {
-    throw new Error(`Claude debug API call failed: ${getErrorMessage(error)}`);
+    throw new Error(`Claude debug API call failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
   }
 }
 
@@ -78,7 +78,9 @@ async function getServiceConfig(context: RLangContext): Promise<ServiceConfig> {
       .limit(1);
 
     if (error) {
-      throw new Error(`Database query failed: ${getErrorMessage(error)}`);
+      throw new Error(`Database query failed: ${getErrorMessage(error)}`, {
+        cause: error,
+      });
     }
 
     if (data && data.length > 0) {
@@ -96,7 +98,9 @@ async function getServiceConfig(context: RLangContext): Promise<ServiceConfig> {
 
     throw new Error("Xero credentials not configured for this user");
   } catch (error) {
-    throw new Error(`Failed to get service config: ${getErrorMessage(error)}`);
+    throw new Error(`Failed to get service config: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
   }
 }
 
@@ -153,7 +157,10 @@ export async function collectServiceCredentials(
     // 4. Credentials stored encrypted in database per-user
     // 5. Agent can now access that user's specific credentials
   } catch (error) {
-    throw new Error(`Failed to collect credentials: ${getErrorMessage(error)}`);
+    throw new Error(
+      `Failed to collect credentials: ${getErrorMessage(error)}`,
+      { cause: error },
+    );
   }
 }
 
@@ -175,7 +182,9 @@ export async function authenticate(args: any, context: RLangContext) {
         throw new Error(`Unsupported auth type: ${config.auth_type}`);
     }
   } catch (error) {
-    throw new Error(`Authentication failed: ${getErrorMessage(error)}`);
+    throw new Error(`Authentication failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
   }
 }
 
@@ -197,10 +206,15 @@ async function handleOAuth(userCredentials: any, context: RLangContext) {
       const refreshed = await refreshUserToken(userCredentials, userId);
       return { Authorization: `Bearer ${refreshed.access_token}` };
     } catch (refreshError) {
-      throw new Error(`Token refresh failed: ${getErrorMessage(refreshError)}`);
+      throw new Error(
+        `Token refresh failed: ${getErrorMessage(refreshError)}`,
+        { cause: refreshError },
+      );
     }
   } catch (error) {
-    throw new Error(`OAuth handling failed: ${getErrorMessage(error)}`);
+    throw new Error(`OAuth handling failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
   }
 }
 
@@ -6,7 +6,9 @@ import { db } from "./db";
 
 export interface ErrorPattern {
   id: string;
-  error_type: string;
+  error_type: string; // Error code for structured failures, else the event
+  error_category?: string; // See runtime/errors.ts
+  retryable?: boolean;
   frequency: number;
   first_seen: Date;
   last_seen: Date;
@@ -45,12 +47,16 @@ export interface FailurePattern {
 export async function getRecentErrors(
   hours: number = 24,
 ): Promise<ErrorPattern[]> {
+  // Structured failures (runtime/errors.ts) are grouped by error code,
+  // whatever their message; older entries by event and payload
   const { data, error } = await db.query(`
     SELECT
       agent_id,
-      event as event_type,
+      COALESCE(data->'error'->>'code', event) as event_type,
+      data->'error'->>'category' as error_category,
+      BOOL_OR((data->'error'->>'retryable')::boolean) as retryable,
       'failure' as outcome,
-      data as context_data,
+      (ARRAY_AGG(data ORDER BY timestamp DESC))[1] as context_data,
       COUNT(*) as frequency,
       MIN(timestamp) as first_seen,
       MAX(timestamp) as last_seen
@@ -65,7 +71,11 @@ export async function getRecentErrors(
         OR data::text LIKE '%error%'
         OR success = false
       )
-    GROUP BY agent_id, event, data
+    GROUP BY
+      agent_id,
+      COALESCE(data->'error'->>'code', event),
+      data->'error'->>'category',
+      CASE WHEN data->'error'->>'code' IS NULL THEN data::text END
     ORDER BY frequency DESC, last_seen DESC
   `);
 
@@ -77,13 +87,66 @@ export async function getRecentErrors(
   return (data || []).map((row: any, index: number) => ({
     id: `error_${index}_${Date.now()}`,
     error_type: row.event_type || "unknown",
+    error_category: row.error_category ?? undefined,
+    retryable: row.retryable ?? undefined,
     frequency: parseInt(row.frequency) || 1,
     first_seen: new Date(row.first_seen),
     last_seen: new Date(row.last_seen),
     affected_agents: [row.agent_id].filter(Boolean),
     error_details: row.context_data || {},
     context_patterns: row.context_data || {},
-    severity: determineSeverity(parseInt(row.frequency), row.event_type),
+    severity: determineSeverity(
+      parseInt(row.frequency),
+      row.event_type,
+      row.error_category,
+    ),
+  }));
+}
+
+/**
+ * Failed runs over the last `hours`, grouped by error code across agents
+ */
+export async function getErrorCodeSummary(hours: number = 24): Promise<
+  Array<{
+    code: string;
+    category: string;
+    retryable: boolean;
+    occurrences: number;
+    affected_agents: string[];
+    last_seen: Date;
+    sample_message: string;
+  }>
+> {
+  const { data, error } = await db.query(`
+    SELECT
+      data->'error'->>'code' as code,
+      data->'error'->>'category' as category,
+      BOOL_OR((data->'error'->>'retryable')::boolean) as retryable,
+      COUNT(*) as occurrences,
+      ARRAY_AGG(DISTINCT agent_id) as affected_agents,
+      MAX(timestamp) as last_seen,
+      (ARRAY_AGG(data->'error'->>'message' ORDER BY timestamp DESC))[1] as sample_message
+    FROM agent_logs
+    WHERE
+      timestamp >= NOW() - INTERVAL '${hours} hours'
+      AND data->'error'->>'code' IS NOT NULL
+    GROUP BY data->'error'->>'code', data->'error'->>'category'
+    ORDER BY occurrences DESC
+  `);
+
+  if (error) {
+    console.error("Failed to fetch error code summary:", error);
+    return [];
+  }
+
+  return (data || []).map((row: any) => ({
+    code: row.code,
+    category: row.category || "unknown",
+    retryable: !!row.retryable,
+    occurrences: parseInt(row.occurrences) || 0,
+    affected_agents: (row.affected_agents || []).filter(Boolean),
+    last_seen: new Date(row.last_seen),
+    sample_message: row.sample_message || "",
   }));
 }
 
@@ -345,18 +408,24 @@ export async function checkTableHealth(): Promise<{
 function determineSeverity(
   frequency: number,
   errorType: string,
+  category?: string,
 ): "critical" | "warning" | "info" {
   if (
     frequency > 10 ||
     errorType?.includes("critical") ||
-    errorType?.includes("database")
+    errorType?.includes("database") ||
+    category === "load" ||
+    category === "journal" ||
+    errorType === "CALL_CYCLE"
   ) {
     return "critical";
   }
   if (
     frequency > 3 ||
     errorType?.includes("validation") ||
-    errorType?.includes("intent")
+    errorType?.includes("intent") ||
+    category === "validation" ||
+    category === "resolution"
   ) {
     return "warning";
   }
@@ -371,6 +440,7 @@ function extractErrorMessage(contextData: any): string {
 
   if (typeof contextData === "string") return contextData;
 
+  if (contextData.error?.message) return String(contextData.error.message);
   if (contextData.error) return String(contextData.error);
   if (contextData.message) return String(contextData.message);
   if (contextData.details) return String(contextData.details);
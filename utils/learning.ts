@@ -41,7 +41,10 @@ export async function storeLearningEvent(args: any, context: RLangContext) {
     .from("learning_events")
     .insert(learningEvent);
   if (error)
-    throw new Error(`Learning event storage failed: ${getErrorMessage(error)}`);
+    throw new Error(
+      `Learning event storage failed: ${getErrorMessage(error)}`,
+      { cause: error },
+    );
 
   // CRITICAL FIX: Access id from returned data array
   return { stored: true, event_id: data?.[0]?.id };
@@ -63,7 +66,9 @@ export async function queryLearningEvents(args: any, context: RLangContext) {
 
   const { data, error } = await query;
   if (error)
-    throw new Error(`Learning events query failed: ${getErrorMessage(error)}`);
+    throw new Error(`Learning events query failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
 
   return data || [];
 }
@@ -84,7 +89,9 @@ export async function storeAgentPattern(args: any, context: RLangContext) {
   // CRITICAL FIX: Proper database insert with return value handling
   const { data, error } = await db.from("agent_patterns").insert(pattern);
   if (error)
-    throw new Error(`Pattern storage failed: ${getErrorMessage(error)}`);
+    throw new Error(`Pattern storage failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
 
   // CRITICAL FIX: Access id from returned data array (line 68 issue)
   return { stored: true, pattern_id: data?.[0]?.id };
@@ -104,7 +111,10 @@ export async function queryAgentPatterns(args: any, context: RLangContext) {
   query = query.order("confidence_score", { ascending: false });
 
   const { data, error } = await query;
-  if (error) throw new Error(`Pattern query failed: ${getErrorMessage(error)}`);
+  if (error)
+    throw new Error(`Pattern query failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
 
   return data || [];
 }
@@ -131,6 +141,7 @@ export async function storeOptimizationHistory(
   if (error)
     throw new Error(
       `Optimization history storage failed: ${getErrorMessage(error)}`,
+      { cause: error },
     );
 
   // CRITICAL FIX: Access id from returned data array (line 109 issue)
@@ -153,6 +164,7 @@ export async function storeKnowledgeTransfer(args: any, context: RLangContext) {
   if (error)
     throw new Error(
       `Knowledge transfer storage failed: ${getErrorMessage(error)}`,
+      { cause: error },
     );
 
   // CRITICAL FIX: Access id from returned data array (line 127 issue)
@@ -218,6 +230,7 @@ export async function aggregatePerformanceByAgent(
     if (error) {
       throw new Error(
         `Performance aggregation failed: ${getErrorMessage(error)}`,
+        { cause: error },
       );
     }
     return data || [];
@@ -225,6 +238,7 @@ export async function aggregatePerformanceByAgent(
     // CRITICAL FIX: Handle the catch block error properly (line 186 issue)
     throw new Error(
       `Performance aggregation failed: ${getErrorMessage(error)}`,
+      { cause: error },
     );
   }
 }
@@ -274,6 +288,7 @@ export async function cleanupOldLearningData(args: any, context: RLangContext) {
   if (deleteError)
     throw new Error(
       `Learning data cleanup failed: ${getErrorMessage(deleteError)}`,
+      { cause: deleteError },
     );
 
   return {
@@ -59,12 +59,15 @@ export async function completeWithOpenAI(args: any, context: RLangContext) {
     console.log(fullPrompt);
     console.log("=".repeat(60));
 
-    const response = await client.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [{ role: "user", content: fullPrompt }],
-      temperature: 0.1,
-      max_tokens: 1000,
-    });
+    const response = await client.chat.completions.create(
+      {
+        model: "gpt-4o-mini",
+        messages: [{ role: "user", content: fullPrompt }],
+        temperature: 0.1,
+        max_tokens: 1000,
+      },
+      { signal: context?.control?.signal },
+    );
 
     const result = response.choices[0].message.content;
 
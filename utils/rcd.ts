@@ -27,20 +27,29 @@ function getErrorMessage(error: unknown): string {
 
 export async function query(sql: string, context: RLangContext) {
   const { data, error } = await db.rpc("execute_sql", { sql_query: sql });
-  if (error) throw new Error(`SQL query failed: ${getErrorMessage(error)}`);
+  if (error)
+    throw new Error(`SQL query failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
   return data;
 }
 
 export async function execute_sql(sql: string, context: RLangContext) {
   const { data, error } = await db.rpc("execute_sql", { sql_query: sql });
-  if (error) throw new Error(`SQL execution failed: ${getErrorMessage(error)}`);
+  if (error)
+    throw new Error(`SQL execution failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
   return { success: true, result: data };
 }
 
 export async function executeSQL(args: any, context: RLangContext) {
   const { sql, params = [] } = args;
   const { data, error } = await db.query(sql, params);
-  if (error) throw new Error(`SQL execution failed: ${getErrorMessage(error)}`);
+  if (error)
+    throw new Error(`SQL execution failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
   return data;
 }
 
@@ -57,6 +66,7 @@ export async function readFileContent(args: any, context: RLangContext) {
   } catch (error) {
     throw new Error(
       `Failed to read file ${filePath}: ${getErrorMessage(error)}`,
+      { cause: error },
     );
   }
 }
@@ -95,7 +105,9 @@ export async function scanFiles(args: any, context: RLangContext) {
     await scan(directory);
     return files;
   } catch (error) {
-    throw new Error(`Directory scan failed: ${getErrorMessage(error)}`);
+    throw new Error(`Directory scan failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
   }
 }
 
@@ -115,7 +127,9 @@ export async function storeFileMetadata(args: any, context: RLangContext) {
   const { data, error } = await fileInsertQuery;
 
   if (error)
-    throw new Error(`Metadata storage failed: ${getErrorMessage(error)}`);
+    throw new Error(`Metadata storage failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
   return { stored: true, data };
 }
 
@@ -130,14 +144,18 @@ export async function queryFileMetadata(args: any, context: RLangContext) {
 
   const { data, error } = await query;
   if (error)
-    throw new Error(`Metadata query failed: ${getErrorMessage(error)}`);
+    throw new Error(`Metadata query failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
   return data || [];
 }
 
 export async function storePattern(args: any, context: RLangContext) {
   const { data, error } = await db.from("rcd_patterns").insert(args);
   if (error)
-    throw new Error(`Pattern storage failed: ${getErrorMessage(error)}`);
+    throw new Error(`Pattern storage failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
   return { stored: true, pattern_id: data?.[0]?.id };
 }
 
@@ -153,7 +171,10 @@ export async function queryPatterns(args: any, context: RLangContext) {
   query = query.order("confidence_score", { ascending: false });
 
   const { data, error } = await query;
-  if (error) throw new Error(`Pattern query failed: ${getErrorMessage(error)}`);
+  if (error)
+    throw new Error(`Pattern query failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
   return data || [];
 }
 
@@ -170,7 +191,9 @@ export async function storeCapability(args: any, context: RLangContext) {
   const { data, error } = await capabilityInsertQuery;
 
   if (error)
-    throw new Error(`Capability storage failed: ${getErrorMessage(error)}`);
+    throw new Error(`Capability storage failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
   return { stored: true, data };
 }
 
@@ -188,7 +211,9 @@ export async function queryCapabilities(args: any, context: RLangContext) {
 
   const { data, error } = await query;
   if (error)
-    throw new Error(`Capability query failed: ${getErrorMessage(error)}`);
+    throw new Error(`Capability query failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
   return data || [];
 }
 
@@ -201,7 +226,10 @@ export async function storeLearningEvent(args: any, context: RLangContext) {
 
   const { data, error } = await db.from("rcd_learning_events").insert(event);
   if (error)
-    throw new Error(`Learning event storage failed: ${getErrorMessage(error)}`);
+    throw new Error(
+      `Learning event storage failed: ${getErrorMessage(error)}`,
+      { cause: error },
+    );
   return { stored: true, event_id: data?.[0]?.id };
 }
 
@@ -218,7 +246,9 @@ export async function queryLearningEvents(args: any, context: RLangContext) {
 
   const { data, error } = await query;
   if (error)
-    throw new Error(`Learning events query failed: ${getErrorMessage(error)}`);
+    throw new Error(`Learning events query failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
   return data || [];
 }
 
@@ -231,7 +261,10 @@ export async function storeAgent(args: any, context: RLangContext) {
     ...args,
   });
 
-  if (error) throw new Error(`Agent storage failed: ${getErrorMessage(error)}`);
+  if (error)
+    throw new Error(`Agent storage failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
   return { stored: true, data: data?.[0] };
 }
 
@@ -245,7 +278,10 @@ export async function queryAgents(args: any, context: RLangContext) {
   if (args.limit) query = query.limit(args.limit);
 
   const { data, error } = await query;
-  if (error) throw new Error(`Agents query failed: ${getErrorMessage(error)}`);
+  if (error)
+    throw new Error(`Agents query failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
   return data || [];
 }
 
@@ -267,7 +303,9 @@ export async function registerAgent(args: any, context: RLangContext) {
   });
 
   if (error)
-    throw new Error(`Agent registration failed: ${getErrorMessage(error)}`);
+    throw new Error(`Agent registration failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
   return { registered: true, data };
 }
 
@@ -280,7 +318,10 @@ export async function queryAgentCapabilities(args: any, context: RLangContext) {
 
   const { data, error } = await query;
   if (error)
-    throw new Error(`Agent capability query failed: ${getErrorMessage(error)}`);
+    throw new Error(
+      `Agent capability query failed: ${getErrorMessage(error)}`,
+      { cause: error },
+    );
   return data || [];
 }
 
@@ -319,6 +360,7 @@ export async function initializeLearningTracking(
   if (error)
     throw new Error(
       `Learning tracking initialization failed: ${getErrorMessage(error)}`,
+      { cause: error },
     );
   return { initialized: true, tracking_id: data?.[0]?.id };
 }
@@ -339,6 +381,7 @@ export async function initializeRoutingSystem(
   if (error)
     throw new Error(
       `Routing system initialization failed: ${getErrorMessage(error)}`,
+      { cause: error },
     );
   return { initialized: true, routing_id: data?.[0]?.id };
 }
@@ -463,7 +506,10 @@ export async function query_files(args: any, context: RLangContext) {
   }
 
   const { data, error } = await query.limit(20);
-  if (error) throw new Error(`File query failed: ${getErrorMessage(error)}`);
+  if (error)
+    throw new Error(`File query failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
 
   // Return resolved path for first match if looking for specific file
   if (args.file_pattern && data && data.length > 0) {
@@ -514,7 +560,10 @@ export async function createTables(args: any, context: RLangContext) {
     WHERE table_name LIKE 'rcd_%'
   `);
 
-  if (error) throw new Error(`Table check failed: ${getErrorMessage(error)}`);
+  if (error)
+    throw new Error(`Table check failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
 
   const expectedTables = [
     "rcd_files",
@@ -133,7 +133,10 @@ export async function sendMessage(args: any, context: RLangContext) {
       response: result,
     };
   } catch (error) {
-    throw new Error(`RocketChat sendMessage failed: ${getErrorMessage(error)}`);
+    throw new Error(
+      `RocketChat sendMessage failed: ${getErrorMessage(error)}`,
+      { cause: error },
+    );
   }
 }
 
@@ -193,7 +196,10 @@ export async function getMessages(args: any, context: RLangContext) {
       has_more: result.offset < result.total,
     };
   } catch (error) {
-    throw new Error(`RocketChat getMessages failed: ${getErrorMessage(error)}`);
+    throw new Error(
+      `RocketChat getMessages failed: ${getErrorMessage(error)}`,
+      { cause: error },
+    );
   }
 }
 
@@ -238,7 +244,9 @@ export async function uploadFile(args: any, context: RLangContext) {
       url: result.message?.file?.url,
     };
   } catch (error) {
-    throw new Error(`RocketChat uploadFile failed: ${getErrorMessage(error)}`);
+    throw new Error(`RocketChat uploadFile failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
   }
 }
 
@@ -265,7 +273,9 @@ export async function createDM(args: any, context: RLangContext) {
       room_name: result.room?.name,
     };
   } catch (error) {
-    throw new Error(`RocketChat createDM failed: ${getErrorMessage(error)}`);
+    throw new Error(`RocketChat createDM failed: ${getErrorMessage(error)}`, {
+      cause: error,
+    });
   }
 }
 
@@ -299,7 +309,10 @@ export async function getUserInfo(args: any, context: RLangContext) {
       },
     };
   } catch (error) {
-    throw new Error(`RocketChat getUserInfo failed: ${getErrorMessage(error)}`);
+    throw new Error(
+      `RocketChat getUserInfo failed: ${getErrorMessage(error)}`,
+      { cause: error },
+    );
   }
 }
 
@@ -329,6 +342,7 @@ export async function reactToMessage(args: any, context: RLangContext) {
   } catch (error) {
     throw new Error(
       `RocketChat reactToMessage failed: ${getErrorMessage(error)}`,
+      { cause: error },
     );
   }
 }
@@ -358,6 +372,7 @@ export async function deleteMessage(args: any, context: RLangContext) {
   } catch (error) {
     throw new Error(
       `RocketChat deleteMessage failed: ${getErrorMessage(error)}`,
+      { cause: error },
     );
   }
 }
@@ -389,6 +404,7 @@ export async function updateMessage(args: any, context: RLangContext) {
   } catch (error) {
     throw new Error(
       `RocketChat updateMessage failed: ${getErrorMessage(error)}`,
+      { cause: error },
     );
   }
 }
@@ -437,7 +453,8 @@ function formatButtons(buttons: any[]): any[] {
     return {
       type: "button",
       text: button.text || button.title || button.label,
-      msg: button.value || button.action || button.text,
+      // promptUser's buttons are formatted again by sendMessage: keep msg
+      msg: button.value || button.msg || button.action || button.text,
       msg_in_chat_window: true,
       msg_processing_type: "respondWithMessage",
       style: button.style || "default",
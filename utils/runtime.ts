@@ -3,6 +3,12 @@
 // All RCD logic moved to r/system/dynamic-linker.r
 
 import { RLangContext } from "../schema/types";
+import { enterFrame, isResolving } from "../runtime/call-stack";
+import {
+  ExecutionError,
+  isExecutionErrorCode,
+} from "../runtime/execution-control";
+import { RLangError } from "../runtime/errors";
 
 // Keep existing function registry (no changes to core functionality)
 const functionRegistry: Map<string, Map<string, Function>> = new Map();
@@ -26,6 +32,10 @@ async function initRCD(): Promise<void> {
         input,
         context,
       });
+      // A stopped run (timeout, cycle, ...) stops the lookup that started it
+      if (isExecutionErrorCode(result.errorCode)) {
+        throw new ExecutionError(result.errorCode, result.error ?? "");
+      }
       return result.success ? result.result : null;
     };
   } catch (error) {
@@ -79,15 +89,23 @@ export async function getFunction(
   await initRCD();
 
   try {
-    // TRY: RCD resolution (one line delegation)
-    if (rcdDelegate && context) {
+    // TRY: RCD resolution (one line delegation). Lookups made while the
+    // linker is already resolving go straight to the fallbacks - the linker
+    // resolving its own steps through itself never terminates.
+    if (rcdDelegate && context && !isResolving(context)) {
       const rcdResult = await rcdDelegate(
         "resolve_capability",
         {
           capability: `${module}_${functionName}`,
           consumer: context.agentId,
         },
-        context,
+        {
+          ...context,
+          callStack: enterFrame(context, {
+            kind: "resolve",
+            name: `${module}.${functionName}`,
+          }),
+        },
       );
 
       if (rcdResult?.provider) {
@@ -133,7 +151,8 @@ export async function getFunction(
       }
     }
 
-    throw new Error(
+    throw new RLangError(
+      "FUNCTION_NOT_FOUND",
       `Function ${functionName} not found in module ${module}. Available paths tried: ${attemptPaths.join(", ")}`,
     );
   } catch (error) {
@@ -14,7 +14,8 @@ export async function log(args: any, context: RLangContext) {
   };
 
   const { error } = await db.from('agent_logs').insert(logEntry);
-  if (error) throw new Error(`TAMR log failed: ${error.message}`);
+  if (error)
+    throw new Error(`TAMR log failed: ${error.message}`, { cause: error });
 
   return { logged: true, entry: logEntry };
 }
@@ -35,7 +36,8 @@ export async function query(args: any, context: RLangContext) {
   query = query.order('timestamp', { ascending: false });
 
   const { data, error } = await query;
-  if (error) throw new Error(`TAMR query failed: ${error.message}`);
+  if (error)
+    throw new Error(`TAMR query failed: ${error.message}`, { cause: error });
 
   return data || [];
 }